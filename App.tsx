@@ -10,7 +10,10 @@ import HomeScreen from './src/screens/HomeScreen';
 import CameraScreen from './src/screens/CameraScreen';
 import AnalysisScreen from './src/screens/AnalysisScreen';
 import VideoHistoryScreen from './src/screens/VideoHistoryScreen';
+import DrillOverviewScreen from './src/screens/DrillOverviewScreen';
+import VideoReviewScreen from './src/screens/VideoReviewScreen';
 import { VideoStorageService } from './src/services/videoStorageService';
+import { analysisQueueService } from './src/services/analysisQueueService';
 
 // Simplified imports to avoid potential issues
 let LoginScreen: React.ComponentType<any> | null = null;
@@ -38,10 +41,12 @@ export type RootStackParamList = {
   Login: undefined;
   Home: undefined;
   Camera: { shotType: string };
-  Analysis: { videoUri: string; shotType: string };
-  Results: { analysisResult: any };
+  Analysis: { videoUri: string; shotType: string; videoId?: string; jobId?: string };
+  Results: { analysisResult: any; videoUri?: string; videoId?: string };
   Profile: undefined;
   VideoHistory: undefined;
+  DrillOverview: { videoId: string };
+  VideoReview: { videoId: string };
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -148,6 +153,14 @@ export default function App() {
       } catch (error) {
         console.warn('Video storage initialization failed, continuing:', error);
       }
+
+      // Resume analysis jobs interrupted by the last app close
+      try {
+        await analysisQueueService.initialize();
+        console.log('Analysis queue initialized successfully');
+      } catch (error) {
+        console.warn('Analysis queue initialization failed, continuing:', error);
+      }
       
       console.log('App initialization complete');
     } catch (error) {
@@ -179,6 +192,8 @@ export default function App() {
             <Stack.Screen name="Camera" component={CameraScreen} />
             <Stack.Screen name="Analysis" component={AnalysisScreen} />
             <Stack.Screen name="VideoHistory" component={VideoHistoryScreen} />
+            <Stack.Screen name="DrillOverview" component={DrillOverviewScreen} />
+            <Stack.Screen name="VideoReview" component={VideoReviewScreen} />
             {ResultsScreen && (
               <Stack.Screen name="Results" component={ResultsScreen} />
             )}
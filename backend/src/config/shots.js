@@ -0,0 +1,24 @@
+/**
+ * Tipos de golpe aceptados por la API y su dificultad técnica.
+ * Debe coincidir con el registro de golpes de la app (src/config/shotRegistry.ts).
+ */
+const SHOT_DIFFICULTIES = {
+  derecha: 'easy',
+  reves: 'moderate',
+  volea: 'easy',
+  saque: 'hard',
+  bandeja: 'moderate',
+  vibora: 'hard',
+  remate: 'hard',
+  globo: 'moderate',
+  chiquita: 'hard',
+  bajada: 'hard',
+  contrapared: 'hard'
+};
+
+const SHOT_TYPES = Object.keys(SHOT_DIFFICULTIES);
+
+module.exports = {
+  SHOT_TYPES,
+  SHOT_DIFFICULTIES
+};
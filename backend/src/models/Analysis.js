@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { SHOT_TYPES, SHOT_DIFFICULTIES } = require('../config/shots');
 
 const analysisSchema = new mongoose.Schema({
   // Usuario que realizó el análisis
@@ -13,7 +14,7 @@ const analysisSchema = new mongoose.Schema({
   shotType: {
     type: String,
     required: true,
-    enum: ['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate'],
+    enum: SHOT_TYPES,
     index: true
   },
   
@@ -57,6 +58,12 @@ const analysisSchema = new mongoose.Schema({
       score: { type: Number, min: 0, max: 100 },
       feedback: [String],
       confidence: { type: Number, min: 0, max: 1 }
+    },
+    // Juego de pies: split-step, base y transferencia de peso (no existe en los análisis antiguos)
+    footwork: {
+      score: { type: Number, min: 0, max: 100 },
+      feedback: [String],
+      confidence: { type: Number, min: 0, max: 1 }
     }
   },
   
@@ -64,7 +71,7 @@ const analysisSchema = new mongoose.Schema({
   improvements: [{
     category: {
       type: String,
-      enum: ['posture', 'timing', 'followThrough', 'power', 'general']
+      enum: ['posture', 'timing', 'followThrough', 'power', 'footwork', 'general']
     },
     description: {
       type: String,
@@ -83,6 +90,128 @@ const analysisSchema = new mongoose.Schema({
     }
   }],
   
+  // Fases del golpe detectadas en la secuencia de pose (tiempos en ms, frames de la secuencia)
+  phases: [{
+    name: {
+      type: String,
+      enum: ['preparation', 'backswing', 'contact', 'followThrough'],
+      required: true
+    },
+    startTime: { type: Number, min: 0 },
+    endTime: { type: Number, min: 0 },
+    startFrame: { type: Number, min: 0 },
+    endFrame: { type: Number, min: 0 },
+    _id: false
+  }],
+  
+  // Momentos del golpe en los que una regla técnica queda fuera de su rango ideal (tiempos en ms)
+  annotations: [{
+    timestamp: { type: Number, min: 0 },
+    frameIndex: { type: Number, min: 0 },
+    ruleId: { type: String, required: true },
+    metric: String,
+    dimension: {
+      type: String,
+      enum: ['posture', 'timing', 'followThrough', 'power', 'footwork']
+    },
+    value: Number,
+    ideal: [Number],
+    unit: String,
+    score: { type: Number, min: 0, max: 100 },
+    passed: Boolean,
+    message: String,
+    _id: false
+  }],
+  
+  // Tipo de golpe propuesto por el clasificador (puede no coincidir con el elegido)
+  detectedShot: {
+    shotType: {
+      type: String,
+      enum: SHOT_TYPES
+    },
+    confidence: { type: Number, min: 0, max: 1 }
+  },
+  
+  // Mano del jugador; la pose de los zurdos se evalúa reflejada
+  handedness: {
+    type: String,
+    enum: ['right', 'left'],
+    default: 'right'
+  },
+  
+  // Ángulo de grabación con el que se eligieron las reglas
+  cameraAngle: {
+    type: String,
+    enum: ['behind', 'side', 'front']
+  },
+  
+  // Vuelo de la pelota tras el impacto (coordenadas normalizadas de la imagen)
+  ball: {
+    contactTime: Number,
+    contactPoint: { timestamp: Number, x: Number, y: Number },
+    contactHeight: Number,
+    exitDirection: Number,
+    exitSpeed: Number,
+    detections: [{ timestamp: Number, x: Number, y: Number, _id: false }],
+    trajectory: [{ timestamp: Number, x: Number, y: Number, _id: false }],
+    confidence: { type: Number, min: 0, max: 1 }
+  },
+  
+  // Velocidad en el impacto (km/h) en la que se basa la puntuación de potencia
+  racketSpeed: {
+    racketHead: { type: Number, min: 0 },
+    wrist: { type: Number, min: 0 },
+    calibrated: { type: Boolean, default: false },
+    reference: [Number]
+  },
+  
+  // Avisos de riesgo de lesión por ángulos articulares (grados), aparte de las puntuaciones
+  injuryRisk: {
+    angles: {
+      elbowExtension: Number,
+      shoulderAbduction: Number,
+      lumbarFlexion: Number
+    },
+    warnings: [{
+      metric: {
+        type: String,
+        enum: ['elbowExtension', 'shoulderAbduction', 'lumbarFlexion']
+      },
+      joint: {
+        type: String,
+        enum: ['elbow', 'shoulder', 'lowerBack']
+      },
+      severity: {
+        type: String,
+        enum: ['moderate', 'high']
+      },
+      value: Number,
+      threshold: Number,
+      timestamp: Number,
+      message: String,
+      advice: String,
+      _id: false
+    }],
+    riskScore: { type: Number, min: 0, max: 100 }
+  },
+  
+  // Comparación con el modelo de referencia (DTW); desviaciones en longitudes de tronco
+  reference: {
+    templateId: String,
+    templateName: String,
+    shotType: String,
+    similarity: { type: Number, min: 0, max: 100 },
+    averageDistance: Number,
+    timestamps: [Number],
+    jointDeviations: [{
+      joint: String,
+      deviations: [Number],
+      mean: Number,
+      max: Number,
+      _id: false
+    }]
+  },
+  
   // Metadatos del análisis
   metadata: {
     device: {
@@ -163,7 +292,8 @@ analysisSchema.virtual('averageConfidence').get(function() {
     this.results.posture?.confidence,
     this.results.timing?.confidence,
     this.results.followThrough?.confidence,
-    this.results.power?.confidence
+    this.results.power?.confidence,
+    this.results.footwork?.confidence
   ].filter(score => score !== undefined);
   
   return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
@@ -171,16 +301,7 @@ analysisSchema.virtual('averageConfidence').get(function() {
 
 // Virtual para obtener el nivel de dificultad del golpe
 analysisSchema.virtual('shotDifficulty').get(function() {
-  const difficulties = {
-    'derecha': 'easy',
-    'reves': 'moderate',
-    'volea': 'easy',
-    'saque': 'hard',
-    'bandeja': 'moderate',
-    'vibora': 'hard',
-    'remate': 'hard'
-  };
-  return difficulties[this.shotType] || 'moderate';
+  return SHOT_DIFFICULTIES[this.shotType] || 'moderate';
 });
 
 // Método para calcular tendencia de mejora
@@ -211,7 +332,8 @@ analysisSchema.methods.getSummary = function() {
     status: this.status,
     createdAt: this.createdAt,
     videoUrl: this.video.url,
-    thumbnail: this.video.thumbnail
+    thumbnail: this.video.thumbnail,
+    aiModel: this.aiModel
   };
 };
 
@@ -223,6 +345,7 @@ analysisSchema.methods.getDetailedStats = function() {
     timing: this.results.timing,
     followThrough: this.results.followThrough,
     power: this.results.power,
+    footwork: this.results.footwork,
     averageConfidence: this.averageConfidence,
     shotDifficulty: this.shotDifficulty,
     improvements: this.improvements,
@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { SHOT_TYPES } = require('../config/shots');
 
 const userSchema = new mongoose.Schema({
   // Información básica
@@ -41,9 +42,21 @@ const userSchema = new mongoose.Schema({
     },
     favoriteShot: {
       type: String,
-      enum: ['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate'],
+      enum: SHOT_TYPES,
       default: 'derecha'
     },
+    // Mano con la que juega; a los zurdos se les refleja la pose antes de evaluarla
+    handedness: {
+      type: String,
+      enum: ['right', 'left'],
+      default: 'right'
+    },
+    // Altura en cm; calibra la escala de la imagen para medir velocidades
+    height: {
+      type: Number,
+      min: 120,
+      max: 230
+    },
     goals: [{
       type: String,
       maxlength: 200
@@ -187,6 +200,8 @@ userSchema.methods.getProfileSummary = function() {
     level: this.profile.level,
     experience: this.profile.experience,
     favoriteShot: this.profile.favoriteShot,
+    handedness: this.profile.handedness,
+    height: this.profile.height,
     stats: {
       totalAnalyses: this.stats.totalAnalyses,
       averageScore: Math.round(this.stats.averageScore * 100) / 100,
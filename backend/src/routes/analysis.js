@@ -1,5 +1,6 @@
 const express = require('express');
 const { body, validationResult, query } = require('express-validator');
+const { SHOT_TYPES } = require('../config/shots');
 const Analysis = require('../models/Analysis');
 const User = require('../models/User');
 
@@ -8,7 +9,7 @@ const router = express.Router();
 // Validaciones para crear análisis
 const createAnalysisValidation = [
   body('shotType')
-    .isIn(['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate'])
+    .isIn(SHOT_TYPES)
     .withMessage('Tipo de golpe inválido'),
   body('results.overallScore')
     .isInt({ min: 0, max: 100 })
@@ -54,6 +55,15 @@ router.post('/', createAnalysisValidation, async (req, res) => {
       results,
       video,
       improvements,
+      phases,
+      annotations,
+      detectedShot,
+      handedness,
+      cameraAngle,
+      ball,
+      racketSpeed,
+      injuryRisk,
+      reference,
       metadata,
       userNotes
     } = req.body;
@@ -65,14 +75,30 @@ router.post('/', createAnalysisValidation, async (req, res) => {
       results,
       video,
       improvements: improvements || [],
+      phases: phases || [],
+      annotations: annotations || [],
+      detectedShot,
+      handedness,
+      cameraAngle,
+      ball,
+      racketSpeed,
+      injuryRisk,
+      reference,
       metadata: metadata || {},
+      aiModel: {
+        version: metadata?.aiModel,
+        confidence: metadata?.confidence,
+        processingTime: metadata?.processingTime
+      },
       userNotes
     });
 
-    // Calcular tendencia si hay análisis anteriores
+    // Calcular tendencia si hay análisis anteriores con la misma versión de las reglas;
+    // las puntuaciones de versiones distintas no son comparables
     const previousAnalyses = await Analysis.find({
       userId: req.user.userId,
-      shotType
+      shotType,
+      'aiModel.version': metadata?.aiModel || null
     }).sort({ createdAt: -1 }).limit(3);
 
     if (previousAnalyses.length > 0) {
@@ -120,7 +146,7 @@ router.post('/', createAnalysisValidation, async (req, res) => {
 router.get('/', [
   query('page').optional().isInt({ min: 1 }).withMessage('Página debe ser un número positivo'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Límite debe estar entre 1 y 100'),
-  query('shotType').optional().isIn(['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate']),
+  query('shotType').optional().isIn(SHOT_TYPES),
   query('status').optional().isIn(['processing', 'completed', 'failed', 'reviewed']),
   query('sortBy').optional().isIn(['createdAt', 'overallScore', 'shotType']),
   query('sortOrder').optional().isIn(['asc', 'desc'])
@@ -1,6 +1,7 @@
 const express = require('express');
 const jwt = require('jsonwebtoken');
 const { body, validationResult } = require('express-validator');
+const { SHOT_TYPES } = require('../config/shots');
 const User = require('../models/User');
 const { authMiddleware } = require('../middleware/auth');
 
@@ -34,8 +35,12 @@ const registerValidation = [
     .withMessage('Nivel inválido'),
   body('profile.favoriteShot')
     .optional()
-    .isIn(['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate'])
-    .withMessage('Golpe favorito inválido')
+    .isIn(SHOT_TYPES)
+    .withMessage('Golpe favorito inválido'),
+  body('profile.handedness')
+    .optional()
+    .isIn(['right', 'left'])
+    .withMessage('Lateralidad inválida')
 ];
 
 // Validaciones para login
@@ -1,5 +1,6 @@
 const express = require('express');
 const { query, validationResult } = require('express-validator');
+const { SHOT_TYPES } = require('../config/shots');
 const Analysis = require('../models/Analysis');
 const User = require('../models/User');
 
@@ -8,10 +9,18 @@ const router = express.Router();
 // Validaciones para consultas de estadísticas
 const statsValidation = [
   query('period').optional().isIn(['week', 'month', 'quarter', 'year']).withMessage('Período inválido'),
-  query('shotType').optional().isIn(['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate']).withMessage('Tipo de golpe inválido'),
+  query('shotType').optional().isIn(SHOT_TYPES).withMessage('Tipo de golpe inválido'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Límite debe estar entre 1 y 100')
 ];
 
+// Media del juego de pies de los análisis que lo tienen; null si ninguno
+const averageFootwork = (analyses) => {
+  const scores = analyses
+    .map(a => a.results.footwork?.score)
+    .filter(score => typeof score === 'number');
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+};
+
 /**
  * @route   GET /api/stats/overview
  * @desc    Obtener vista general de estadísticas
@@ -171,7 +180,8 @@ router.get('/performance', statsValidation, async (req, res) => {
           avgPosture: { $avg: '$results.posture.score' },
           avgTiming: { $avg: '$results.timing.score' },
           avgFollowThrough: { $avg: '$results.followThrough.score' },
-          avgPower: { $avg: '$results.power.score' }
+          avgPower: { $avg: '$results.power.score' },
+          avgFootwork: { $avg: '$results.footwork.score' }
         }
       }
     ]);
@@ -193,7 +203,11 @@ router.get('/performance', statsValidation, async (req, res) => {
           averagePosture: Math.round(technicalStats[0].avgPosture * 100) / 100,
           averageTiming: Math.round(technicalStats[0].avgTiming * 100) / 100,
           averageFollowThrough: Math.round(technicalStats[0].avgFollowThrough * 100) / 100,
-          averagePower: Math.round(technicalStats[0].avgPower * 100) / 100
+          averagePower: Math.round(technicalStats[0].avgPower * 100) / 100,
+          // null si ningún análisis del periodo tiene juego de pies
+          averageFootwork: technicalStats[0].avgFootwork !== null
+            ? Math.round(technicalStats[0].avgFootwork * 100) / 100
+            : null
         } : null
       }
     });
@@ -265,6 +279,11 @@ router.get('/comparison', async (req, res) => {
       power: {
         current: currentPeriod.reduce((sum, a) => sum + (a.results.power?.score || 0), 0) / currentPeriod.length,
         previous: previousPeriod.reduce((sum, a) => sum + (a.results.power?.score || 0), 0) / previousPeriod.length
+      },
+      // Solo con los análisis que tienen juego de pies
+      footwork: {
+        current: averageFootwork(currentPeriod),
+        previous: averageFootwork(previousPeriod)
       }
     };
 
@@ -354,10 +373,10 @@ router.get('/export', async (req, res) => {
       res.setHeader('Content-Disposition', `attachment; filename=padeltech-stats-${period}-${Date.now()}.csv`);
       
       // CSV header
-      let csv = 'Date,Shot Type,Overall Score,Posture,Timing,Follow Through,Power\n';
+      let csv = 'Date,Shot Type,Overall Score,Posture,Timing,Follow Through,Power,Footwork\n';
       
       analyses.forEach(analysis => {
-        csv += `${analysis.createdAt.toISOString()},${analysis.shotType},${analysis.results.overallScore},${analysis.results.posture?.score || 'N/A'},${analysis.results.timing?.score || 'N/A'},${analysis.results.followThrough?.score || 'N/A'},${analysis.results.power?.score || 'N/A'}\n`;
+        csv += `${analysis.createdAt.toISOString()},${analysis.shotType},${analysis.results.overallScore},${analysis.results.posture?.score || 'N/A'},${analysis.results.timing?.score || 'N/A'},${analysis.results.followThrough?.score || 'N/A'},${analysis.results.power?.score || 'N/A'},${analysis.results.footwork?.score || 'N/A'}\n`;
       });
       
       res.send(csv);
@@ -1,5 +1,6 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
+const { SHOT_TYPES } = require('../config/shots');
 const User = require('../models/User');
 
 const router = express.Router();
@@ -17,8 +18,16 @@ const updateProfileValidation = [
     .withMessage('Nivel inválido'),
   body('profile.favoriteShot')
     .optional()
-    .isIn(['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate'])
+    .isIn(SHOT_TYPES)
     .withMessage('Golpe favorito inválido'),
+  body('profile.handedness')
+    .optional()
+    .isIn(['right', 'left'])
+    .withMessage('Lateralidad inválida'),
+  body('profile.height')
+    .optional()
+    .isInt({ min: 120, max: 230 })
+    .withMessage('La altura debe estar entre 120 y 230 cm'),
   body('profile.experience')
     .optional()
     .isFloat({ min: 0 })
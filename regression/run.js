@@ -0,0 +1,265 @@
+// PadelTech Golden Regression
+// Analiza las secuencias de pose de regression/fixtures con aiService y compara el resultado
+// con el guardado en regression/expected, dentro de las tolerancias de cada valor.
+//
+// Uso:
+//   node regression/run.js                  compara todos los golpes
+//   node regression/run.js remate vibora    solo esos golpes
+//   node regression/run.js --update         acepta los resultados actuales como esperados
+//   node regression/run.js --verbose        muestra los logs de los servicios
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const EXPECTED_DIR = path.join(__dirname, 'expected');
+
+/**
+ * Diferencia máxima admitida por campo (última clave de la ruta); el resto se compara exacto.
+ * Los textos (feedback, mejoras, golpe detectado) siempre tienen que coincidir.
+ */
+const TOLERANCES = {
+  overallScore: 2, // puntos (0-100)
+  score: 2,
+  riskScore: 5,
+  similarity: 3,
+  confidence: 0.05, // 0-1
+  racketHead: 3, // km/h
+  wrist: 3,
+  elbowExtension: 3, // grados
+  shoulderAbduction: 3,
+  lumbarFlexion: 3,
+  startFrame: 1,
+  endFrame: 1,
+  frameIndex: 1,
+};
+
+const args = process.argv.slice(2);
+const update = args.includes('--update');
+const verbose = args.includes('--verbose');
+const only = args.filter(arg => !arg.startsWith('--'));
+
+// Módulos nativos sin equivalente en Node. Con Platform.OS = 'web' los servicios guardan
+// todo en AsyncStorage, que aquí es un almacén en memoria vacío: sin perfil, videos ni plantillas propias.
+const memoryStorage = new Map();
+const NATIVE_MODULES = {
+  'react-native': {
+    Platform: { OS: 'web', select: options => options.web ?? options.default },
+    Dimensions: { get: () => ({ width: 390, height: 844, scale: 1, fontScale: 1 }) },
+    Alert: { alert: () => {} },
+  },
+  '@react-native-async-storage/async-storage': {
+    __esModule: true,
+    default: {
+      getItem: async key => (memoryStorage.has(key) ? memoryStorage.get(key) : null),
+      setItem: async (key, value) => void memoryStorage.set(key, value),
+      removeItem: async key => void memoryStorage.delete(key),
+      getAllKeys: async () => Array.from(memoryStorage.keys()),
+      multiRemove: async keys => keys.forEach(key => memoryStorage.delete(key)),
+    },
+  },
+};
+const isNativeModule = request =>
+  request in NATIVE_MODULES || request.startsWith('expo-') || request.startsWith('@expo/');
+
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  return isNativeModule(request) ? request : originalResolve.call(this, request, ...rest);
+};
+const originalLoad = Module._load;
+Module._load = function (request, ...rest) {
+  return isNativeModule(request) ? NATIVE_MODULES[request] || {} : originalLoad.call(this, request, ...rest);
+};
+
+// Los servicios de la app se cargan directamente desde el código TypeScript
+const compilerOptions = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2020,
+  jsx: ts.JsxEmit.React,
+  esModuleInterop: true,
+};
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), { compilerOptions, fileName: filename });
+  module._compile(outputText, filename);
+};
+global.__DEV__ = false;
+
+const { aiService } = require(path.join(ROOT, 'src/services/aiService.ts'));
+
+/**
+ * Campos del análisis que se fijan; los que dependen de la ejecución (tiempo, fecha) quedan fuera
+ */
+const toSnapshot = result => {
+  const dimensions = {};
+  ['posture', 'timing', 'followThrough', 'power', 'footwork'].forEach(dimension => {
+    const value = result[dimension];
+    if (value) {
+      dimensions[dimension] = { score: value.score, confidence: value.confidence, feedback: value.feedback };
+    }
+  });
+
+  return {
+    overallScore: result.overallScore,
+    dimensions,
+    improvements: result.improvements.map(
+      improvement => `[${improvement.priority}] ${improvement.category}: ${improvement.description}`
+    ),
+    phases: (result.phases || []).map(phase => ({
+      name: phase.name,
+      startFrame: phase.startFrame,
+      endFrame: phase.endFrame,
+    })),
+    annotations: (result.annotations || []).map(annotation => ({
+      ruleId: annotation.ruleId,
+      frameIndex: annotation.frameIndex,
+      message: annotation.message,
+    })),
+    detectedShot: result.detectedShot || null,
+    reference: result.reference
+      ? { templateId: result.reference.templateId, similarity: result.reference.similarity }
+      : null,
+    racketSpeed: result.racketSpeed || null,
+    injuryRisk: result.injuryRisk
+      ? {
+          riskScore: result.injuryRisk.riskScore,
+          angles: result.injuryRisk.angles,
+          warnings: result.injuryRisk.warnings.map(warning => `${warning.joint}: ${warning.severity}`),
+        }
+      : null,
+    confidence: result.confidence,
+  };
+};
+
+/**
+ * Diferencias entre el resultado esperado y el actual, con la ruta de cada campo
+ */
+const compare = (expected, actual, route = '', diffs = []) => {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    const key = route.split('.').pop().replace(/\[\d+\]$/, '');
+    const tolerance = TOLERANCES[key] || 0;
+    if (Math.abs(actual - expected) > tolerance + 1e-9) {
+      diffs.push({ route, expected, actual, tolerance });
+    }
+    return diffs;
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      compare(expected[i], actual[i], `${route}[${i}]`, diffs);
+    }
+    return diffs;
+  }
+
+  const isObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (isObject(expected) && isObject(actual)) {
+    new Set([...Object.keys(expected), ...Object.keys(actual)]).forEach(key => {
+      compare(expected[key], actual[key], route ? `${route}.${key}` : key, diffs);
+    });
+    return diffs;
+  }
+
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    diffs.push({ route, expected, actual });
+  }
+  return diffs;
+};
+
+const format = value => (value === undefined ? '(no existe)' : JSON.stringify(value));
+
+const formatDiff = diff => {
+  const lines = [`    ${diff.route}`];
+  if (typeof diff.expected === 'number' && typeof diff.actual === 'number') {
+    const delta = Math.round((diff.actual - diff.expected) * 1000) / 1000;
+    lines[0] += `: ${diff.expected} → ${diff.actual} (Δ ${delta > 0 ? '+' : ''}${delta}, tolerancia ±${diff.tolerance})`;
+  } else {
+    lines.push(`      - esperado: ${format(diff.expected)}`, `      + actual:   ${format(diff.actual)}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Analiza un fixture sin los logs de los servicios, salvo con --verbose
+ */
+const analyzeFixture = async fixture => {
+  const { log, warn } = console;
+  if (!verbose) console.log = console.warn = () => {};
+  try {
+    return await aiService.analyzePoseTrack(fixture.track, fixture.shotType, fixture.context);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+};
+
+const run = async () => {
+  const files = fs
+    .readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .filter(file => only.length === 0 || only.includes(path.basename(file, '.json')))
+    .sort();
+
+  if (files.length === 0) {
+    console.error(`No hay fixtures${only.length ? ` para: ${only.join(', ')}` : ''}`);
+    process.exit(1);
+  }
+
+  console.log(`Regresión de análisis: ${files.length} fixture(s)\n`);
+  let failed = 0;
+
+  for (const file of files) {
+    const name = path.basename(file, '.json');
+    const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+    const { handedness, cameraAngle, level } = fixture.context || {};
+    const label = `${name} (${[handedness, cameraAngle, level].filter(Boolean).join(', ')})`;
+    const expectedFile = path.join(EXPECTED_DIR, file);
+
+    let snapshot;
+    try {
+      snapshot = toSnapshot(await analyzeFixture(fixture));
+    } catch (error) {
+      failed++;
+      console.log(`✗ ${label}\n    error en el análisis: ${error && error.message ? error.message : JSON.stringify(error)}`);
+      continue;
+    }
+
+    if (update) {
+      fs.mkdirSync(EXPECTED_DIR, { recursive: true });
+      fs.writeFileSync(expectedFile, `${JSON.stringify(snapshot, null, 2)}\n`);
+      console.log(`✎ ${label}: resultado esperado actualizado (${snapshot.overallScore})`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedFile)) {
+      failed++;
+      console.log(`✗ ${label}\n    sin resultado esperado; ejecuta con --update para crearlo`);
+      continue;
+    }
+
+    const diffs = compare(JSON.parse(fs.readFileSync(expectedFile, 'utf8')), snapshot);
+    if (diffs.length === 0) {
+      console.log(`✓ ${label}: ${snapshot.overallScore}`);
+    } else {
+      failed++;
+      console.log(`✗ ${label}: ${diffs.length} diferencia(s)\n${diffs.map(formatDiff).join('\n')}`);
+    }
+  }
+
+  if (update) return;
+
+  console.log(`\n${files.length - failed} correcto(s), ${failed} con diferencias`);
+  if (failed > 0) {
+    console.log(
+      'Si el cambio de puntuaciones es intencionado, acepta los nuevos resultados con --update ' +
+        'y sube appConfig.analysis.engineVersion para que se recalculen los análisis guardados'
+    );
+    process.exitCode = 1;
+  }
+};
+
+run().catch(error => {
+  console.error('Error en la regresión:', error);
+  process.exit(1);
+});
@@ -21,6 +21,7 @@ export const appConfig = {
   // Camera Configuration
   camera: {
     maxRecordingDuration: 10, // seconds
+    maxDrillRecordingDuration: 120, // seconds, full drills are split into strokes afterwards
     videoQuality: '720p' as const,
     enableAudio: true,
     enableStabilization: true,
@@ -29,11 +30,29 @@ export const appConfig = {
 
   // Analysis Configuration
   analysis: {
+    engine: (__DEV__ ? 'fixture' : 'remote') as 'fixture' | 'local' | 'remote',
+    // Versión de las reglas de puntuación: súbela con cada cambio de reglas o umbrales para que
+    // los análisis guardados con la anterior se marquen como desactualizados y se puedan recalcular
+    engineVersion: 'padeltech-v2.0',
+    legacyEngineVersion: 'padeltech-v1.0', // análisis guardados antes de registrar la versión
     timeout: 30000,
     enableRealTime: false,
     enable3D: false,
     confidenceThreshold: 0.7,
+    shotTypeMismatchConfidence: 0.6, // confianza mínima del clasificador para sugerir otro golpe
     maxRetries: 3,
+    frameExtraction: {
+      sampleRate: 15, // frames per second
+      maxWidth: 480, // pixels
+      quality: 0.7,
+    },
+  },
+
+  // Revisión de videos
+  review: {
+    playbackRates: [0.25, 0.5, 1],
+    frameRate: 30, // fps con el que se avanza frame a frame; expo-av no da el del video
+    progressUpdateInterval: 50, // ms; también es la precisión del bucle A-B
   },
 
   // Storage Configuration
@@ -0,0 +1,78 @@
+// PadelTech Camera Angles
+// Desde dónde se grabó el golpe y qué métricas se pueden medir desde cada ángulo
+
+import type { Ionicons } from '@expo/vector-icons';
+import type { TechniqueMetric } from './techniqueRules';
+
+export type CameraAngle = 'behind' | 'side' | 'front';
+
+export interface CameraAngleInfo {
+  name: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}
+
+/**
+ * Ajuste de las reglas de una métrica para un ángulo
+ */
+export interface AngleMetricProfile {
+  reliability: number; // 0-1; 0 = no se puede medir desde este ángulo
+  ideal?: [number, number]; // rango ideal propio del ángulo, para todos los golpes
+}
+
+export const CAMERA_ANGLES: Record<CameraAngle, CameraAngleInfo> = {
+  behind: {
+    name: 'Detrás',
+    description: 'Cámara detrás del jugador, mirando hacia la red',
+    icon: 'person',
+  },
+  side: {
+    name: 'Lateral',
+    description: 'Cámara a un lado del jugador, perpendicular a la red',
+    icon: 'swap-horizontal',
+  },
+  front: {
+    name: 'Frente',
+    description: 'Cámara al otro lado de la red, de cara al jugador',
+    icon: 'happy',
+  },
+};
+
+// Ángulo que se asume si el video no lo indica y no se puede detectar
+export const DEFAULT_CAMERA_ANGLE: CameraAngle = 'behind';
+
+/**
+ * Perfil de cada métrica por ángulo; las métricas que no aparecen se miden sin pérdida.
+ * Lo que ocurre en profundidad (hacia la cámara) no se ve en la imagen.
+ */
+export const ANGLE_METRIC_PROFILES: Record<CameraAngle, Partial<Record<TechniqueMetric, AngleMetricProfile>>> = {
+  behind: {
+    // Desde detrás se ve la inclinación lateral, no la inclinación hacia la pelota
+    trunkLean: { reliability: 0.6, ideal: [0, 15] },
+    elbowAngle: { reliability: 0.8 },
+    followThroughDistance: { reliability: 0.8 },
+    // El swing hacia la red va en parte en profundidad
+    wristSpeed: { reliability: 0.7 },
+    racketSpeed: { reliability: 0.7 },
+    // Con los pies en línea hacia la red su separación queda en profundidad
+    baseWidth: { reliability: 0.7 },
+    weightTransfer: { reliability: 0.7 },
+  },
+  side: {
+    // Los hombros y las caderas quedan alineados con la cámara: su eje no se puede medir
+    shoulderRotation: { reliability: 0 },
+    followThroughCross: { reliability: 0 },
+    backswingSide: { reliability: 0 },
+  },
+  front: {
+    trunkLean: { reliability: 0.6, ideal: [0, 15] },
+    elbowAngle: { reliability: 0.8 },
+    followThroughDistance: { reliability: 0.8 },
+    wristSpeed: { reliability: 0.7 },
+    racketSpeed: { reliability: 0.7 },
+    baseWidth: { reliability: 0.7 },
+    weightTransfer: { reliability: 0.7 },
+    // En el armado el brazo de la raqueta queda a menudo tapado por el cuerpo
+    backswingSide: { reliability: 0.7 },
+  },
+};
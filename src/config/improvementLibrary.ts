@@ -0,0 +1,73 @@
+// PadelTech Improvement Library
+// Consejos por dimensión para cuando no hay reglas técnicas que expliquen una puntuación baja
+
+import type { Improvement } from '../services/analysisService';
+import type { ScoreDimension } from './techniqueRules';
+
+export type DimensionAdvice = Pick<Improvement, 'description' | 'difficulty'>;
+
+export interface DimensionAdviceLevels {
+  low: DimensionAdvice; // puntuación por debajo de 60
+  medium: DimensionAdvice; // puntuación entre 60 y 80
+}
+
+export const DIMENSION_ADVICE: Record<ScoreDimension, DimensionAdviceLevels> = {
+  posture: {
+    low: {
+      description: 'Trabaja la posición de espera: rodillas flexionadas, peso en la parte delantera de los pies',
+      difficulty: 'easy',
+    },
+    medium: {
+      description: 'Cuida la colocación antes de golpear: llega al golpe con los pies ya asentados',
+      difficulty: 'moderate',
+    },
+  },
+  timing: {
+    low: {
+      description: 'Prepara la raqueta en cuanto identifiques la trayectoria de la pelota',
+      difficulty: 'moderate',
+    },
+    medium: {
+      description: 'Ajusta el momento del impacto para golpear la pelota delante del cuerpo',
+      difficulty: 'moderate',
+    },
+  },
+  followThrough: {
+    low: {
+      description: 'Termina siempre el golpe: acompaña la pelota con la raqueta hacia el objetivo',
+      difficulty: 'easy',
+    },
+    medium: {
+      description: 'Alarga el seguimiento y recupera la posición de espera al terminar',
+      difficulty: 'easy',
+    },
+  },
+  power: {
+    low: {
+      description: 'Genera potencia con el giro del cuerpo y la transferencia de peso, no solo con el brazo',
+      difficulty: 'hard',
+    },
+    medium: {
+      description: 'Acelera la raqueta justo antes del impacto manteniendo el brazo relajado',
+      difficulty: 'moderate',
+    },
+  },
+  footwork: {
+    low: {
+      description: 'Muévete con pasos cortos y haz un split-step cada vez que el rival golpea',
+      difficulty: 'moderate',
+    },
+    medium: {
+      description: 'Coloca los pies antes de golpear para poder apoyar el peso hacia delante',
+      difficulty: 'moderate',
+    },
+  },
+};
+
+/**
+ * Consejo general cuando todas las dimensiones están bien
+ */
+export const MAINTENANCE_ADVICE: DimensionAdvice = {
+  description: 'Buen golpe: practícalo en situaciones de partido para consolidar la técnica',
+  difficulty: 'moderate',
+};
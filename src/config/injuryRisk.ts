@@ -0,0 +1,72 @@
+// PadelTech Injury Risk
+// Ángulos articulares que cargan codo, hombro y zona lumbar, y umbrales a partir de los que se avisa
+
+import type { CameraAngle } from './cameraAngles';
+
+export type RiskJoint = 'elbow' | 'shoulder' | 'lowerBack';
+
+/**
+ * Ángulos articulares (grados) que se vigilan:
+ * - elbowExtension: ángulo hombro-codo-muñeca alrededor del impacto (180 = brazo bloqueado)
+ * - shoulderAbduction: ángulo cadera-hombro-codo del brazo de la raqueta en el impacto
+ * - lumbarFlexion: flexión del tronco respecto a los muslos durante el golpe (0 = alineados)
+ */
+export type RiskMetric = 'elbowExtension' | 'shoulderAbduction' | 'lumbarFlexion';
+
+export type RiskSeverity = 'moderate' | 'high';
+
+export interface InjuryRiskRule {
+  metric: RiskMetric;
+  joint: RiskJoint;
+  thresholds: Record<RiskSeverity, number>; // grados; se avisa al alcanzarlos
+  cameraAngles?: CameraAngle[]; // ángulos desde los que se puede medir; sin definir = todos
+  message: string;
+  advice: string;
+}
+
+export const RISK_JOINT_NAMES: Record<RiskJoint, string> = {
+  elbow: 'Codo',
+  shoulder: 'Hombro',
+  lowerBack: 'Zona lumbar',
+};
+
+const elbowExtension = (moderate: number, high: number): InjuryRiskRule => ({
+  metric: 'elbowExtension',
+  joint: 'elbow',
+  thresholds: { moderate, high },
+  message: 'El codo llega bloqueado al impacto',
+  advice: 'Golpea con el codo ligeramente flexionado y deja que el antebrazo absorba el impacto',
+});
+
+const shoulderAbduction = (moderate: number, high: number): InjuryRiskRule => ({
+  metric: 'shoulderAbduction',
+  joint: 'shoulder',
+  thresholds: { moderate, high },
+  // Desde el lateral el brazo se separa del cuerpo en profundidad
+  cameraAngles: ['behind', 'front'],
+  message: 'El brazo se separa demasiado del tronco en el impacto',
+  advice: 'Inclina el tronco hacia el lado contrario en lugar de subir solo el brazo por encima de la cabeza',
+});
+
+const lumbarFlexion = (moderate: number, high: number): InjuryRiskRule => ({
+  metric: 'lumbarFlexion',
+  joint: 'lowerBack',
+  thresholds: { moderate, high },
+  message: 'La espalda se arquea o se dobla en exceso durante el golpe',
+  advice: 'Flexiona las rodillas y gira el tronco en bloque en vez de doblar la zona lumbar',
+});
+
+/**
+ * Umbrales por tipo de golpe. Los golpes por encima de la cabeza cargan más hombro y codo,
+ * así que tienen umbrales más estrictos.
+ */
+export const INJURY_RISK_RULES: Record<string, InjuryRiskRule[]> = {
+  remate: [elbowExtension(172, 178), shoulderAbduction(135, 155), lumbarFlexion(30, 45)],
+  saque: [elbowExtension(172, 178), shoulderAbduction(130, 150), lumbarFlexion(30, 45)],
+};
+
+export const DEFAULT_INJURY_RISK_RULES: InjuryRiskRule[] = [elbowExtension(176, 179), lumbarFlexion(40, 55)];
+
+// Tendencia del historial: análisis recientes frente a los anteriores
+export const RISK_TREND_WINDOW = 5;
+export const RISK_TREND_MARGIN = 5; // puntos de riesgo (0-100)
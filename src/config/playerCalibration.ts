@@ -0,0 +1,16 @@
+// PadelTech Player Calibration
+// Medidas del cuerpo y de la pala para pasar distancias de la imagen a metros
+
+// Altura que se asume si el jugador no la indica en su perfil (cm)
+export const AVERAGE_PLAYER_HEIGHT = 172;
+
+// Alturas aceptadas en el perfil (cm)
+export const MIN_PLAYER_HEIGHT = 120;
+export const MAX_PLAYER_HEIGHT = 230;
+
+// Proporciones respecto a la altura del jugador
+export const TORSO_HEIGHT_RATIO = 0.29; // del centro de los hombros al centro de la cadera
+export const HIP_HEIGHT_RATIO = 0.53; // de la cadera al suelo
+
+// Longitud de una pala de pádel: de la muñeca a la punta (m)
+export const RACKET_LENGTH = 0.45;
@@ -0,0 +1,333 @@
+// PadelTech Reference Templates
+// Modelo de referencia de cada golpe como poses clave en coordenadas del cuerpo (jugador diestro)
+
+import type { PoseJoint } from '../services/poseService';
+
+/**
+ * Articulaciones que se comparan con la referencia
+ */
+export const TEMPLATE_JOINTS: PoseJoint[] = [
+  'leftShoulder',
+  'rightShoulder',
+  'leftElbow',
+  'rightElbow',
+  'leftWrist',
+  'rightWrist',
+  'leftHip',
+  'rightHip',
+  'leftKnee',
+  'rightKnee',
+];
+
+/**
+ * Coordenadas del cuerpo: origen en el centro de la cadera, unidad = longitud del tronco,
+ * x positiva hacia el lado de la raqueta, y positiva hacia arriba
+ */
+export type BodyPoint = [number, number];
+
+export interface ReferenceKeyframe {
+  at: number; // 0-1, fracción de la duración del golpe
+  joints: Partial<Record<PoseJoint, BodyPoint>>; // solo lo que cambia respecto a la pose anterior
+}
+
+export interface ReferenceTemplateDefinition {
+  shotType: string;
+  name: string;
+  duration: number; // ms
+  keyframes: ReferenceKeyframe[];
+}
+
+/**
+ * Posición de espera de la que parten todos los golpes
+ */
+export const READY_STANCE: Partial<Record<PoseJoint, BodyPoint>> = {
+  leftShoulder: [-0.45, 1],
+  rightShoulder: [0.45, 1],
+  leftElbow: [-0.45, 0.5],
+  rightElbow: [0.5, 0.5],
+  leftWrist: [-0.1, 0.3],
+  rightWrist: [0.3, 0.25],
+  leftHip: [-0.25, 0],
+  rightHip: [0.25, 0],
+  leftKnee: [-0.3, -0.9],
+  rightKnee: [0.3, -0.9],
+};
+
+// Hombros girados de perfil durante el armado y la terminación
+const TURNED_SHOULDERS: Partial<Record<PoseJoint, BodyPoint>> = {
+  leftShoulder: [-0.2, 1],
+  rightShoulder: [0.2, 1],
+};
+
+const OPEN_SHOULDERS: Partial<Record<PoseJoint, BodyPoint>> = {
+  leftShoulder: [-0.4, 1],
+  rightShoulder: [0.4, 1],
+};
+
+const FLEXED_KNEES: Partial<Record<PoseJoint, BodyPoint>> = {
+  leftKnee: [-0.32, -0.8],
+  rightKnee: [0.35, -0.8],
+};
+
+export const REFERENCE_TEMPLATES: ReferenceTemplateDefinition[] = [
+  {
+    shotType: 'derecha',
+    name: 'Derecha de referencia',
+    duration: 1400,
+    keyframes: [
+      { at: 0, joints: {} },
+      {
+        at: 0.45,
+        joints: {
+          ...TURNED_SHOULDERS,
+          ...FLEXED_KNEES,
+          rightElbow: [0.7, 0.55],
+          rightWrist: [1, 0.5],
+          leftElbow: [0, 0.65],
+          leftWrist: [0.2, 0.6],
+        },
+      },
+      {
+        at: 0.62,
+        joints: {
+          ...OPEN_SHOULDERS,
+          rightElbow: [0.55, 0.45],
+          rightWrist: [0.45, 0.35],
+          leftElbow: [-0.4, 0.6],
+          leftWrist: [-0.3, 0.5],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [-0.2, 0.95],
+          rightWrist: [-0.6, 1.1],
+          leftElbow: [-0.45, 0.6],
+          leftWrist: [-0.5, 0.5],
+        },
+      },
+    ],
+  },
+  {
+    shotType: 'reves',
+    name: 'Revés de referencia',
+    duration: 1400,
+    keyframes: [
+      { at: 0, joints: {} },
+      {
+        at: 0.45,
+        joints: {
+          ...TURNED_SHOULDERS,
+          ...FLEXED_KNEES,
+          rightElbow: [-0.3, 0.65],
+          rightWrist: [-0.9, 0.55],
+          leftElbow: [-0.5, 0.55],
+          leftWrist: [-0.6, 0.6],
+        },
+      },
+      {
+        at: 0.62,
+        joints: {
+          ...OPEN_SHOULDERS,
+          rightElbow: [0.35, 0.55],
+          rightWrist: [0.2, 0.4],
+          leftElbow: [-0.45, 0.5],
+          leftWrist: [-0.4, 0.35],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [0.6, 0.8],
+          rightWrist: [0.9, 0.9],
+          leftWrist: [-0.5, 0.4],
+        },
+      },
+    ],
+  },
+  {
+    shotType: 'volea',
+    name: 'Volea de referencia',
+    duration: 800,
+    keyframes: [
+      { at: 0, joints: { leftKnee: [-0.32, -0.8], rightKnee: [0.35, -0.8] } },
+      {
+        at: 0.4,
+        joints: {
+          ...OPEN_SHOULDERS,
+          rightElbow: [0.6, 0.6],
+          rightWrist: [0.6, 0.8],
+          leftWrist: [0, 0.6],
+        },
+      },
+      {
+        at: 0.6,
+        joints: {
+          rightElbow: [0.5, 0.6],
+          rightWrist: [0.4, 0.75],
+          leftWrist: [-0.2, 0.55],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          rightElbow: [0.45, 0.55],
+          rightWrist: [0.2, 0.6],
+          leftWrist: [-0.2, 0.45],
+        },
+      },
+    ],
+  },
+  {
+    shotType: 'saque',
+    name: 'Saque de referencia',
+    duration: 1600,
+    keyframes: [
+      { at: 0, joints: { leftWrist: [0.1, 0.1] } },
+      {
+        at: 0.45,
+        joints: {
+          ...TURNED_SHOULDERS,
+          ...FLEXED_KNEES,
+          rightElbow: [0.65, 0.45],
+          rightWrist: [0.9, 0.2],
+          leftWrist: [0.2, -0.1],
+        },
+      },
+      {
+        at: 0.62,
+        joints: {
+          ...OPEN_SHOULDERS,
+          rightElbow: [0.5, 0.35],
+          rightWrist: [0.4, -0.15],
+          leftElbow: [-0.5, 0.55],
+          leftWrist: [-0.35, 0.4],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [0, 0.7],
+          rightWrist: [-0.3, 0.9],
+        },
+      },
+    ],
+  },
+  {
+    shotType: 'bandeja',
+    name: 'Bandeja de referencia',
+    duration: 1500,
+    keyframes: [
+      { at: 0, joints: {} },
+      {
+        at: 0.45,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [0.7, 1.15],
+          rightWrist: [0.6, 1.6],
+          leftElbow: [-0.1, 1.3],
+          leftWrist: [0.1, 1.6],
+        },
+      },
+      {
+        at: 0.62,
+        joints: {
+          ...OPEN_SHOULDERS,
+          rightElbow: [0.6, 1.35],
+          rightWrist: [0.5, 1.9],
+          leftElbow: [-0.45, 0.8],
+          leftWrist: [-0.3, 0.7],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [0.2, 1.1],
+          rightWrist: [-0.1, 1],
+          leftWrist: [-0.4, 0.5],
+        },
+      },
+    ],
+  },
+  {
+    shotType: 'vibora',
+    name: 'Víbora de referencia',
+    duration: 1400,
+    keyframes: [
+      { at: 0, joints: {} },
+      {
+        at: 0.45,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [0.75, 1.2],
+          rightWrist: [0.8, 1.7],
+          leftElbow: [-0.1, 1.3],
+          leftWrist: [0.1, 1.6],
+        },
+      },
+      {
+        at: 0.62,
+        joints: {
+          ...OPEN_SHOULDERS,
+          rightElbow: [0.6, 1.35],
+          rightWrist: [0.55, 1.85],
+          leftElbow: [-0.45, 0.8],
+          leftWrist: [-0.3, 0.7],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [-0.1, 0.9],
+          rightWrist: [-0.5, 0.6],
+          leftWrist: [-0.4, 0.5],
+        },
+      },
+    ],
+  },
+  {
+    shotType: 'remate',
+    name: 'Remate de referencia',
+    duration: 1500,
+    keyframes: [
+      { at: 0, joints: {} },
+      {
+        at: 0.45,
+        joints: {
+          ...TURNED_SHOULDERS,
+          ...FLEXED_KNEES,
+          rightElbow: [0.7, 1.25],
+          rightWrist: [0.55, 1.5],
+          leftElbow: [0, 1.5],
+          leftWrist: [0, 1.9],
+        },
+      },
+      {
+        at: 0.62,
+        joints: {
+          ...OPEN_SHOULDERS,
+          leftKnee: [-0.3, -0.9],
+          rightKnee: [0.3, -0.9],
+          rightElbow: [0.45, 1.55],
+          rightWrist: [0.35, 2.1],
+          leftElbow: [-0.4, 0.9],
+          leftWrist: [-0.3, 0.8],
+        },
+      },
+      {
+        at: 1,
+        joints: {
+          ...TURNED_SHOULDERS,
+          rightElbow: [-0.1, 0.7],
+          rightWrist: [-0.5, 0.3],
+          leftWrist: [-0.3, 0.6],
+        },
+      },
+    ],
+  },
+];
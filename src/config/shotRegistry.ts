@@ -0,0 +1,434 @@
+// PadelTech Shot Registry
+// Definición única de cada tipo de golpe: nombres, icono, dificultad, reglas de puntuación,
+// firma para el clasificador y consejos propios. Para añadir un golpe basta con definirlo aquí.
+
+import type { ImprovementDifficulty } from '../services/analysisService';
+import type { DimensionAdviceLevels } from './improvementLibrary';
+import { appConfig } from './appConfig';
+import {
+  kneeFlexion,
+  trunkLean,
+  shoulderRotation,
+  swingDuration,
+  backswingRatio,
+  followThroughRatio,
+  contactHeight,
+  followThroughDistance,
+  followThroughCross,
+  racketSpeed,
+  elbowAngle,
+  elbowHeight,
+  splitStep,
+  baseWidth,
+  weightTransfer,
+  ScoreDimension,
+  TechniqueMetric,
+  TechniqueRule,
+} from './techniqueRules';
+
+export const SHOT_TYPES = [
+  'derecha',
+  'reves',
+  'volea',
+  'saque',
+  'bandeja',
+  'vibora',
+  'remate',
+  'globo',
+  'chiquita',
+  'bajada',
+  'contrapared',
+] as const;
+
+export type ShotType = typeof SHOT_TYPES[number];
+
+export type ShotLanguage = 'es' | 'en';
+
+/**
+ * Rasgo que distingue un golpe de los parecidos al clasificarlo a partir de la pose
+ */
+export interface ShotSignatureFeature {
+  metric: TechniqueMetric;
+  range: [number, number]; // valores típicos del golpe
+  tolerance: number; // distancia fuera del rango con la que el rasgo encaja a medias
+  weight?: number;
+}
+
+export interface ShotDefinition {
+  id: ShotType;
+  names: Record<ShotLanguage, string>;
+  gender: 'masculine' | 'feminine'; // género del nombre en español, para el artículo
+  descriptions: Record<ShotLanguage, string>;
+  icon: string;
+  difficulty: ImprovementDifficulty; // dificultad técnica del golpe
+  rules: TechniqueRule[]; // reglas de puntuación (jugador diestro)
+  signature?: ShotSignatureFeature[]; // sin firma el clasificador no propone el golpe
+  advice?: Partial<Record<ScoreDimension, DimensionAdviceLevels>>; // sustituye a la librería general
+}
+
+const SHOT_DEFINITIONS: Record<ShotType, Omit<ShotDefinition, 'id'>> = {
+  derecha: {
+    names: { es: 'Derecha', en: 'Forehand' },
+    gender: 'feminine',
+    descriptions: { es: 'Golpe de derecha', en: 'Forehand drive' },
+    icon: '🎾',
+    difficulty: 'easy',
+    rules: [
+      kneeFlexion([20, 50]),
+      trunkLean([0, 20]),
+      shoulderRotation([35, 90]),
+      swingDuration([250, 600]),
+      backswingRatio([1, 3]),
+      followThroughRatio([1, 3]),
+      contactHeight([-1.2, -0.2]),
+      followThroughDistance([1.5, 4]),
+      followThroughCross([0.3, 2]),
+      racketSpeed({ beginner: [35, 55], intermediate: [45, 70], advanced: [55, 85], expert: [65, 100] }),
+      elbowAngle([120, 175]),
+      splitStep([400, 1500]),
+      baseWidth([1.1, 2.2]),
+      weightTransfer([0.1, 0.8]),
+    ],
+    signature: [
+      { metric: 'backswingSide', range: [0.3, 2], tolerance: 0.3, weight: 2 },
+      { metric: 'contactHeight', range: [-1.1, -0.2], tolerance: 0.3, weight: 2 },
+      { metric: 'wristSpeed', range: [8, 20], tolerance: 4 },
+      { metric: 'swingDuration', range: [250, 600], tolerance: 150 },
+      { metric: 'followThroughDistance', range: [1.5, 4], tolerance: 0.8 },
+    ],
+  },
+  reves: {
+    names: { es: 'Revés', en: 'Backhand' },
+    gender: 'masculine',
+    descriptions: { es: 'Golpe de revés', en: 'Backhand drive' },
+    icon: '🏓',
+    difficulty: 'moderate',
+    rules: [
+      kneeFlexion([20, 50]),
+      trunkLean([0, 20]),
+      shoulderRotation([45, 100], 2),
+      swingDuration([250, 600]),
+      backswingRatio([1, 3]),
+      followThroughRatio([1, 3]),
+      contactHeight([-1.2, -0.2]),
+      followThroughDistance([1.2, 3.5]),
+      followThroughCross([0.2, 1.5]),
+      racketSpeed({ beginner: [30, 50], intermediate: [40, 65], advanced: [50, 80], expert: [60, 95] }),
+      elbowAngle([130, 180]),
+      splitStep([400, 1500]),
+      baseWidth([1.1, 2.2]),
+      weightTransfer([-0.8, -0.1], 'racketSide'),
+    ],
+    signature: [
+      { metric: 'backswingSide', range: [-2, -0.2], tolerance: 0.3, weight: 2 },
+      { metric: 'contactHeight', range: [-1.1, -0.2], tolerance: 0.3, weight: 2 },
+      { metric: 'wristSpeed', range: [7, 18], tolerance: 4 },
+      { metric: 'swingDuration', range: [250, 600], tolerance: 150 },
+      { metric: 'followThroughDistance', range: [1.2, 3.5], tolerance: 0.8 },
+    ],
+  },
+  volea: {
+    names: { es: 'Volea', en: 'Volley' },
+    gender: 'feminine',
+    descriptions: { es: 'Volea rápida', en: 'Quick volley' },
+    icon: '⚡',
+    difficulty: 'easy',
+    rules: [
+      kneeFlexion([25, 60], 2),
+      trunkLean([0, 20]),
+      swingDuration([100, 300]),
+      backswingRatio([0.4, 1.5]),
+      followThroughRatio([0.5, 2]),
+      contactHeight([-0.8, 0.3]),
+      followThroughDistance([0.3, 1.5]),
+      racketSpeed({ beginner: [15, 35], intermediate: [20, 45], advanced: [25, 55], expert: [30, 65] }),
+      elbowAngle([100, 160]),
+      splitStep([200, 900]),
+      baseWidth([1, 2]),
+      weightTransfer([0, 0.6]),
+    ],
+    signature: [
+      { metric: 'swingDuration', range: [100, 300], tolerance: 100, weight: 2 },
+      { metric: 'followThroughDistance', range: [0.3, 1.5], tolerance: 0.5, weight: 2 },
+      { metric: 'wristSpeed', range: [3, 10], tolerance: 3 },
+      { metric: 'contactHeight', range: [-0.8, 0.3], tolerance: 0.3 },
+      { metric: 'backswingRatio', range: [0.4, 1.5], tolerance: 0.5 },
+    ],
+  },
+  saque: {
+    names: { es: 'Saque', en: 'Serve' },
+    gender: 'masculine',
+    descriptions: { es: 'Saque inicial', en: 'Underhand serve' },
+    icon: '🚀',
+    difficulty: 'hard',
+    rules: [
+      kneeFlexion([15, 45]),
+      trunkLean([0, 20]),
+      shoulderRotation([25, 70]),
+      swingDuration([300, 700]),
+      backswingRatio([1.2, 3.5]),
+      followThroughRatio([1, 3]),
+      // El saque de pádel se golpea a la altura de la cintura o por debajo
+      contactHeight([-1.6, -0.8], 2),
+      followThroughDistance([1.2, 3.5]),
+      followThroughCross([0.2, 1.5]),
+      racketSpeed({ beginner: [25, 45], intermediate: [35, 55], advanced: [40, 65], expert: [45, 75] }),
+      elbowAngle([130, 180]),
+      // El saque empieza parado: no hay split-step
+      baseWidth([0.8, 1.8]),
+      weightTransfer([0.1, 0.8]),
+    ],
+    signature: [
+      // El saque se golpea por debajo de la cintura: es lo que lo separa de la derecha
+      { metric: 'contactHeight', range: [-1.6, -1.1], tolerance: 0.15, weight: 3 },
+      { metric: 'backswingSide', range: [0.2, 2], tolerance: 0.3 },
+      { metric: 'wristSpeed', range: [5, 14], tolerance: 3 },
+      { metric: 'followThroughDistance', range: [1.2, 3.5], tolerance: 0.8 },
+    ],
+  },
+  bandeja: {
+    names: { es: 'Bandeja', en: 'Bandeja' },
+    gender: 'feminine',
+    descriptions: { es: 'Golpe de bandeja', en: 'Defensive overhead slice' },
+    icon: '🥄',
+    difficulty: 'moderate',
+    rules: [
+      elbowHeight([0.1, 0.8]),
+      trunkLean([0, 25]),
+      shoulderRotation([30, 80]),
+      swingDuration([300, 700]),
+      backswingRatio([1, 3]),
+      followThroughRatio([0.8, 2.5]),
+      contactHeight([0.4, 1.4]),
+      followThroughDistance([1, 3]),
+      followThroughCross([0.2, 1.5]),
+      racketSpeed({ beginner: [30, 50], intermediate: [40, 60], advanced: [45, 70], expert: [50, 80] }),
+      elbowAngle([130, 175]),
+      splitStep([400, 1500]),
+      baseWidth([0.9, 2]),
+      weightTransfer([0.1, 0.8]),
+    ],
+    signature: [
+      { metric: 'contactHeight', range: [0.4, 1.4], tolerance: 0.3, weight: 2 },
+      { metric: 'wristSpeed', range: [6, 13], tolerance: 3, weight: 2 },
+      { metric: 'followThroughCross', range: [0.2, 1.2], tolerance: 0.4 },
+      { metric: 'elbowAngle', range: [130, 170], tolerance: 15 },
+    ],
+  },
+  vibora: {
+    names: { es: 'Víbora', en: 'Víbora' },
+    gender: 'feminine',
+    descriptions: { es: 'Golpe de víbora', en: 'Attacking overhead slice' },
+    icon: '🐍',
+    difficulty: 'hard',
+    rules: [
+      elbowHeight([0.2, 0.9]),
+      trunkLean([0, 25]),
+      shoulderRotation([40, 90]),
+      swingDuration([250, 600]),
+      backswingRatio([1, 3]),
+      followThroughRatio([1, 3]),
+      contactHeight([0.5, 1.4]),
+      followThroughDistance([1.5, 3.5]),
+      followThroughCross([0.5, 2]),
+      racketSpeed({ beginner: [40, 60], intermediate: [50, 75], advanced: [60, 90], expert: [70, 105] }),
+      elbowAngle([140, 180]),
+      splitStep([400, 1500]),
+      baseWidth([0.9, 2]),
+      weightTransfer([0.1, 0.9]),
+    ],
+    signature: [
+      { metric: 'contactHeight', range: [0.5, 1.3], tolerance: 0.3, weight: 2 },
+      { metric: 'wristSpeed', range: [12, 22], tolerance: 3, weight: 2 },
+      { metric: 'followThroughCross', range: [0.8, 2], tolerance: 0.4 },
+      { metric: 'elbowAngle', range: [140, 180], tolerance: 15 },
+    ],
+  },
+  remate: {
+    names: { es: 'Remate', en: 'Smash' },
+    gender: 'masculine',
+    descriptions: { es: 'Remate potente', en: 'Powerful smash' },
+    icon: '💥',
+    difficulty: 'hard',
+    rules: [
+      kneeFlexion([15, 45]),
+      trunkLean([5, 30]),
+      shoulderRotation([40, 90]),
+      swingDuration([250, 550]),
+      backswingRatio([1, 3]),
+      followThroughRatio([1.2, 3.5]),
+      contactHeight([0.9, 1.8], 2),
+      followThroughDistance([2, 4.5]),
+      followThroughCross([0.5, 2.5]),
+      racketSpeed({ beginner: [50, 75], intermediate: [60, 90], advanced: [75, 110], expert: [90, 130] }),
+      elbowAngle([150, 180]),
+      splitStep([400, 1500]),
+      baseWidth([0.8, 2]),
+      weightTransfer([0.1, 0.9]),
+    ],
+    signature: [
+      { metric: 'contactHeight', range: [1.1, 1.8], tolerance: 0.3, weight: 2 },
+      { metric: 'wristSpeed', range: [16, 28], tolerance: 4, weight: 2 },
+      { metric: 'elbowAngle', range: [155, 180], tolerance: 15 },
+      { metric: 'followThroughDistance', range: [2, 4.5], tolerance: 0.8 },
+    ],
+  },
+  globo: {
+    names: { es: 'Globo', en: 'Lob' },
+    gender: 'masculine',
+    descriptions: { es: 'Pelota alta por encima de los rivales', en: 'High ball over the opponents' },
+    icon: '🎈',
+    difficulty: 'moderate',
+    // Se golpea bajo y la raqueta termina arriba; sin firma: en la pose se confunde con la derecha
+    rules: [
+      kneeFlexion([25, 60], 2),
+      trunkLean([0, 20]),
+      swingDuration([250, 650]),
+      backswingRatio([0.8, 3]),
+      followThroughRatio([1, 3]),
+      contactHeight([-1.4, -0.4]),
+      followThroughDistance([1.5, 4]),
+      racketSpeed({ beginner: [25, 45], intermediate: [30, 55], advanced: [35, 60], expert: [40, 70] }),
+      elbowAngle([120, 175]),
+      splitStep([400, 1500]),
+      baseWidth([1, 2.1]),
+      weightTransfer([0, 0.6]),
+    ],
+    advice: {
+      power: {
+        low: {
+          description: 'El globo no necesita fuerza: abre la cara de la pala y acompaña la pelota hacia arriba',
+          difficulty: 'moderate',
+        },
+        medium: {
+          description: 'Dosifica la velocidad para que el globo bote cerca del fondo sin llegar a la pared',
+          difficulty: 'moderate',
+        },
+      },
+    },
+  },
+  chiquita: {
+    names: { es: 'Chiquita', en: 'Chiquita' },
+    gender: 'feminine',
+    descriptions: { es: 'Pelota lenta a los pies de los rivales', en: 'Soft ball to the opponents\' feet' },
+    icon: '🪶',
+    difficulty: 'hard',
+    rules: [
+      kneeFlexion([30, 65], 2),
+      trunkLean([0, 25]),
+      swingDuration([200, 500]),
+      backswingRatio([0.6, 2]),
+      followThroughRatio([0.8, 2.5]),
+      contactHeight([-1.3, -0.5]),
+      followThroughDistance([0.8, 2.5]),
+      racketSpeed({ beginner: [15, 30], intermediate: [20, 35], advanced: [20, 40], expert: [25, 45] }),
+      elbowAngle([110, 170]),
+      splitStep([400, 1500]),
+      baseWidth([1.1, 2.2]),
+      weightTransfer([0.1, 0.7]),
+    ],
+    advice: {
+      power: {
+        low: {
+          description: 'Frena la pala antes del impacto: la chiquita tiene que caer suave a los pies del rival',
+          difficulty: 'hard',
+        },
+        medium: {
+          description: 'Controla el ritmo del swing para que la pelota pase baja por encima de la red',
+          difficulty: 'moderate',
+        },
+      },
+    },
+  },
+  bajada: {
+    names: { es: 'Bajada de pared', en: 'Off-the-wall smash' },
+    gender: 'feminine',
+    descriptions: { es: 'Ataque tras el rebote en la pared de fondo', en: 'Attack after the back-wall rebound' },
+    icon: '🧱',
+    difficulty: 'hard',
+    rules: [
+      kneeFlexion([20, 50]),
+      trunkLean([0, 25]),
+      shoulderRotation([40, 90]),
+      swingDuration([250, 600]),
+      backswingRatio([1, 3]),
+      followThroughRatio([1, 3]),
+      contactHeight([-0.3, 0.8]),
+      followThroughDistance([1.5, 4]),
+      followThroughCross([0.3, 2]),
+      racketSpeed({ beginner: [40, 60], intermediate: [50, 75], advanced: [60, 90], expert: [70, 105] }),
+      elbowAngle([130, 180]),
+      splitStep([400, 1500]),
+      baseWidth([1, 2.1]),
+      weightTransfer([0.1, 0.9]),
+    ],
+    signature: [
+      // Se golpea entre el hombro y por encima de la cabeza, más bajo que la bandeja
+      { metric: 'contactHeight', range: [-0.3, 0.6], tolerance: 0.25, weight: 2 },
+      { metric: 'backswingSide', range: [0.3, 2], tolerance: 0.3 },
+      { metric: 'wristSpeed', range: [10, 22], tolerance: 4 },
+      { metric: 'followThroughDistance', range: [1.5, 4], tolerance: 0.8 },
+    ],
+  },
+  contrapared: {
+    names: { es: 'Contrapared', en: 'Back-wall boast' },
+    gender: 'feminine',
+    descriptions: { es: 'Golpe contra la pared de fondo propia', en: 'Shot against your own back wall' },
+    icon: '🔙',
+    difficulty: 'hard',
+    rules: [
+      kneeFlexion([25, 60]),
+      swingDuration([200, 500]),
+      backswingRatio([0.5, 2]),
+      contactHeight([-1.3, -0.3]),
+      followThroughDistance([1, 3]),
+      racketSpeed({ beginner: [30, 50], intermediate: [35, 60], advanced: [40, 70], expert: [45, 80] }),
+      elbowAngle([110, 170]),
+      splitStep([400, 1500]),
+      baseWidth([1, 2.2]),
+      // Se golpea de espaldas a la red: el peso no va hacia delante, no se evalúa la transferencia
+    ],
+  },
+};
+
+/**
+ * Golpes en el orden en que se muestran
+ */
+export const SHOTS: ShotDefinition[] = SHOT_TYPES.map(id => ({ id, ...SHOT_DEFINITIONS[id] }));
+
+// Golpe cuyas reglas se usan para tipos desconocidos
+export const DEFAULT_SHOT_TYPE: ShotType = 'derecha';
+
+export const isShotType = (value: string): value is ShotType =>
+  (SHOT_TYPES as readonly string[]).includes(value);
+
+export const getShot = (shotType: string): ShotDefinition | undefined =>
+  SHOTS.find(shot => shot.id === shotType);
+
+/**
+ * Nombre del golpe en el idioma de la app; el id si el golpe no está registrado
+ */
+export const getShotName = (shotType: string, language: ShotLanguage = appConfig.ui.language): string =>
+  isShotType(shotType) ? SHOT_DEFINITIONS[shotType].names[language] : shotType;
+
+/**
+ * Nombre del golpe con artículo indeterminado: "una Derecha", "un Revés"
+ */
+export const getShotNameWithArticle = (
+  shotType: string,
+  language: ShotLanguage = appConfig.ui.language
+): string => {
+  const name = getShotName(shotType, language);
+  if (language === 'en') {
+    return `${/^[aeiou]/i.test(name) ? 'an' : 'a'} ${name}`;
+  }
+
+  const gender = isShotType(shotType) ? SHOT_DEFINITIONS[shotType].gender : 'masculine';
+  return `${gender === 'feminine' ? 'una' : 'un'} ${name}`;
+};
+
+/**
+ * Reglas de puntuación del golpe; los tipos desconocidos usan las del golpe por defecto
+ */
+export const getShotRules = (shotType: string): TechniqueRule[] =>
+  SHOT_DEFINITIONS[isShotType(shotType) ? shotType : DEFAULT_SHOT_TYPE].rules;
@@ -0,0 +1,366 @@
+// PadelTech Technique Rules
+// Reglas de evaluación técnica (jugador diestro); cada golpe elige las suyas en el registro de golpes
+
+import type { ImprovementDifficulty } from '../services/analysisService';
+import type { Handedness } from '../services/poseService';
+
+export type ScoreDimension = 'posture' | 'timing' | 'followThrough' | 'power' | 'footwork';
+
+export type PlayerLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export type TechniqueMetric =
+  | 'elbowHeight' // codo del brazo de la raqueta sobre el hombro en el impacto (longitudes de tronco)
+  | 'contactHeight' // muñeca sobre el hombro en el impacto (longitudes de tronco)
+  | 'elbowAngle' // extensión del codo en el impacto (grados)
+  | 'shoulderRotation' // rotación de hombros hasta el impacto (grados)
+  | 'kneeFlexion' // flexión máxima de rodillas antes del impacto (grados)
+  | 'trunkLean' // inclinación del tronco respecto a la vertical en el impacto (grados)
+  | 'swingDuration' // duración de la fase de impacto: del final del armado al contacto (ms)
+  | 'backswingRatio' // duración del armado / duración del swing
+  | 'followThroughRatio' // duración de la terminación / duración del swing
+  | 'followThroughDistance' // recorrido de la muñeca tras el impacto (longitudes de tronco)
+  | 'followThroughCross' // cruce de la muñeca hacia el lado contrario (anchos de hombros)
+  | 'backswingSide' // muñeca al final del armado respecto al centro de la cadera: + lado de la raqueta, − lado contrario (longitudes de tronco)
+  | 'wristSpeed' // velocidad máxima de la muñeca (longitudes de tronco por segundo)
+  | 'racketSpeed' // velocidad estimada de la cabeza de la pala en el impacto (km/h)
+  | 'splitStepTiming' // del aterrizaje del split-step al impacto (ms); 0 = sin split-step
+  | 'baseWidth' // separación de los tobillos en el impacto (longitudes de tronco)
+  | 'weightTransfer'; // desplazamiento de la cadera entre los pies del armado al impacto: + hacia el pie contrario a la raqueta (fracción de la base)
+
+export interface TechniqueRule {
+  id: string;
+  metric: TechniqueMetric;
+  dimension: ScoreDimension;
+  ideal: [number, number];
+  levelIdeals?: Record<PlayerLevel, [number, number]>; // rango ideal según el nivel del jugador
+  tolerance: number; // distancia fuera del rango ideal con la que la regla puntúa 50
+  weight?: number;
+  difficulty: ImprovementDifficulty; // dificultad de corregir el defecto
+  feedback: {
+    low: string; // {racketSide} / {otherSide} se sustituyen según la mano del jugador
+    high: string;
+  };
+}
+
+/**
+ * Palabras que sustituyen a {racketSide} y {otherSide} en el feedback
+ */
+export const SIDE_WORDS: Record<Handedness, { racketSide: string; otherSide: string }> = {
+  right: { racketSide: 'derecho', otherSide: 'izquierdo' },
+  left: { racketSide: 'izquierdo', otherSide: 'derecho' },
+};
+
+/**
+ * Lo que se ve en la pose cuando una métrica queda por debajo o por encima de su rango ideal.
+ * Describe el momento en que se midió; el consejo para corregirlo está en el feedback de la regla.
+ */
+export interface MetricObservation {
+  low: string; // {racketSide} / {otherSide} se sustituyen según la mano del jugador
+  high: string;
+  unit?: string; // sin unidad, el valor (relativo al tronco o al swing) no se muestra
+}
+
+export const METRIC_OBSERVATIONS: Record<TechniqueMetric, MetricObservation> = {
+  elbowHeight: {
+    low: 'Codo {racketSide} bajo respecto al hombro en el impacto',
+    high: 'Codo {racketSide} muy por encima del hombro en el impacto',
+  },
+  contactHeight: {
+    low: 'Impacto bajo respecto al hombro',
+    high: 'Impacto demasiado alto, sin dejar bajar la pelota',
+  },
+  elbowAngle: {
+    low: 'Brazo flexionado en el impacto',
+    high: 'Brazo bloqueado en extensión en el impacto',
+    unit: '°',
+  },
+  shoulderRotation: {
+    low: 'Poco giro de hombros en la preparación',
+    high: 'Giro de hombros excesivo en la preparación',
+    unit: '°',
+  },
+  kneeFlexion: {
+    low: 'Rodillas poco flexionadas',
+    high: 'Rodillas demasiado flexionadas',
+    unit: '°',
+  },
+  trunkLean: {
+    low: 'Tronco demasiado vertical en el impacto',
+    high: 'Tronco demasiado inclinado en el impacto',
+    unit: '°',
+  },
+  swingDuration: {
+    low: 'Swing precipitado hasta el impacto',
+    high: 'Swing lento, llega tarde al impacto',
+    unit: 'ms',
+  },
+  backswingRatio: {
+    low: 'Armado corto para la duración del swing',
+    high: 'Armado demasiado largo para la duración del swing',
+  },
+  followThroughRatio: {
+    low: 'Terminación frenada tras el impacto',
+    high: 'Terminación larga, tarda en recuperar la posición',
+  },
+  followThroughDistance: {
+    low: 'Recorrido corto de la raqueta tras el impacto',
+    high: 'Recorrido muy largo de la raqueta tras el impacto',
+  },
+  followThroughCross: {
+    low: 'La raqueta no cruza hacia el hombro {otherSide} al terminar',
+    high: 'La raqueta cruza demasiado al terminar',
+  },
+  backswingSide: {
+    low: 'Armado hacia el lado {otherSide}',
+    high: 'Armado hacia el lado {racketSide}',
+  },
+  wristSpeed: {
+    low: 'Muñeca lenta en el impacto',
+    high: 'Muñeca demasiado rápida en el impacto',
+  },
+  racketSpeed: {
+    low: 'Pala lenta en el impacto',
+    high: 'Pala demasiado rápida para controlar el golpe',
+    unit: 'km/h',
+  },
+  splitStepTiming: {
+    low: 'Split-step tardío o sin split-step antes del golpe',
+    high: 'Split-step demasiado pronto antes del golpe',
+    unit: 'ms',
+  },
+  baseWidth: {
+    low: 'Pies demasiado juntos en el impacto',
+    high: 'Base demasiado abierta en el impacto',
+  },
+  weightTransfer: {
+    low: 'Peso cargado hacia el pie {racketSide} en el impacto',
+    high: 'Peso cargado hacia el pie {otherSide} en el impacto',
+  },
+};
+
+export const DIMENSION_WEIGHTS: Record<ScoreDimension, number> = {
+  posture: 0.25,
+  timing: 0.2,
+  followThrough: 0.15,
+  power: 0.2,
+  footwork: 0.2,
+};
+
+export const kneeFlexion = (ideal: [number, number], weight: number = 1): TechniqueRule => ({
+  id: 'knee_flexion',
+  metric: 'kneeFlexion',
+  dimension: 'posture',
+  ideal,
+  tolerance: 15,
+  weight,
+  difficulty: 'easy',
+  feedback: {
+    low: 'Flexiona más las rodillas para bajar el centro de gravedad',
+    high: 'Estás demasiado agachado, mantén una flexión de rodillas más cómoda',
+  },
+});
+
+export const trunkLean = (ideal: [number, number]): TechniqueRule => ({
+  id: 'trunk_lean',
+  metric: 'trunkLean',
+  dimension: 'posture',
+  ideal,
+  tolerance: 12,
+  difficulty: 'easy',
+  feedback: {
+    low: 'Inclina ligeramente el tronco hacia el golpe',
+    high: 'Mantén el tronco más erguido durante el golpe',
+  },
+});
+
+export const shoulderRotation = (ideal: [number, number], weight: number = 1): TechniqueRule => ({
+  id: 'shoulder_rotation',
+  metric: 'shoulderRotation',
+  dimension: 'posture',
+  ideal,
+  tolerance: 20,
+  weight,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Gira más los hombros en la preparación',
+    high: 'Controla el giro de hombros, estás sobrerrotando',
+  },
+});
+
+export const swingDuration = (ideal: [number, number]): TechniqueRule => ({
+  id: 'swing_duration',
+  metric: 'swingDuration',
+  dimension: 'timing',
+  ideal,
+  tolerance: 150,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Prepara antes el golpe, el swing es demasiado precipitado',
+    high: 'Acelera el swing, llegas tarde al impacto',
+  },
+});
+
+export const backswingRatio = (ideal: [number, number]): TechniqueRule => ({
+  id: 'backswing_ratio',
+  metric: 'backswingRatio',
+  dimension: 'timing',
+  ideal,
+  tolerance: 0.6,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Arma antes la raqueta, la preparación es demasiado corta para el swing',
+    high: 'Acorta el armado, tardas demasiado en preparar el golpe',
+  },
+});
+
+export const followThroughRatio = (ideal: [number, number]): TechniqueRule => ({
+  id: 'follow_through_ratio',
+  metric: 'followThroughRatio',
+  dimension: 'timing',
+  ideal,
+  tolerance: 0.6,
+  difficulty: 'easy',
+  feedback: {
+    low: 'No frenes tras el impacto, deja que la raqueta termine el movimiento',
+    high: 'Recupera antes la posición después del golpe',
+  },
+});
+
+export const contactHeight = (ideal: [number, number], weight: number = 1): TechniqueRule => ({
+  id: 'contact_height',
+  metric: 'contactHeight',
+  dimension: 'posture',
+  ideal,
+  tolerance: 0.4,
+  weight,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Impacta la pelota más alta',
+    high: 'Deja bajar un poco más la pelota antes de impactar',
+  },
+});
+
+export const followThroughDistance = (ideal: [number, number]): TechniqueRule => ({
+  id: 'follow_through_distance',
+  metric: 'followThroughDistance',
+  dimension: 'followThrough',
+  ideal,
+  tolerance: 0.8,
+  difficulty: 'easy',
+  feedback: {
+    low: 'Completa el seguimiento del golpe, no frenes la raqueta tras el impacto',
+    high: 'Acorta el seguimiento para recuperar antes la posición',
+  },
+});
+
+export const followThroughCross = (ideal: [number, number]): TechniqueRule => ({
+  id: 'follow_through_cross',
+  metric: 'followThroughCross',
+  dimension: 'followThrough',
+  ideal,
+  tolerance: 0.5,
+  difficulty: 'easy',
+  feedback: {
+    low: 'Termina el golpe cruzando la raqueta hacia tu hombro {otherSide}',
+    high: 'No cruces tanto la raqueta al terminar, dirige el seguimiento hacia el objetivo',
+  },
+});
+
+// Nivel que se asume si el jugador no lo indica
+export const DEFAULT_PLAYER_LEVEL: PlayerLevel = 'intermediate';
+
+/**
+ * Velocidad de la cabeza de la pala en el impacto, con un rango (km/h) por nivel
+ */
+export const racketSpeed = (levelIdeals: Record<PlayerLevel, [number, number]>): TechniqueRule => ({
+  id: 'racket_speed',
+  metric: 'racketSpeed',
+  dimension: 'power',
+  ideal: levelIdeals[DEFAULT_PLAYER_LEVEL],
+  levelIdeals,
+  tolerance: 15,
+  weight: 2,
+  difficulty: 'hard',
+  feedback: {
+    low: 'Acelera más la raqueta hacia el impacto',
+    high: 'Reduce la velocidad del swing para ganar control',
+  },
+});
+
+export const elbowAngle = (ideal: [number, number]): TechniqueRule => ({
+  id: 'elbow_extension',
+  metric: 'elbowAngle',
+  dimension: 'power',
+  ideal,
+  tolerance: 20,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Extiende más el brazo en el impacto',
+    high: 'Mantén el codo ligeramente flexionado en el impacto',
+  },
+});
+
+export const elbowHeight = (ideal: [number, number]): TechniqueRule => ({
+  id: 'elbow_height',
+  metric: 'elbowHeight',
+  dimension: 'posture',
+  ideal,
+  tolerance: 0.3,
+  weight: 2,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Eleva el codo {racketSide} por encima del hombro en el impacto',
+    high: 'No levantes tanto el codo, mantenlo a la altura del hombro o algo por encima',
+  },
+});
+
+export const splitStep = (ideal: [number, number]): TechniqueRule => ({
+  id: 'split_step',
+  metric: 'splitStepTiming',
+  dimension: 'footwork',
+  ideal,
+  tolerance: 300,
+  difficulty: 'moderate',
+  feedback: {
+    low: 'Haz un split-step (un pequeño salto) justo cuando el rival golpea la pelota',
+    high: 'Tu split-step llega demasiado pronto, sincronízalo con el golpe del rival',
+  },
+});
+
+export const baseWidth = (ideal: [number, number]): TechniqueRule => ({
+  id: 'base_width',
+  metric: 'baseWidth',
+  dimension: 'footwork',
+  ideal,
+  tolerance: 0.4,
+  difficulty: 'easy',
+  feedback: {
+    low: 'Abre más los pies al golpear para tener una base estable',
+    high: 'Junta un poco los pies, con una base tan abierta te cuesta recuperar',
+  },
+});
+
+/**
+ * La derecha y los golpes por encima de la cabeza cargan el peso hacia el pie contrario a la raqueta;
+ * el revés, hacia el pie del lado de la raqueta
+ */
+export const weightTransfer = (
+  ideal: [number, number],
+  frontFoot: 'otherSide' | 'racketSide' = 'otherSide'
+): TechniqueRule => {
+  const forward = `Lleva el peso hacia el pie {${frontFoot}} al impactar`;
+  const excessive = 'No cargues tanto el peso al golpear, mantén el equilibrio para recuperar';
+
+  return {
+    id: 'weight_transfer',
+    metric: 'weightTransfer',
+    dimension: 'footwork',
+    ideal,
+    tolerance: 0.3,
+    weight: 2,
+    difficulty: 'moderate',
+    feedback: frontFoot === 'otherSide'
+      ? { low: forward, high: excessive }
+      : { low: excessive, high: forward },
+  };
+};
@@ -1,9 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  ActivityIndicator,
+  TouchableOpacity,
   Dimensions,
   Animated,
 } from 'react-native';
@@ -12,66 +12,39 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../../App';
+import { analysisEngineRegistry, ANALYSIS_STAGE_LABELS } from '../services/analysisEngine';
+import { analysisQueueService } from '../services/analysisQueueService';
+import { AIAnalysisErrorCode } from '../services/aiService';
+import { getShotName } from '../config/shotRegistry';
 
 type AnalysisScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Analysis'>;
 type AnalysisScreenRouteProp = RouteProp<RootStackParamList, 'Analysis'>;
 
 const { width, height } = Dimensions.get('window');
 
-const analysisSteps = [
-  'Inicializando modelo de IA...',
-  'Extrayendo frames del video...',
-  'Analizando postura corporal...',
-  'Evaluando mecánica del golpe...',
-  'Calculando métricas de rendimiento...',
-  'Generando recomendaciones personalizadas...',
-  'Finalizando análisis...',
-];
-
 export default function AnalysisScreen() {
   const navigation = useNavigation<AnalysisScreenNavigationProp>();
   const route = useRoute<AnalysisScreenRouteProp>();
-  const { videoUri, shotType } = route.params;
+  const { videoUri, shotType, videoId } = route.params;
 
+  const [engine, setEngine] = useState(() => analysisEngineRegistry.getActive());
+  const [jobId, setJobId] = useState<string | null>(route.params.jobId || null);
+  const [attempt, setAttempt] = useState(0);
   const [currentStep, setCurrentStep] = useState(0);
   const [progress, setProgress] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<AIAnalysisErrorCode | null>(null);
 
-  const pulseAnim = new Animated.Value(1);
-  const rotateAnim = new Animated.Value(0);
+  const startTime = useRef(Date.now());
+  const pulseAnim = useRef(new Animated.Value(1)).current;
+  const rotateAnim = useRef(new Animated.Value(0)).current;
 
-  useEffect(() => {
-    // TODO: Reemplazar simulación con llamada real al modelo de deep learning
-    // TODO: Implementar las siguientes funciones:
-    // TODO: 1. processVideoWithML(videoUri, shotType) - función principal para análisis
-    // TODO: 2. initializeMLModel() - cargar el modelo de TensorFlow.js o similar
-    // TODO: 3. extractFrames(videoUri) - extraer frames del video para análisis
-    // TODO: 4. analyzePosture(frames) - analizar postura en cada frame
-    // TODO: 5. evaluateTechnique(postureData) - evaluar técnica basada en postura
-    // TODO: 6. generateRecommendations(techniqueData) - generar recomendaciones
-    // TODO: La función debería retornar: { overallScore, posture, timing, followThrough, power, improvements }
-    
-    // CURRENT: Simulate ML model processing - REMOVE when ML model is ready
-    const stepInterval = setInterval(() => {
-      setCurrentStep((prev) => {
-        if (prev < analysisSteps.length - 1) {
-          return prev + 1;
-        } else {
-          setIsComplete(true);
-          return prev;
-        }
-      });
-    }, 1500);
+  const analysisSteps = engine.stages.map(stage => ANALYSIS_STAGE_LABELS[stage]);
 
-    // CURRENT: Simulate progress - REPLACE with real ML progress updates
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev < 100) {
-          return prev + 2;
-        }
-        return prev;
-      });
-    }, 100);
+  useEffect(() => {
+    let cancelled = false;
+    let navigationTimeout: NodeJS.Timeout | null = null;
 
     // Animation loops
     const pulseLoop = Animated.loop(
@@ -100,51 +73,84 @@ export default function AnalysisScreen() {
     pulseLoop.start();
     rotateLoop.start();
 
+    let unsubscribe: (() => void) | null = null;
+
+    // The analysis runs in the analysis queue, so leaving this screen does not stop it
+    const followJob = async () => {
+      try {
+        const currentJobId = jobId || (await analysisQueueService.enqueue({ videoUri, shotType, videoId })).id;
+        if (cancelled) return;
+        if (!jobId) {
+          setJobId(currentJobId);
+          return; // the effect runs again with the job id
+        }
+
+        startTime.current = Date.now();
+        unsubscribe = analysisQueueService.subscribeToJob(currentJobId, job => {
+          if (cancelled) return;
+
+          const jobEngine = analysisEngineRegistry.get(job.engineId);
+          if (jobEngine) setEngine(jobEngine);
+
+          if (job.status === 'failed') {
+            setError(job.error || 'No se pudo completar el análisis');
+            setErrorCode(job.errorCode || null);
+            pulseLoop.stop();
+            rotateLoop.stop();
+            return;
+          }
+
+          setError(null);
+          setErrorCode(null);
+          setCurrentStep(job.stageIndex);
+          setProgress(job.progress);
+
+          if (job.status === 'completed' && job.result && !navigationTimeout) {
+            setIsComplete(true);
+            pulseLoop.stop();
+            rotateLoop.stop();
+            navigationTimeout = setTimeout(() => {
+              navigation.replace('Results', { analysisResult: job.result, videoUri, videoId });
+            }, 1000);
+          }
+        });
+      } catch (queueError) {
+        console.error('Could not queue analysis:', queueError);
+        if (!cancelled) {
+          setError('No se pudo iniciar el análisis');
+        }
+      }
+    };
+
+    followJob();
+
     return () => {
-      clearInterval(stepInterval);
-      clearInterval(progressInterval);
+      cancelled = true;
+      unsubscribe?.();
+      if (navigationTimeout) {
+        clearTimeout(navigationTimeout);
+      }
       pulseLoop.stop();
       rotateLoop.stop();
     };
-  }, []);
-
-  useEffect(() => {
-    if (isComplete) {
-      // TODO: REPLACE this mock result with real ML analysis results
-      // TODO: The processVideoWithML function should return this exact structure:
-      // TODO: { overallScore, posture, timing, followThrough, power, improvements, shotType }
-      const mockResult = {
-        overallScore: Math.floor(Math.random() * 30) + 70, // 70-100
-        posture: Math.floor(Math.random() * 30) + 70,
-        timing: Math.floor(Math.random() * 30) + 70,
-        followThrough: Math.floor(Math.random() * 30) + 70,
-        power: Math.floor(Math.random() * 30) + 70,
-        improvements: [
-          'Mantén la raqueta más alta en la preparación',
-          'Mejora la transferencia de peso',
-          'Ajusta el timing del impacto',
-          'Practica el seguimiento del golpe',
-        ],
-        shotType: shotType,
-      };
+  }, [jobId, attempt, navigation, videoUri, shotType, videoId]);
 
-      setTimeout(() => {
-        navigation.replace('Results', { analysisResult: mockResult });
-      }, 1000);
+  const handleRetry = async () => {
+    if (!jobId) return;
+    try {
+      setError(null);
+      await analysisQueueService.retry(jobId);
+      setAttempt(value => value + 1); // restart the animations and the time estimate
+    } catch (retryError) {
+      console.error('Error retrying analysis:', retryError);
+      setError('No se pudo reintentar el análisis');
     }
-  }, [isComplete, navigation, shotType]);
+  };
 
-  const getShotTypeName = (type: string) => {
-    const shotNames: { [key: string]: string } = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate',
-    };
-    return shotNames[type] || type;
+  const getRemainingSeconds = () => {
+    if (progress <= 0) return null;
+    const elapsed = (Date.now() - startTime.current) / 1000;
+    return Math.max(1, Math.ceil((elapsed / progress) * (100 - progress)));
   };
 
   const spin = rotateAnim.interpolate({
@@ -159,7 +165,7 @@ export default function AnalysisScreen() {
     >
       <View style={styles.header}>
         <Text style={styles.title}>Analizando Técnica</Text>
-        <Text style={styles.subtitle}>{getShotTypeName(shotType)}</Text>
+        <Text style={styles.subtitle}>{getShotName(shotType)}</Text>
       </View>
 
       <View style={styles.content}>
@@ -229,15 +235,52 @@ export default function AnalysisScreen() {
       </View>
 
       <View style={styles.footer}>
-        <Text style={styles.footerText}>
-          {isComplete
-            ? '¡Análisis completado! Preparando tus resultados...'
-            : 'Nuestro modelo de IA está analizando cada detalle de tu técnica'}
-        </Text>
-        {!isComplete && (
-          <Text style={styles.footerSubtext}>
-            Tiempo estimado: {Math.max(1, Math.ceil((100 - progress) / 10))} segundos
-          </Text>
+        {error ? (
+          <>
+            <Text style={styles.footerText}>{error}</Text>
+            {errorCode === 'AUTH_REQUIRED' && (
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.navigate('Login')}>
+                <Text style={styles.backButtonText}>Iniciar sesión</Text>
+              </TouchableOpacity>
+            )}
+            {errorCode === 'POSE_TRACK_MISSING' && (
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.navigate('VideoHistory')}>
+                <Text style={styles.backButtonText}>Importar pose</Text>
+              </TouchableOpacity>
+            )}
+            {jobId && errorCode !== 'AUTH_REQUIRED' && errorCode !== 'POSE_TRACK_MISSING' && (
+              <TouchableOpacity style={styles.backButton} onPress={handleRetry}>
+                <Text style={styles.backButtonText}>Reintentar</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Text style={styles.backButtonText}>Volver</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.footerText}>
+              {isComplete
+                ? '¡Análisis completado! Preparando tus resultados...'
+                : 'Nuestro modelo de IA está analizando cada detalle de tu técnica'}
+            </Text>
+            {!isComplete && getRemainingSeconds() !== null && (
+              <Text style={styles.footerSubtext}>
+                Tiempo estimado: {getRemainingSeconds()} segundos
+              </Text>
+            )}
+            {!isComplete && (
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => navigation.goBack()}
+              >
+                <Text style={styles.backButtonText}>Continuar en segundo plano</Text>
+              </TouchableOpacity>
+            )}
+          </>
         )}
       </View>
     </LinearGradient>
@@ -380,4 +423,15 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: 'italic',
   },
+  backButton: {
+    marginTop: 16,
+    backgroundColor: 'white',
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  backButtonText: {
+    color: '#667eea',
+    fontWeight: 'bold',
+  },
 });
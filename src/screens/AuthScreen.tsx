@@ -13,6 +13,7 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { authService } from '../services/authService';
+import { SHOTS, getShotName } from '../config/shotRegistry';
 
 interface AuthScreenProps {
   onAuthSuccess: (user: any) => void;
@@ -119,15 +120,7 @@ export default function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
     { value: 'expert', label: 'Experto' }
   ];
 
-  const shotTypes = [
-    { value: 'derecha', label: 'Derecha' },
-    { value: 'reves', label: 'Revés' },
-    { value: 'volea', label: 'Volea' },
-    { value: 'saque', label: 'Saque' },
-    { value: 'bandeja', label: 'Bandeja' },
-    { value: 'vibora', label: 'Víbora' },
-    { value: 'remate', label: 'Remate' }
-  ];
+  const shotTypes = SHOTS.map(shot => ({ value: shot.id, label: getShotName(shot.id) }));
 
   return (
     <LinearGradient
@@ -18,6 +18,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../../App';
 import { CameraValidationUtils } from '../utils/cameraValidation';
 import { VideoStorageService } from '../services/videoStorageService';
+import { analysisEngineRegistry } from '../services/analysisEngine';
+import { POSE_TRACK_REQUIRED_MESSAGE } from '../services/aiService';
+import { appConfig } from '../config/appConfig';
+import { CAMERA_ANGLES, CameraAngle } from '../config/cameraAngles';
+import { getShotName } from '../config/shotRegistry';
 
 type CameraScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Camera'>;
 type CameraScreenRouteProp = RouteProp<RootStackParamList, 'Camera'>;
@@ -57,11 +62,14 @@ export default function CameraScreen() {
   const [cameraType] = useState(CameraType.back);
 
   // Recording states
+  const [isDrill, setIsDrill] = useState(false);
+  // null = detect the angle from the pose when analysing
+  const [cameraAngle, setCameraAngle] = useState<CameraAngle | null>(null);
   const [recordingState, setRecordingState] = useState<RecordingState>({
     isRecording: false,
     isPaused: false,
     recordingTime: 0,
-    maxDuration: 10,
+    maxDuration: appConfig.camera.maxRecordingDuration,
   });
 
   // Video states
@@ -69,6 +77,7 @@ export default function CameraScreen() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [savedVideoId, setSavedVideoId] = useState<string | null>(null);
+  const [canAnalyze, setCanAnalyze] = useState(true);
 
   // Error states
   const [error, setError] = useState<string | null>(null);
@@ -87,6 +96,19 @@ export default function CameraScreen() {
     };
   }, []);
 
+  // Recorded clips are scored from a pose track, which for now has to be imported
+  useEffect(() => {
+    if (!recordedVideo) return;
+
+    let cancelled = false;
+    checkCanAnalyze(recordedVideo.uri).then(available => {
+      if (!cancelled) setCanAnalyze(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordedVideo, savedVideoId, isDrill]);
+
   useEffect(() => {
     if (recordingState.isRecording && !recordingState.isPaused) {
       startRecordingTimer();
@@ -216,6 +238,8 @@ export default function CameraScreen() {
         timestamp: Date.now(),
         duration: videoInfo.duration,
         size: videoInfo.size,
+        isDrill,
+        cameraAngle: cameraAngle || undefined,
       });
       
       console.log('Video saved to internal storage:', storedVideo.id);
@@ -389,6 +413,9 @@ export default function CameraScreen() {
     }
   };
 
+  const getMaxDuration = (drill: boolean): number =>
+    drill ? appConfig.camera.maxDrillRecordingDuration : appConfig.camera.maxRecordingDuration;
+
   const retakeVideo = (): void => {
     try {
       console.log('Retaking video...');
@@ -405,7 +432,7 @@ export default function CameraScreen() {
         isRecording: false,
         isPaused: false,
         recordingTime: 0,
-        maxDuration: 10,
+        maxDuration: getMaxDuration(isDrill),
       });
       
     } catch (retakeError) {
@@ -414,17 +441,73 @@ export default function CameraScreen() {
     }
   };
 
+  const toggleDrillMode = (): void => {
+    if (recordingState.isRecording || recordedVideo) return;
+
+    const drill = !isDrill;
+    setIsDrill(drill);
+    setRecordingState(prev => ({ ...prev, maxDuration: getMaxDuration(drill) }));
+  };
+
+  const renderAngleSelector = () => (
+    <View style={styles.angleSelector}>
+      <TouchableOpacity
+        style={[styles.angleOption, cameraAngle === null && styles.angleOptionActive]}
+        onPress={() => setCameraAngle(null)}
+      >
+        <Ionicons name="scan" size={14} color="white" />
+        <Text style={styles.angleOptionText}>Auto</Text>
+      </TouchableOpacity>
+      {(Object.keys(CAMERA_ANGLES) as CameraAngle[]).map(angle => (
+        <TouchableOpacity
+          key={angle}
+          style={[styles.angleOption, cameraAngle === angle && styles.angleOptionActive]}
+          onPress={() => setCameraAngle(angle)}
+        >
+          <Ionicons name={CAMERA_ANGLES[angle].icon} size={14} color="white" />
+          <Text style={styles.angleOptionText}>{CAMERA_ANGLES[angle].name}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const checkCanAnalyze = async (videoUri: string): Promise<boolean> => {
+    try {
+      // Drill strokes are always scored from the stored pose track
+      if (isDrill) {
+        const video = savedVideoId ? await VideoStorageService.getVideo(savedVideoId) : null;
+        return !!video?.hasPoseTrack;
+      }
+
+      return await analysisEngineRegistry.getActive().isAvailable({
+        videoUri,
+        shotType,
+        videoId: savedVideoId || undefined,
+      });
+    } catch (checkError) {
+      console.error('Error checking analysis availability:', checkError);
+      return false;
+    }
+  };
+
   const proceedToAnalysis = (): void => {
     if (!recordedVideo) {
       setError('No hay video para analizar');
       return;
     }
 
+    // Drills are split into strokes and analysed one by one
+    if (isDrill && savedVideoId) {
+      navigation.navigate('DrillOverview', { videoId: savedVideoId });
+      return;
+    }
+
     try {
       console.log('Proceeding to analysis with video:', recordedVideo.uri);
       navigation.navigate('Analysis', { 
         videoUri: recordedVideo.uri, 
-        shotType 
+        shotType,
+        videoId: savedVideoId || undefined,
       });
     } catch (navigationError) {
       console.error('Error navigating to analysis:', navigationError);
@@ -432,19 +515,6 @@ export default function CameraScreen() {
     }
   };
 
-  const getShotTypeName = (type: string): string => {
-    const shotNames: { [key: string]: string } = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate',
-    };
-    return shotNames[type] || type;
-  };
-
   // Loading screen
   if (permissionsLoading) {
     return (
@@ -496,7 +566,7 @@ export default function CameraScreen() {
           >
             <Ionicons name="arrow-back" size={24} color="white" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>{getShotTypeName(shotType)}</Text>
+          <Text style={styles.headerTitle}>{getShotName(shotType)}</Text>
           <View style={styles.headerSpacer} />
         </LinearGradient>
 
@@ -541,9 +611,11 @@ export default function CameraScreen() {
             {recordedVideo && (
               <TouchableOpacity
                 style={styles.continueButton}
-                onPress={proceedToAnalysis}
+                onPress={canAnalyze ? proceedToAnalysis : () => navigation.navigate('VideoHistory')}
               >
-                <Text style={styles.continueButtonText}>Continuar al Análisis</Text>
+                <Text style={styles.continueButtonText}>
+                  {canAnalyze ? 'Continuar al Análisis' : 'Importar pose'}
+                </Text>
               </TouchableOpacity>
             )}
           </View>
@@ -565,8 +637,19 @@ export default function CameraScreen() {
         >
           <Ionicons name="arrow-back" size={24} color="white" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>{getShotTypeName(shotType)}</Text>
-        <View style={styles.headerSpacer} />
+        <Text style={styles.headerTitle}>
+          {getShotName(shotType)}{isDrill ? ' · Ejercicio' : ''}
+        </Text>
+        {!recordedVideo && !recordingState.isRecording ? (
+          <TouchableOpacity
+            style={[styles.headerButton, isDrill && styles.headerButtonActive]}
+            onPress={toggleDrillMode}
+          >
+            <Ionicons name="list" size={22} color="white" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </LinearGradient>
 
       {error && (
@@ -587,6 +670,7 @@ export default function CameraScreen() {
             onCameraReady={() => setCameraReady(true)}
           >
             <View style={styles.cameraOverlay}>
+              {!recordingState.isRecording && renderAngleSelector()}
               {recordingState.isRecording && (
                 <View style={styles.recordingIndicator}>
                   <View style={styles.recordingDot} />
@@ -626,6 +710,8 @@ export default function CameraScreen() {
                 ? 'Procesando...'
                 : recordingState.isRecording
                 ? 'Toca para detener la grabación'
+                : isDrill
+                ? 'Graba el ejercicio completo: cada golpe se analizará por separado'
                 : 'Toca para comenzar a grabar'}
             </Text>
           </View>
@@ -654,6 +740,9 @@ export default function CameraScreen() {
               {savedVideoId && (
                 <Text style={styles.savedText}>✓ Guardado (ID: {savedVideoId.slice(-6)})</Text>
               )}
+              {!canAnalyze && !isSaving && (
+                <Text style={styles.poseHintText}>{POSE_TRACK_REQUIRED_MESSAGE}</Text>
+              )}
             </View>
             
             <View style={styles.buttonRow}>
@@ -665,13 +754,23 @@ export default function CameraScreen() {
                 <Text style={styles.retakeButtonText}>Regrabar</Text>
               </TouchableOpacity>
               
-              <TouchableOpacity
-                style={styles.continueButton}
-                onPress={proceedToAnalysis}
-              >
-                <Ionicons name="arrow-forward" size={20} color="white" />
-                <Text style={styles.continueButtonText}>Analizar</Text>
-              </TouchableOpacity>
+              {canAnalyze ? (
+                <TouchableOpacity
+                  style={styles.continueButton}
+                  onPress={proceedToAnalysis}
+                >
+                  <Ionicons name="arrow-forward" size={20} color="white" />
+                  <Text style={styles.continueButtonText}>Analizar</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={styles.continueButton}
+                  onPress={() => navigation.navigate('VideoHistory')}
+                >
+                  <Ionicons name="cloud-upload-outline" size={20} color="white" />
+                  <Text style={styles.continueButtonText}>Importar pose</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </View>
@@ -701,6 +800,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerButtonActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.45)',
+  },
   headerTitle: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -822,6 +924,28 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingTop: 20,
   },
+  angleSelector: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: 20,
+    padding: 4,
+  },
+  angleOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  angleOptionActive: {
+    backgroundColor: '#667eea',
+  },
+  angleOptionText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   recordingIndicator: {
     position: 'absolute',
     top: 20,
@@ -916,6 +1040,12 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: '600',
   },
+  poseHintText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+    textAlign: 'center',
+  },
   buttonRow: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackParamList } from '../../App';
+import { VideoStorageService, StoredStroke, StoredVideo } from '../services/videoStorageService';
+import { rallySegmentationService } from '../services/rallySegmentationService';
+import { getShotName } from '../config/shotRegistry';
+
+type DrillOverviewScreenNavigationProp = StackNavigationProp<RootStackParamList, 'DrillOverview'>;
+type DrillOverviewScreenRouteProp = RouteProp<RootStackParamList, 'DrillOverview'>;
+
+export default function DrillOverviewScreen() {
+  const navigation = useNavigation<DrillOverviewScreenNavigationProp>();
+  const route = useRoute<DrillOverviewScreenRouteProp>();
+  const { videoId } = route.params;
+
+  const [video, setVideo] = useState<StoredVideo | null>(null);
+  const [strokes, setStrokes] = useState<StoredStroke[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [segmenting, setSegmenting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDrill();
+  }, [videoId]);
+
+  const loadDrill = async () => {
+    try {
+      setLoading(true);
+      const storedVideo = await VideoStorageService.getVideo(videoId);
+      setVideo(storedVideo);
+
+      if (storedVideo?.strokes && storedVideo.strokes.length > 0) {
+        setStrokes(storedVideo.strokes);
+      } else {
+        await segmentDrill();
+      }
+    } catch (loadError) {
+      console.error('Error loading drill:', loadError);
+      setError('No se pudo cargar el ejercicio');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const segmentDrill = async () => {
+    try {
+      setSegmenting(true);
+      setError(null);
+      setStrokes(await rallySegmentationService.analyzeDrill(videoId));
+    } catch (segmentError) {
+      console.error('Error segmenting drill:', segmentError);
+      // aiService-style errors are plain { code, message } objects
+      setError((segmentError as { message?: string } | null)?.message || 'No se pudo dividir el ejercicio en golpes');
+    } finally {
+      setSegmenting(false);
+    }
+  };
+
+  const handleStrokePress = (stroke: StoredStroke) => {
+    if (!stroke.analysisResult) return;
+    // Without videoUri the results screen does not offer re-analysing the whole recording
+    navigation.navigate('Results', { analysisResult: stroke.analysisResult });
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 90) return '#4CAF50';
+    if (score >= 80) return '#8BC34A';
+    if (score >= 70) return '#FFC107';
+    if (score >= 60) return '#FF9800';
+    return '#F44336';
+  };
+
+  const formatTime = (milliseconds: number) => `${(milliseconds / 1000).toFixed(1)}s`;
+
+  const getAverageScore = () => {
+    const scores = strokes.flatMap(stroke => (stroke.analysisResult ? [stroke.analysisResult.overallScore] : []));
+    return scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+  };
+
+  const renderStroke = (stroke: StoredStroke) => {
+    const score: number | undefined = stroke.analysisResult?.overallScore;
+
+    return (
+      <TouchableOpacity
+        key={stroke.index}
+        style={styles.strokeCard}
+        onPress={() => handleStrokePress(stroke)}
+        disabled={!stroke.analysisResult}
+        activeOpacity={0.8}
+      >
+        <View style={styles.strokeIndex}>
+          <Text style={styles.strokeIndexText}>{stroke.index + 1}</Text>
+        </View>
+
+        <View style={styles.strokeInfo}>
+          <Text style={styles.strokeShotType}>{getShotName(stroke.shotType)}</Text>
+          <Text style={styles.strokeMeta}>
+            {formatTime(stroke.startTime)} – {formatTime(stroke.endTime)}
+            {stroke.detectedConfidence > 0 ? ` · Detección ${Math.round(stroke.detectedConfidence * 100)}%` : ''}
+          </Text>
+          {stroke.error && <Text style={styles.strokeError}>{stroke.error}</Text>}
+        </View>
+
+        {score !== undefined ? (
+          <View style={[styles.strokeScore, { backgroundColor: getScoreColor(score) }]}>
+            <Text style={styles.strokeScoreText}>{score}</Text>
+          </View>
+        ) : (
+          <Ionicons name="alert-circle" size={24} color="#FFC107" />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading || segmenting) {
+    return (
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="white" />
+        <Text style={styles.loadingText}>
+          {segmenting ? 'Buscando golpes en el ejercicio...' : 'Cargando ejercicio...'}
+        </Text>
+      </LinearGradient>
+    );
+  }
+
+  const averageScore = getAverageScore();
+
+  return (
+    <LinearGradient
+      colors={['#667eea', '#764ba2', '#f093fb']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Ejercicio</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={[styles.backButton, styles.headerAction]}
+            onPress={() => navigation.navigate('VideoReview', { videoId })}
+          >
+            <Ionicons name="film-outline" size={22} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.backButton} onPress={segmentDrill}>
+            <Ionicons name="refresh" size={22} color="white" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryTitle}>
+            {video ? getShotName(video.shotType) : 'Ejercicio'}
+          </Text>
+          <Text style={styles.summaryText}>
+            {strokes.length} golpes
+            {video ? ` · ${VideoStorageService.formatDuration(video.duration)}` : ''}
+          </Text>
+          {averageScore !== null && (
+            <Text style={styles.summaryScore}>Media: {averageScore}%</Text>
+          )}
+        </View>
+
+        {error && (
+          <View style={styles.errorCard}>
+            <Ionicons name="alert-circle" size={22} color="#FFC107" />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {strokes.map(renderStroke)}
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: 'white',
+    fontSize: 16,
+    marginTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerAction: {
+    marginRight: 10,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  summaryCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 20,
+    padding: 20,
+    alignItems: 'center',
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  summaryTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 6,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  summaryScore: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+    marginTop: 10,
+  },
+  errorCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 193, 7, 0.15)',
+    borderRadius: 15,
+    padding: 15,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#FFC107',
+  },
+  errorText: {
+    flex: 1,
+    marginLeft: 10,
+    color: 'white',
+    fontSize: 14,
+  },
+  strokeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 15,
+    padding: 15,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  strokeIndex: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  strokeIndexText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  strokeInfo: {
+    flex: 1,
+  },
+  strokeShotType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  strokeMeta: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.75)',
+    marginTop: 2,
+  },
+  strokeError: {
+    fontSize: 12,
+    color: '#FFC107',
+    marginTop: 4,
+  },
+  strokeScore: {
+    minWidth: 44,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  strokeScoreText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+});
@@ -12,20 +12,14 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../../App';
+import { SHOTS } from '../config/shotRegistry';
+import { appConfig } from '../config/appConfig';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
 const { width, height } = Dimensions.get('window');
 
-const shotTypes = [
-  { id: 'derecha', name: 'Derecha', icon: '🎾', description: 'Golpe de derecha' },
-  { id: 'reves', name: 'Revés', icon: '🏓', description: 'Golpe de revés' },
-  { id: 'volea', name: 'Volea', icon: '⚡', description: 'Volea rápida' },
-  { id: 'saque', name: 'Saque', icon: '🚀', description: 'Saque inicial' },
-  { id: 'bandeja', name: 'Bandeja', icon: '🥄', description: 'Golpe de bandeja' },
-  { id: 'vibora', name: 'Víbora', icon: '🐍', description: 'Golpe de víbora' },
-  { id: 'remate', name: 'Remate', icon: '💥', description: 'Remate potente' },
-];
+const language = appConfig.ui.language;
 
 export default function HomeScreen() {
   const navigation = useNavigation<HomeScreenNavigationProp>();
@@ -71,7 +65,7 @@ export default function HomeScreen() {
         showsVerticalScrollIndicator={false}
       >
         <View style={styles.shotsGrid}>
-          {shotTypes.map((shot) => (
+          {SHOTS.map((shot) => (
             <TouchableOpacity
               key={shot.id}
               style={styles.shotCard}
@@ -81,8 +75,8 @@ export default function HomeScreen() {
               <View style={styles.shotIconContainer}>
                 <Text style={styles.shotIcon}>{shot.icon}</Text>
               </View>
-              <Text style={styles.shotName}>{shot.name}</Text>
-              <Text style={styles.shotDescription}>{shot.description}</Text>
+              <Text style={styles.shotName}>{shot.names[language]}</Text>
+              <Text style={styles.shotDescription}>{shot.descriptions[language]}</Text>
             </TouchableOpacity>
           ))}
         </View>
@@ -8,6 +8,8 @@ import {
   Alert,
   Switch,
   Dimensions,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -16,11 +18,26 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Sharing from 'expo-sharing';
 import { RootStackParamList } from '../../App';
 import { storageService, UserProfile } from '../services/storageService';
+import { userService } from '../services/userService';
+import { Handedness } from '../services/poseService';
+import { injuryRiskService, InjuryRiskHistory } from '../services/injuryRiskService';
+import { analysisVersionService, ScoreHistoryEntry } from '../services/analysisVersionService';
+import { AppUtils } from '../utils/appUtils';
+import { MIN_PLAYER_HEIGHT, MAX_PLAYER_HEIGHT } from '../config/playerCalibration';
 
 type ProfileScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Profile'>;
 
 const { width, height } = Dimensions.get('window');
 
+// Análisis recientes que se dibujan en los historiales de puntuación y de riesgo
+const HISTORY_BARS = 10;
+
+const RISK_TREND_INFO: Record<InjuryRiskHistory['trend'], { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  decreasing: { label: 'Bajando', icon: 'trending-down', color: '#4CAF50' },
+  stable: { label: 'Estable', icon: 'remove', color: '#FFC107' },
+  increasing: { label: 'Subiendo', icon: 'trending-up', color: '#F44336' },
+};
+
 export default function ProfileScreen() {
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
@@ -30,6 +47,10 @@ export default function ProfileScreen() {
     mostPracticedShot: 'N/A',
     improvementRate: 0,
   });
+  const [scoreHistory, setScoreHistory] = useState<ScoreHistoryEntry[]>([]);
+  const [riskHistory, setRiskHistory] = useState<InjuryRiskHistory | null>(null);
+  // Texto del diálogo de altura; null = cerrado
+  const [heightInput, setHeightInput] = useState<string | null>(null);
   const [settings, setSettings] = useState({
     notifications: true,
     autoSave: true,
@@ -48,6 +69,8 @@ export default function ProfileScreen() {
       
       setUserProfile(profile);
       setStats(generalStats);
+      setScoreHistory(await analysisVersionService.getScoreHistory());
+      setRiskHistory(await injuryRiskService.getHistory());
     } catch (error) {
       console.error('Error loading user data:', error);
     }
@@ -71,6 +94,7 @@ export default function ProfileScreen() {
                   totalAnalyses: 0,
                   averageScore: 0,
                   favoriteShot: 'derecha',
+                  handedness: 'right',
                 };
                 
                 await storageService.saveUserProfile(profile);
@@ -127,11 +151,86 @@ export default function ProfileScreen() {
     );
   };
 
+  const handleHandednessChange = async (handedness: Handedness) => {
+    try {
+      setUserProfile(await storageService.updateUserProfile({ handedness }));
+      await userService.updateHandedness(handedness);
+    } catch (error) {
+      console.error('Error updating handedness:', error);
+      Alert.alert('Error', 'No se pudo guardar la mano con la que juegas');
+    }
+  };
+
+  const handleHeightPress = () => {
+    setHeightInput(userProfile?.height ? String(userProfile.height) : '');
+  };
+
+  const handleHeightSave = async () => {
+    const height = Math.round(Number(heightInput));
+    if (!height || height < MIN_PLAYER_HEIGHT || height > MAX_PLAYER_HEIGHT) {
+      Alert.alert('Altura no válida', `Introduce un valor entre ${MIN_PLAYER_HEIGHT} y ${MAX_PLAYER_HEIGHT} cm`);
+      return;
+    }
+
+    setHeightInput(null);
+    try {
+      setUserProfile(await storageService.updateUserProfile({ height }));
+      await userService.updateHeight(height);
+    } catch (error) {
+      console.error('Error updating height:', error);
+      Alert.alert('Error', 'No se pudo guardar tu altura');
+    }
+  };
+
   const handleSettingChange = (key: keyof typeof settings, value: boolean) => {
     setSettings(prev => ({ ...prev, [key]: value }));
     // Aquí implementarías la persistencia de configuraciones
   };
 
+  // 50 = umbral moderado alcanzado, 100 = umbral alto
+  const getRiskColor = (riskScore: number) => {
+    if (riskScore >= 100) return '#F44336';
+    if (riskScore >= 50) return '#FF9800';
+    return '#4CAF50';
+  };
+
+  /**
+   * Barras de los últimos análisis, con una línea donde cambia la versión de las reglas de puntuación
+   */
+  const renderHistoryBars = <T extends { engineVersion: string }>(
+    entries: T[],
+    getValue: (entry: T) => number,
+    getColor: (value: number) => string
+  ) => {
+    const start = Math.max(0, entries.length - HISTORY_BARS);
+    return (
+      <View style={styles.historyBars}>
+        {entries.slice(start).map((entry, index) => {
+          const previous = entries[start + index - 1];
+          const value = getValue(entry);
+          return (
+            <React.Fragment key={index}>
+              {previous && previous.engineVersion !== entry.engineVersion && (
+                <View style={styles.modelChangeMarker} />
+              )}
+              <View
+                style={[
+                  styles.historyBar,
+                  { height: `${Math.max(4, value)}%`, backgroundColor: getColor(value) },
+                ]}
+              />
+            </React.Fragment>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const hasModelChange = (entries: Array<{ engineVersion: string }>) => {
+    const recent = entries.slice(-HISTORY_BARS - 1);
+    return recent.some((entry, index) => index > 0 && entry.engineVersion !== recent[index - 1].engineVersion);
+  };
+
   const getLevelColor = (level: string) => {
     const colors = {
       beginner: '#4CAF50',
@@ -288,10 +387,82 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Score Progress Card */}
+        {scoreHistory.length > 0 && (
+          <View style={styles.statsCard}>
+            <Text style={styles.cardTitle}>Progreso</Text>
+
+            {renderHistoryBars(scoreHistory, entry => entry.overallScore, AppUtils.getScoreColor)}
+            <Text style={styles.historyHint}>
+              Últimos {Math.min(scoreHistory.length, HISTORY_BARS)} análisis · puntuación global
+            </Text>
+            {hasModelChange(scoreHistory) && (
+              <Text style={styles.historyHint}>
+                La línea marca un cambio en las reglas de puntuación: las notas de antes y después no son comparables
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Injury Risk Card */}
+        {riskHistory && riskHistory.entries.length > 0 && (
+          <View style={styles.statsCard}>
+            <Text style={styles.cardTitle}>Riesgo de Lesión</Text>
+
+            <View style={styles.riskSummary}>
+              <View style={styles.statItem}>
+                <Text style={styles.statNumber}>{riskHistory.recentAverage}</Text>
+                <Text style={styles.statLabel}>Riesgo medio reciente</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Ionicons
+                  name={RISK_TREND_INFO[riskHistory.trend].icon}
+                  size={28}
+                  color={RISK_TREND_INFO[riskHistory.trend].color}
+                />
+                <Text style={styles.statLabel}>
+                  {riskHistory.previousAverage !== null ? RISK_TREND_INFO[riskHistory.trend].label : 'Sin datos suficientes'}
+                </Text>
+              </View>
+            </View>
+
+            {renderHistoryBars(riskHistory.entries, entry => entry.riskScore, getRiskColor)}
+            <Text style={styles.historyHint}>
+              Últimos {Math.min(riskHistory.entries.length, HISTORY_BARS)} análisis · 0 = sin avisos en codo, hombro ni zona lumbar
+            </Text>
+            {hasModelChange(riskHistory.entries) && (
+              <Text style={styles.historyHint}>La línea marca un cambio en las reglas de evaluación</Text>
+            )}
+          </View>
+        )}
+
         {/* Settings Card */}
         <View style={styles.settingsCard}>
           <Text style={styles.cardTitle}>Configuración</Text>
           
+          <View style={styles.settingItem}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="hand-left" size={24} color="#667eea" />
+              <Text style={styles.settingLabel}>Juego con la izquierda</Text>
+            </View>
+            <Switch
+              value={userProfile.handedness === 'left'}
+              onValueChange={(value) => handleHandednessChange(value ? 'left' : 'right')}
+              trackColor={{ false: '#767577', true: '#667eea' }}
+              thumbColor={userProfile.handedness === 'left' ? '#ffffff' : '#f4f3f4'}
+            />
+          </View>
+          
+          <TouchableOpacity style={styles.settingItem} onPress={handleHeightPress}>
+            <View style={styles.settingInfo}>
+              <Ionicons name="resize" size={24} color="#667eea" />
+              <Text style={styles.settingLabel}>Altura</Text>
+            </View>
+            <Text style={styles.settingValue}>
+              {userProfile.height ? `${userProfile.height} cm` : 'Sin indicar'}
+            </Text>
+          </TouchableOpacity>
+          
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
               <Ionicons name="notifications" size={24} color="#667eea" />
@@ -374,6 +545,40 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
       </ScrollView>
+
+      <Modal
+        visible={heightInput !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setHeightInput(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Tu Altura</Text>
+            <Text style={styles.modalText}>
+              Indica tu altura en centímetros para calcular la velocidad de tus golpes en km/h:
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              value={heightInput || ''}
+              onChangeText={setHeightInput}
+              keyboardType="number-pad"
+              placeholder="175"
+              placeholderTextColor="rgba(102, 126, 234, 0.6)"
+              maxLength={3}
+              autoFocus
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalButton} onPress={() => setHeightInput(null)}>
+                <Text style={styles.modalCancelText}>Cancelar</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.modalButton, styles.modalSaveButton]} onPress={handleHeightSave}>
+                <Text style={styles.modalSaveText}>Guardar</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </LinearGradient>
   );
 }
@@ -570,6 +775,39 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     textAlign: 'center',
   },
+  riskSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 20,
+  },
+  historyBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 60,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    paddingTop: 4,
+    overflow: 'hidden',
+  },
+  historyBar: {
+    flex: 1,
+    marginHorizontal: 2,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  modelChangeMarker: {
+    width: 2,
+    alignSelf: 'stretch',
+    marginHorizontal: 1,
+    backgroundColor: 'white',
+  },
+  historyHint: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 8,
+    textAlign: 'center',
+  },
   settingsCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.15)',
     borderRadius: 20,
@@ -590,6 +828,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  settingValue: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontWeight: '600',
+  },
   settingLabel: {
     fontSize: 16,
     color: 'white',
@@ -625,4 +868,62 @@ const styles = StyleSheet.create({
   dangerText: {
     color: '#e74c3c',
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 30,
+  },
+  modalCard: {
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 25,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  modalText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: 'rgba(102, 126, 234, 0.4)',
+    borderRadius: 15,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    fontSize: 18,
+    color: '#333',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 15,
+    marginLeft: 10,
+  },
+  modalSaveButton: {
+    backgroundColor: '#667eea',
+  },
+  modalCancelText: {
+    color: '#667eea',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalSaveText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,34 +7,150 @@ import {
   ScrollView,
   Dimensions,
   Alert,
+  Image,
+  GestureResponderEvent,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import * as Sharing from 'expo-sharing';
+import { Video, AVPlaybackStatus } from 'expo-av';
+import Svg, { Circle, Polyline } from 'react-native-svg';
 import { RootStackParamList } from '../../App';
-import { analysisService } from '../services/analysisService';
+import {
+  analysisService,
+  DimensionResult,
+  Improvement,
+  ImprovementDifficulty,
+  ImprovementPriority,
+} from '../services/analysisService';
+import { aiService } from '../services/aiService';
 import { authService } from '../services/authService';
+import { analysisEngineRegistry } from '../services/analysisEngine';
+import { VideoStorageService } from '../services/videoStorageService';
+import { appConfig } from '../config/appConfig';
+import { CAMERA_ANGLES } from '../config/cameraAngles';
+import { SHOT_PHASE_COLORS, SHOT_PHASE_LABELS, ShotPhase } from '../services/shotPhaseService';
+import { JointDeviationCurve, TemplateComparison } from '../services/referenceTemplateService';
+import { PoseJoint } from '../services/poseService';
+import { BallAnalysis, BallTrajectoryPoint } from '../services/ballTrackingService';
+import { frameExtractionService } from '../services/frameExtractionService';
+import { InjuryRiskAssessment } from '../services/injuryRiskService';
+import { RISK_JOINT_NAMES, RiskSeverity } from '../config/injuryRisk';
+import { AnalysisAnnotation } from '../services/annotationService';
+import { ScoreDimension } from '../config/techniqueRules';
+import { getShotName, getShotNameWithArticle } from '../config/shotRegistry';
 
 type ResultsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Results'>;
 type ResultsScreenRouteProp = RouteProp<RootStackParamList, 'Results'>;
 
 const { width, height } = Dimensions.get('window');
 
+const PRIORITY_COLORS: Record<ImprovementPriority, string> = {
+  high: '#F44336',
+  medium: '#FF9800',
+  low: '#8BC34A',
+};
+
+const PRIORITY_LABELS: Record<ImprovementPriority, string> = {
+  high: 'Prioridad alta',
+  medium: 'Prioridad media',
+  low: 'Prioridad baja',
+};
+
+const DIFFICULTY_LABELS: Record<ImprovementDifficulty, string> = {
+  easy: 'Fácil',
+  moderate: 'Moderado',
+  hard: 'Difícil',
+};
+
+const RISK_SEVERITY_COLORS: Record<RiskSeverity, string> = {
+  high: '#F44336',
+  moderate: '#FF9800',
+};
+
+const RISK_SEVERITY_LABELS: Record<RiskSeverity, string> = {
+  high: 'Riesgo alto',
+  moderate: 'Riesgo moderado',
+};
+
+const DIMENSION_LABELS: Record<ScoreDimension, string> = {
+  posture: 'Postura',
+  timing: 'Timing',
+  followThrough: 'Seguimiento',
+  power: 'Potencia',
+  footwork: 'Juego de pies',
+};
+
+// Anotación no superada / fuera del rango ideal pero superada
+const ANNOTATION_COLORS = {
+  failed: '#F44336',
+  passed: '#FFC107',
+};
+
+// Distancia (fracción de la línea de tiempo) a la que el cursor se engancha a una anotación
+const ANNOTATION_SNAP = 0.03;
+
+const JOINT_LABELS: Partial<Record<PoseJoint, string>> = {
+  leftShoulder: 'Hombro izquierdo',
+  rightShoulder: 'Hombro derecho',
+  leftElbow: 'Codo izquierdo',
+  rightElbow: 'Codo derecho',
+  leftWrist: 'Muñeca izquierda',
+  rightWrist: 'Muñeca derecha',
+  leftHip: 'Cadera izquierda',
+  rightHip: 'Cadera derecha',
+  leftKnee: 'Rodilla izquierda',
+  rightKnee: 'Rodilla derecha',
+};
+
+// Desviación (longitudes de tronco) que llena la altura de la curva
+const DEVIATION_CURVE_SCALE = 1.5;
+const DEVIATION_CURVE_BARS = 30;
+const REFERENCE_JOINTS_SHOWN = 3;
+
+// Ancho del viewBox del dibujo de la pelota; el alto sigue la proporción del frame
+const BALL_VIEW_WIDTH = 100;
+const DEFAULT_FRAME_ASPECT = 16 / 9;
+
 export default function ResultsScreen() {
   const navigation = useNavigation<ResultsScreenNavigationProp>();
   const route = useRoute<ResultsScreenRouteProp>();
-  const { analysisResult } = route.params;
+  const analysisResult = aiService.normalizeResult(route.params.analysisResult);
+  const { videoUri, videoId } = route.params;
+  const detectedShot = analysisResult.detectedShot;
+  const racketSpeed = analysisResult.racketSpeed;
+  const hasShotTypeMismatch =
+    !!detectedShot &&
+    detectedShot.shotType !== analysisResult.shotType &&
+    detectedShot.confidence >= appConfig.analysis.shotTypeMismatchConfidence;
+  // Con un motor que solo simula, reintentar vuelve a dar el mismo resultado de demostración
+  const canRetryAnalysis = !analysisEngineRegistry.getActive().simulated;
   
   const [isSaved, setIsSaved] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [ballFrame, setBallFrame] = useState<{ uri: string; width: number; height: number } | null>(null);
+  const videoRef = useRef<Video>(null);
+  const [timelineWidth, setTimelineWidth] = useState(0);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [selectedAnnotation, setSelectedAnnotation] = useState<AnalysisAnnotation | null>(null);
+  // Los tiempos del análisis son relativos al golpe; en un ejercicio el golpe empieza más tarde en el video
+  const videoOffset = analysisResult.clip?.startTime || 0;
 
   useEffect(() => {
     // Auto-save analysis result
     saveAnalysisResult();
   }, []);
 
+  useEffect(() => {
+    // Frame del impacto sobre el que se dibuja la trayectoria
+    const ball = analysisResult.ball;
+    if (ball && videoUri) {
+      frameExtractionService.getStillAt(videoUri, ball.contactTime).then(setBallFrame);
+    }
+  }, []);
+
   const saveAnalysisResult = async () => {
     if (isSaved) return;
     
@@ -97,52 +213,379 @@ export default function ResultsScreen() {
     return 'Necesita Mejora';
   };
 
-  const getShotTypeName = (type: string) => {
-    const shotNames: { [key: string]: string } = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate',
-    };
-    return shotNames[type] || type;
-  };
-
-  const renderProgressBar = (label: string, score: number, color: string) => (
+  const renderProgressBar = (label: string, result: DimensionResult, color: string, measurement?: string) => (
     <View style={styles.progressItem}>
       <View style={styles.progressHeader}>
         <Text style={styles.progressLabel}>{label}</Text>
-        <Text style={styles.progressScore}>{score}%</Text>
+        <View style={styles.progressValues}>
+          {measurement && <Text style={styles.progressMeasurement}>{measurement}</Text>}
+          <Text style={styles.progressScore}>{result.score}%</Text>
+        </View>
       </View>
       <View style={styles.progressBarContainer}>
         <View style={styles.progressBar}>
           <View
             style={[
               styles.progressFill,
-              { width: `${score}%`, backgroundColor: color },
+              { width: `${result.score}%`, backgroundColor: color },
             ]}
           />
         </View>
       </View>
+      {result.confidence > 0 && (
+        <Text style={styles.confidenceText}>
+          Confianza: {Math.round(result.confidence * 100)}%
+        </Text>
+      )}
+      {result.feedback.map((feedback, index) => (
+        <View key={index} style={styles.feedbackItem}>
+          <Ionicons name="alert-circle-outline" size={14} color="rgba(255, 255, 255, 0.8)" />
+          <Text style={styles.feedbackText}>{feedback}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const formatPhaseTime = (milliseconds: number) => `${(milliseconds / 1000).toFixed(2)}s`;
+
+  const seekTo = (milliseconds: number) => {
+    setPlayhead(milliseconds);
+    videoRef.current
+      ?.setPositionAsync(milliseconds + videoOffset, { toleranceMillisBefore: 0, toleranceMillisAfter: 0 })
+      .catch(error => console.warn('Could not seek video:', error));
+  };
+
+  const handleAnnotationPress = (annotation: AnalysisAnnotation) => {
+    setSelectedAnnotation(annotation);
+    seekTo(annotation.timestamp);
+  };
+
+  const handlePlaybackStatus = (status: AVPlaybackStatus) => {
+    if (status.isLoaded && status.isPlaying) {
+      setPlayhead(status.positionMillis - videoOffset);
+    }
+  };
+
+  const formatAnnotationValue = (annotation: AnalysisAnnotation) => {
+    if (!annotation.unit) return null;
+    const [min, max] = annotation.ideal;
+    return `${Math.round(annotation.value)} ${annotation.unit} (ideal ${min}–${max} ${annotation.unit})`;
+  };
+
+  const renderTimeline = (phases: ShotPhase[], annotations: AnalysisAnnotation[]) => {
+    const start = Math.min(phases[0].startTime, ...annotations.map(annotation => annotation.timestamp));
+    const end = Math.max(phases[phases.length - 1].endTime, ...annotations.map(annotation => annotation.timestamp));
+    const totalDuration = Math.max(end - start, 1);
+    const toFraction = (milliseconds: number) => Math.min(1, Math.max(0, (milliseconds - start) / totalDuration));
+
+    // Arrastrar sobre la línea de tiempo mueve el video; cerca de una anotación el cursor se engancha a ella
+    const handleScrub = (event: GestureResponderEvent) => {
+      if (timelineWidth === 0) return;
+      const fraction = Math.min(1, Math.max(0, event.nativeEvent.locationX / timelineWidth));
+      const nearest = annotations.reduce<AnalysisAnnotation | null>(
+        (best, annotation) =>
+          !best || Math.abs(toFraction(annotation.timestamp) - fraction) < Math.abs(toFraction(best.timestamp) - fraction)
+            ? annotation
+            : best,
+        null
+      );
+
+      if (nearest && Math.abs(toFraction(nearest.timestamp) - fraction) <= ANNOTATION_SNAP) {
+        setSelectedAnnotation(nearest);
+        seekTo(nearest.timestamp);
+      } else {
+        setSelectedAnnotation(null);
+        seekTo(start + fraction * totalDuration);
+      }
+    };
+
+    return (
+      <View style={styles.phasesCard}>
+        <Text style={styles.detailsTitle}>Línea de Tiempo</Text>
+
+        {videoUri && (
+          <Video
+            ref={videoRef}
+            source={{ uri: videoUri }}
+            style={styles.timelineVideo}
+            useNativeControls
+            resizeMode={"contain" as any}
+            onPlaybackStatusUpdate={handlePlaybackStatus}
+          />
+        )}
+
+        <View
+          style={styles.scrubber}
+          onLayout={event => setTimelineWidth(event.nativeEvent.layout.width)}
+          onStartShouldSetResponder={() => true}
+          onMoveShouldSetResponder={() => true}
+          onResponderTerminationRequest={() => false}
+          onResponderGrant={handleScrub}
+          onResponderMove={handleScrub}
+        >
+          <View style={styles.phaseTimeline} pointerEvents="none">
+            {phases.map(phase => (
+              <View
+                key={phase.name}
+                style={[
+                  styles.phaseSegment,
+                  {
+                    flex: Math.max(phase.endTime - phase.startTime, 1) / totalDuration,
+                    backgroundColor: SHOT_PHASE_COLORS[phase.name],
+                  },
+                ]}
+              />
+            ))}
+          </View>
+          {annotations.map((annotation, index) => (
+            <View
+              key={`${annotation.ruleId}-${index}`}
+              pointerEvents="none"
+              style={[
+                styles.annotationMarker,
+                {
+                  left: `${toFraction(annotation.timestamp) * 100}%`,
+                  backgroundColor: annotation.passed ? ANNOTATION_COLORS.passed : ANNOTATION_COLORS.failed,
+                },
+                annotation === selectedAnnotation && styles.annotationMarkerSelected,
+              ]}
+            />
+          ))}
+          {playhead !== null && (
+            <View pointerEvents="none" style={[styles.playhead, { left: `${toFraction(playhead) * 100}%` }]} />
+          )}
+        </View>
+
+        <View style={styles.timelineLabels}>
+          <Text style={styles.timelineLabel}>{formatPhaseTime(start)}</Text>
+          {playhead !== null && <Text style={styles.timelineCurrent}>{formatPhaseTime(playhead)}</Text>}
+          <Text style={styles.timelineLabel}>{formatPhaseTime(end)}</Text>
+        </View>
+
+        {annotations.length === 0 ? (
+          <View style={styles.feedbackItem}>
+            <Ionicons name="checkmark-circle-outline" size={16} color="#4CAF50" />
+            <Text style={styles.feedbackText}>Todas las medidas del golpe están dentro de su rango ideal</Text>
+          </View>
+        ) : (
+          annotations.map((annotation, index) => {
+            const value = formatAnnotationValue(annotation);
+            return (
+              <TouchableOpacity
+                key={`${annotation.ruleId}-${index}`}
+                style={[
+                  styles.annotationItem,
+                  annotation === selectedAnnotation && styles.annotationItemSelected,
+                ]}
+                onPress={() => handleAnnotationPress(annotation)}
+              >
+                <Text style={styles.annotationTime}>{formatPhaseTime(annotation.timestamp)}</Text>
+                <View
+                  style={[
+                    styles.improvementDot,
+                    { backgroundColor: annotation.passed ? ANNOTATION_COLORS.passed : ANNOTATION_COLORS.failed },
+                  ]}
+                />
+                <View style={styles.improvementContent}>
+                  <Text style={styles.annotationText}>{annotation.message}</Text>
+                  <Text style={styles.improvementMeta}>
+                    {DIMENSION_LABELS[annotation.dimension]} · {annotation.score}/100
+                    {value ? ` · ${value}` : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        <View style={styles.timelinePhases}>
+          {phases.map(phase => (
+            <View key={phase.name} style={styles.phaseRow}>
+              <View style={[styles.phaseDot, { backgroundColor: SHOT_PHASE_COLORS[phase.name] }]} />
+              <Text style={styles.phaseName}>{SHOT_PHASE_LABELS[phase.name]}</Text>
+              <Text style={styles.phaseTime}>
+                {formatPhaseTime(phase.startTime)} – {formatPhaseTime(phase.endTime)}
+              </Text>
+              <Text style={styles.phaseDuration}>
+                {Math.round(phase.endTime - phase.startTime)} ms
+              </Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderDeviationCurve = (curve: JointDeviationCurve) => {
+    // Reduce la curva a un número fijo de barras para que quepa en la tarjeta
+    const step = Math.max(1, Math.ceil(curve.deviations.length / DEVIATION_CURVE_BARS));
+    const bars: number[] = [];
+    for (let i = 0; i < curve.deviations.length; i += step) {
+      const window = curve.deviations.slice(i, i + step);
+      bars.push(Math.max(...window));
+    }
+
+    return (
+      <View key={curve.joint} style={styles.deviationItem}>
+        <View style={styles.progressHeader}>
+          <Text style={styles.deviationLabel}>{JOINT_LABELS[curve.joint] || curve.joint}</Text>
+          <Text style={styles.deviationValue}>media {curve.mean.toFixed(2)}</Text>
+        </View>
+        <View style={styles.deviationCurve}>
+          {bars.map((value, index) => (
+            <View
+              key={index}
+              style={[
+                styles.deviationBar,
+                {
+                  height: `${Math.max(4, Math.min(100, (value / DEVIATION_CURVE_SCALE) * 100))}%`,
+                  backgroundColor: getScoreColor(100 - (value / DEVIATION_CURVE_SCALE) * 100),
+                },
+              ]}
+            />
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderReferenceComparison = (reference: TemplateComparison) => (
+    <View style={styles.phasesCard}>
+      <Text style={styles.detailsTitle}>Comparación con el Modelo</Text>
+
+      <View style={styles.referenceHeader}>
+        <Text style={[styles.referenceSimilarity, { color: getScoreColor(reference.similarity) }]}>
+          {reference.similarity}%
+        </Text>
+        <Text style={styles.referenceName}>de similitud con {reference.templateName}</Text>
+      </View>
+
+      <Text style={styles.referenceHint}>Articulaciones que más se alejan del modelo a lo largo del golpe</Text>
+      {reference.jointDeviations.slice(0, REFERENCE_JOINTS_SHOWN).map(renderDeviationCurve)}
+    </View>
+  );
+
+  const getExitDirectionText = (degrees: number) => {
+    if (degrees > 15) return 'ascendente';
+    if (degrees < -15) return 'descendente';
+    return 'plana';
+  };
+
+  const renderBallTrajectory = (ball: BallAnalysis) => {
+    const aspect = ballFrame ? ballFrame.width / ballFrame.height : DEFAULT_FRAME_ASPECT;
+    const viewHeight = BALL_VIEW_WIDTH / aspect;
+    const toPoints = (points: BallTrajectoryPoint[]) =>
+      points.map(point => `${point.x * BALL_VIEW_WIDTH},${point.y * viewHeight}`).join(' ');
+
+    return (
+      <View style={styles.phasesCard}>
+        <Text style={styles.detailsTitle}>Trayectoria de la Pelota</Text>
+
+        <View style={[styles.ballFrame, { aspectRatio: aspect }]}>
+          {ballFrame && <Image source={{ uri: ballFrame.uri }} style={styles.ballFrameImage} />}
+          <Svg
+            style={styles.ballFrameImage}
+            viewBox={`0 0 ${BALL_VIEW_WIDTH} ${viewHeight}`}
+          >
+            {ball.detections.map((point, index) => (
+              <Circle
+                key={index}
+                cx={point.x * BALL_VIEW_WIDTH}
+                cy={point.y * viewHeight}
+                r={0.8}
+                fill="rgba(255, 235, 59, 0.6)"
+              />
+            ))}
+            <Polyline
+              points={toPoints(ball.trajectory)}
+              fill="none"
+              stroke="#FFEB3B"
+              strokeWidth={0.8}
+              strokeDasharray="2,1.5"
+            />
+            <Circle
+              cx={ball.contactPoint.x * BALL_VIEW_WIDTH}
+              cy={ball.contactPoint.y * viewHeight}
+              r={1.8}
+              fill="none"
+              stroke="#F44336"
+              strokeWidth={0.6}
+            />
+          </Svg>
+        </View>
+
+        <View style={styles.ballStats}>
+          <View style={styles.ballStat}>
+            <Text style={styles.ballStatValue}>
+              {ball.contactHeight !== undefined ? `${ball.contactHeight.toFixed(2)} m` : '—'}
+            </Text>
+            <Text style={styles.ballStatLabel}>Altura de impacto</Text>
+          </View>
+          <View style={styles.ballStat}>
+            <Text style={styles.ballStatValue}>{Math.round(ball.exitDirection)}°</Text>
+            <Text style={styles.ballStatLabel}>Salida {getExitDirectionText(ball.exitDirection)}</Text>
+          </View>
+          <View style={styles.ballStat}>
+            <Text style={styles.ballStatValue}>~{Math.round(ball.exitSpeed)} km/h</Text>
+            <Text style={styles.ballStatLabel}>Velocidad de salida</Text>
+          </View>
+        </View>
+
+        <Text style={styles.confidenceText}>
+          Valores aproximados medidos sobre la imagen · confianza {Math.round(ball.confidence * 100)}%
+        </Text>
+      </View>
+    );
+  };
+
+  const renderInjuryRisk = (injuryRisk: InjuryRiskAssessment) => (
+    <View style={styles.phasesCard}>
+      <Text style={styles.detailsTitle}>Riesgo de Lesión</Text>
+
+      {injuryRisk.warnings.length === 0 ? (
+        <View style={styles.feedbackItem}>
+          <Ionicons name="shield-checkmark-outline" size={16} color="#4CAF50" />
+          <Text style={styles.feedbackText}>
+            Codo, hombro y zona lumbar se mantienen dentro de los ángulos recomendados para este golpe
+          </Text>
+        </View>
+      ) : (
+        injuryRisk.warnings.map(warning => (
+          <View key={warning.metric} style={styles.improvementItem}>
+            <View style={[styles.improvementDot, { backgroundColor: RISK_SEVERITY_COLORS[warning.severity] }]} />
+            <View style={styles.improvementContent}>
+              <Text style={styles.improvementText}>{warning.message}</Text>
+              <Text style={styles.improvementMeta}>
+                {RISK_JOINT_NAMES[warning.joint]} · {RISK_SEVERITY_LABELS[warning.severity]} · {warning.value}°
+                (umbral {warning.threshold}°) en {formatPhaseTime(warning.timestamp)}
+              </Text>
+              <Text style={styles.riskAdvice}>{warning.advice}</Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      <Text style={styles.confidenceText}>
+        Aviso orientativo a partir de la pose; no sustituye la valoración de un profesional
+      </Text>
     </View>
   );
 
   const handleShareResults = async () => {
     try {
-      const shareText = `🎾 PadelTech - Análisis de ${getShotTypeName(analysisResult.shotType)}
+      const shareText = `🎾 PadelTech - Análisis de ${getShotName(analysisResult.shotType)}
       
 Puntuación General: ${analysisResult.overallScore}%
-Postura: ${analysisResult.posture}%
-Timing: ${analysisResult.timing}%
-Seguimiento: ${analysisResult.followThrough}%
-Potencia: ${analysisResult.power}%
+Postura: ${analysisResult.posture.score}%
+Timing: ${analysisResult.timing.score}%
+Seguimiento: ${analysisResult.followThrough.score}%
+Potencia: ${analysisResult.power.score}%${analysisResult.footwork ? `
+Juego de pies: ${analysisResult.footwork.score}%` : ''}
 
 ${getScoreText(analysisResult.overallScore)} - ${getScoreEmoji(analysisResult.overallScore)}
 
 Mejoras sugeridas:
-${analysisResult.improvements.map((imp: string) => `• ${imp}`).join('\n')}
+${analysisResult.improvements.map((imp: Improvement) => `• ${imp.description}`).join('\n')}
 
 ¡Descarga PadelTech para analizar tu técnica!`;
 
@@ -161,6 +604,27 @@ ${analysisResult.improvements.map((imp: string) => `• ${imp}`).join('\n')}
     }
   };
 
+  const handleRetryAnalysis = () => {
+    if (!videoUri) {
+      navigation.navigate('Home');
+      return;
+    }
+    navigation.replace('Analysis', { videoUri, videoId, shotType: analysisResult.shotType });
+  };
+
+  const handleRescoreAsDetected = async () => {
+    if (!videoUri || !detectedShot) return;
+
+    if (videoId) {
+      try {
+        await VideoStorageService.updateVideo(videoId, { shotType: detectedShot.shotType });
+      } catch (error) {
+        console.warn('Could not update video shot type:', error);
+      }
+    }
+    navigation.replace('Analysis', { videoUri, videoId, shotType: detectedShot.shotType });
+  };
+
   const handleViewHistory = () => {
     navigation.navigate('Profile');
   };
@@ -205,9 +669,51 @@ ${analysisResult.improvements.map((imp: string) => `• ${imp}`).join('\n')}
           </View>
         </View>
 
+        {analysisResult.isSimulated && (
+          <View style={styles.simulatedCard}>
+            <View style={styles.simulatedHeader}>
+              <Ionicons name="flask" size={22} color="#FFC107" />
+              <Text style={styles.simulatedTitle}>Resultado simulado</Text>
+            </View>
+            <Text style={styles.simulatedText}>
+              Estas puntuaciones son de demostración y no se han medido sobre tu video.
+              {canRetryAnalysis ? '' : ' La app está en modo de prueba: volver a analizar daría el mismo resultado.'}
+            </Text>
+            {canRetryAnalysis && (
+              <TouchableOpacity style={styles.simulatedButton} onPress={handleRetryAnalysis}>
+                <Ionicons name="refresh" size={18} color="#667eea" />
+                <Text style={styles.simulatedButtonText}>Reintentar análisis</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {hasShotTypeMismatch && detectedShot && (
+          <View style={styles.mismatchCard}>
+            <View style={styles.simulatedHeader}>
+              <Ionicons name="swap-horizontal" size={22} color="#FFC107" />
+              <Text style={styles.simulatedTitle}>
+                ¿Es {getShotNameWithArticle(detectedShot.shotType)}?
+              </Text>
+            </View>
+            <Text style={styles.simulatedText}>
+              Elegiste {getShotName(analysisResult.shotType)}, pero el movimiento se parece más a{' '}
+              {getShotNameWithArticle(detectedShot.shotType)} (confianza {Math.round(detectedShot.confidence * 100)}%).
+            </Text>
+            {videoUri && (
+              <TouchableOpacity style={styles.simulatedButton} onPress={handleRescoreAsDetected}>
+                <Ionicons name="refresh" size={18} color="#667eea" />
+                <Text style={styles.simulatedButtonText}>
+                  Puntuar como {getShotName(detectedShot.shotType)}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         <View style={styles.scoreCard}>
           <View style={styles.scoreHeader}>
-            <Text style={styles.shotType}>{getShotTypeName(analysisResult.shotType)}</Text>
+            <Text style={styles.shotType}>{getShotName(analysisResult.shotType)}</Text>
             <Text style={styles.scoreEmoji}>{getScoreEmoji(analysisResult.overallScore)}</Text>
           </View>
           
@@ -219,6 +725,15 @@ ${analysisResult.improvements.map((imp: string) => `• ${imp}`).join('\n')}
           <Text style={styles.scoreText}>
             {getScoreText(analysisResult.overallScore)}
           </Text>
+
+          {analysisResult.cameraAngle && CAMERA_ANGLES[analysisResult.cameraAngle] && (
+            <View style={styles.cameraAngleRow}>
+              <Ionicons name="videocam" size={14} color="rgba(255, 255, 255, 0.7)" />
+              <Text style={styles.cameraAngleText}>
+                Grabado desde: {CAMERA_ANGLES[analysisResult.cameraAngle].name}
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.detailsCard}>
@@ -227,38 +742,70 @@ ${analysisResult.improvements.map((imp: string) => `• ${imp}`).join('\n')}
           {renderProgressBar(
             'Postura',
             analysisResult.posture,
-            getScoreColor(analysisResult.posture)
+            getScoreColor(analysisResult.posture.score)
           )}
           
           {renderProgressBar(
             'Timing',
             analysisResult.timing,
-            getScoreColor(analysisResult.timing)
+            getScoreColor(analysisResult.timing.score)
           )}
           
           {renderProgressBar(
             'Seguimiento',
             analysisResult.followThrough,
-            getScoreColor(analysisResult.followThrough)
+            getScoreColor(analysisResult.followThrough.score)
           )}
           
           {renderProgressBar(
             'Potencia',
             analysisResult.power,
-            getScoreColor(analysisResult.power)
+            getScoreColor(analysisResult.power.score),
+            racketSpeed ? `~${racketSpeed.racketHead} km/h` : undefined
+          )}
+
+          {racketSpeed && (
+            <Text style={styles.speedNote}>
+              Velocidad estimada de la pala en el impacto (muñeca: {racketSpeed.wrist} km/h).
+              {racketSpeed.reference &&
+                ` Referencia para tu nivel: ${racketSpeed.reference[0]}–${racketSpeed.reference[1]} km/h.`}
+              {!racketSpeed.calibrated && ' Indica tu altura en el perfil para afinar la medida.'}
+            </Text>
+          )}
+
+          {analysisResult.footwork && renderProgressBar(
+            'Juego de pies',
+            analysisResult.footwork,
+            getScoreColor(analysisResult.footwork.score)
           )}
         </View>
 
+        {analysisResult.phases && analysisResult.phases.length > 0 &&
+          renderTimeline(analysisResult.phases, analysisResult.annotations || [])}
+
+        {analysisResult.reference && renderReferenceComparison(analysisResult.reference)}
+
+        {analysisResult.ball && renderBallTrajectory(analysisResult.ball)}
+
+        {analysisResult.injuryRisk && renderInjuryRisk(analysisResult.injuryRisk)}
+
         <View style={styles.improvementsCard}>
           <Text style={styles.improvementsTitle}>
             <Ionicons name="bulb" size={20} color="#667eea" />
             {' '}Áreas de Mejora
           </Text>
           
-          {analysisResult.improvements.map((improvement: string, index: number) => (
+          {analysisResult.improvements.map((improvement: Improvement, index: number) => (
             <View key={index} style={styles.improvementItem}>
-              <View style={styles.improvementDot} />
-              <Text style={styles.improvementText}>{improvement}</Text>
+              <View
+                style={[styles.improvementDot, { backgroundColor: PRIORITY_COLORS[improvement.priority] }]}
+              />
+              <View style={styles.improvementContent}>
+                <Text style={styles.improvementText}>{improvement.description}</Text>
+                <Text style={styles.improvementMeta}>
+                  {PRIORITY_LABELS[improvement.priority]} · {DIFFICULTY_LABELS[improvement.difficulty]}
+                </Text>
+              </View>
             </View>
           ))}
         </View>
@@ -347,6 +894,53 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  simulatedCard: {
+    backgroundColor: 'rgba(255, 193, 7, 0.15)',
+    borderRadius: 15,
+    padding: 15,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#FFC107',
+  },
+  mismatchCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 15,
+    padding: 15,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 193, 7, 0.6)',
+  },
+  simulatedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  simulatedTitle: {
+    marginLeft: 8,
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  simulatedText: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  simulatedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'white',
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  simulatedButtonText: {
+    marginLeft: 6,
+    color: '#667eea',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   scoreCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.15)',
     borderRadius: 25,
@@ -392,6 +986,16 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.9)',
     fontWeight: '600',
   },
+  cameraAngleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  cameraAngleText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginLeft: 6,
+  },
   detailsCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.15)',
     borderRadius: 20,
@@ -421,11 +1025,27 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '600',
   },
+  progressValues: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+  },
+  progressMeasurement: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginRight: 8,
+  },
   progressScore: {
     fontSize: 16,
     color: 'white',
     fontWeight: 'bold',
   },
+  speedNote: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: -8,
+    marginBottom: 20,
+    lineHeight: 17,
+  },
   progressBarContainer: {
     width: '100%',
   },
@@ -439,6 +1059,222 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 4,
   },
+  phasesCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 20,
+    padding: 25,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  phaseTimeline: {
+    flexDirection: 'row',
+    height: 14,
+    borderRadius: 7,
+    overflow: 'hidden',
+  },
+  phaseSegment: {
+    height: '100%',
+  },
+  timelineVideo: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+    borderRadius: 12,
+    backgroundColor: 'black',
+    marginBottom: 15,
+  },
+  scrubber: {
+    height: 30,
+    justifyContent: 'center',
+  },
+  annotationMarker: {
+    position: 'absolute',
+    top: 4,
+    width: 4,
+    height: 22,
+    marginLeft: -2,
+    borderRadius: 2,
+  },
+  annotationMarkerSelected: {
+    width: 8,
+    marginLeft: -4,
+    borderWidth: 1,
+    borderColor: 'white',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    width: 2,
+    height: 30,
+    marginLeft: -1,
+    backgroundColor: 'white',
+  },
+  timelineLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    marginBottom: 15,
+  },
+  timelineLabel: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  timelineCurrent: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  annotationItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    marginHorizontal: -8,
+    borderRadius: 10,
+  },
+  annotationItemSelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  annotationTime: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: 'bold',
+    minWidth: 48,
+    marginTop: 2,
+  },
+  annotationText: {
+    fontSize: 15,
+    color: 'white',
+    lineHeight: 20,
+  },
+  timelinePhases: {
+    marginTop: 15,
+  },
+  phaseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  phaseDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  phaseName: {
+    flex: 1,
+    fontSize: 15,
+    color: 'white',
+    fontWeight: '600',
+  },
+  phaseTime: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginRight: 12,
+  },
+  phaseDuration: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: 'bold',
+    minWidth: 60,
+    textAlign: 'right',
+  },
+  referenceHeader: {
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  referenceSimilarity: {
+    fontSize: 40,
+    fontWeight: 'bold',
+  },
+  referenceName: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+    textAlign: 'center',
+  },
+  referenceHint: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginBottom: 12,
+  },
+  deviationItem: {
+    marginBottom: 15,
+  },
+  deviationLabel: {
+    fontSize: 15,
+    color: 'white',
+    fontWeight: '600',
+  },
+  deviationValue: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  deviationCurve: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 36,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 6,
+    paddingHorizontal: 4,
+    paddingTop: 4,
+    overflow: 'hidden',
+  },
+  deviationBar: {
+    flex: 1,
+    marginHorizontal: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  ballFrame: {
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    marginBottom: 15,
+  },
+  ballFrameImage: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: '100%',
+    height: '100%',
+  },
+  ballStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  ballStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  ballStatValue: {
+    fontSize: 18,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  ballStatLabel: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  confidenceText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 6,
+  },
+  feedbackItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 6,
+  },
+  feedbackText: {
+    flex: 1,
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginLeft: 6,
+    lineHeight: 19,
+  },
   improvementsCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.15)',
     borderRadius: 20,
@@ -467,12 +1303,25 @@ const styles = StyleSheet.create({
     marginTop: 6,
     marginRight: 15,
   },
-  improvementText: {
+  improvementContent: {
     flex: 1,
+  },
+  improvementText: {
     fontSize: 16,
     color: 'white',
     lineHeight: 22,
   },
+  improvementMeta: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 4,
+  },
+  riskAdvice: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    lineHeight: 19,
+    marginTop: 4,
+  },
   actionsCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.15)',
     borderRadius: 20,
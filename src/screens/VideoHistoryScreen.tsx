@@ -13,22 +13,43 @@ import {
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { Video } from 'expo-av';
+import * as DocumentPicker from 'expo-document-picker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../../App';
 import { VideoStorageService, StoredVideo } from '../services/videoStorageService';
+import { analysisQueueService, AnalysisJob, AnalysisJobStatus } from '../services/analysisQueueService';
+import { poseService } from '../services/poseService';
+import { referenceTemplateService } from '../services/referenceTemplateService';
+import { aiService, isAIAnalysisError } from '../services/aiService';
+import { frameExtractionService } from '../services/frameExtractionService';
+import { rallySegmentationService } from '../services/rallySegmentationService';
+import { ballTrackingService } from '../services/ballTrackingService';
+import { analysisVersionService, RescoreProgress } from '../services/analysisVersionService';
+import { SHOTS, getShot, getShotName } from '../config/shotRegistry';
 
 type VideoHistoryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'VideoHistory'>;
 
 const { width } = Dimensions.get('window');
 
+const JOB_STATUS_INFO: Record<AnalysisJobStatus, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  queued: { label: 'En cola', icon: 'time-outline', color: '#f1c40f' },
+  extracting: { label: 'Extrayendo', icon: 'film-outline', color: '#3498db' },
+  scoring: { label: 'Evaluando', icon: 'analytics-outline', color: '#9b59b6' },
+  completed: { label: 'Analizado', icon: 'checkmark-circle', color: '#2ecc71' },
+  failed: { label: 'Error en el análisis', icon: 'alert-circle', color: '#e74c3c' },
+};
+
 export default function VideoHistoryScreen() {
   const navigation = useNavigation<VideoHistoryScreenNavigationProp>();
   
   const [videos, setVideos] = useState<StoredVideo[]>([]);
+  const [jobsByVideo, setJobsByVideo] = useState<Record<string, AnalysisJob>>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedShotType, setSelectedShotType] = useState<string | null>(null);
+  const [importingVideoId, setImportingVideoId] = useState<string | null>(null);
+  const [rescoreProgress, setRescoreProgress] = useState<RescoreProgress | null>(null);
   const [storageStats, setStorageStats] = useState({
     totalVideos: 0,
     totalSize: 0,
@@ -36,18 +57,22 @@ export default function VideoHistoryScreen() {
 
   const shotTypes = [
     { id: 'all', name: 'Todos', icon: '🎾' },
-    { id: 'derecha', name: 'Derecha', icon: '🎾' },
-    { id: 'reves', name: 'Revés', icon: '🏓' },
-    { id: 'volea', name: 'Volea', icon: '⚡' },
-    { id: 'saque', name: 'Saque', icon: '🚀' },
-    { id: 'bandeja', name: 'Bandeja', icon: '🥄' },
-    { id: 'vibora', name: 'Víbora', icon: '🐍' },
-    { id: 'remate', name: 'Remate', icon: '💥' },
+    ...SHOTS.map(shot => ({ id: shot.id, name: getShotName(shot.id), icon: shot.icon })),
   ];
 
   useFocusEffect(
     useCallback(() => {
       loadVideos();
+
+      const unsubscribe = analysisQueueService.subscribe(job => {
+        if (!job.videoId) return;
+        setJobsByVideo(current => ({ ...current, [job.videoId as string]: job }));
+        if (job.status === 'completed') {
+          loadVideos(); // the result is now stored with the video
+        }
+      });
+
+      return unsubscribe;
     }, [])
   );
 
@@ -56,6 +81,7 @@ export default function VideoHistoryScreen() {
       setLoading(true);
       const allVideos = await VideoStorageService.getAllVideos();
       setVideos(allVideos);
+      setJobsByVideo(await analysisQueueService.getLatestJobsByVideo());
 
       const stats = await VideoStorageService.getStorageStats();
       setStorageStats(stats);
@@ -97,11 +123,266 @@ export default function VideoHistoryScreen() {
   };
 
   const handleVideoPress = (video: StoredVideo) => {
-    // Navigate to analysis screen with the video
-    navigation.navigate('Analysis', {
-      videoUri: video.uri,
-      shotType: video.shotType,
-    });
+    if (video.isDrill) {
+      navigation.navigate('DrillOverview', { videoId: video.id });
+      return;
+    }
+
+    const job = jobsByVideo[video.id];
+    const isRunning = job && (job.status === 'queued' || job.status === 'extracting' || job.status === 'scoring');
+
+    // Follow the running analysis job if there is one; otherwise open the clip for review
+    if (isRunning) {
+      navigation.navigate('Analysis', {
+        videoUri: video.uri,
+        shotType: video.shotType,
+        videoId: video.id,
+        jobId: job.id,
+      });
+      return;
+    }
+
+    navigation.navigate('VideoReview', { videoId: video.id });
+  };
+
+  const handleUseAsReference = (video: StoredVideo) => {
+    if (!video.hasPoseTrack) return;
+
+    Alert.alert(
+      'Usar como referencia',
+      `Los próximos análisis de ${getShotTypeName(video.shotType)} se compararán con este video.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Usar como referencia',
+          onPress: async () => {
+            try {
+              const track = await poseService.getTrack(video.id);
+              if (!track) throw new Error('Pose track not found');
+              await referenceTemplateService.addCustomTemplate(
+                track,
+                video.shotType,
+                `${getShotTypeName(video.shotType)} del ${formatDate(video.timestamp)}`,
+                await aiService.getPlayerHandedness()
+              );
+              Alert.alert('Referencia guardada', 'El video se usará como modelo de referencia');
+            } catch (error) {
+              console.error('Error creating reference template:', error);
+              Alert.alert('Error', 'No se pudo usar el video como referencia');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleImport = (video: StoredVideo) => {
+    Alert.alert('Importar datos', 'Elige qué quieres importar para este video', [
+      { text: 'Pose (MediaPipe / OpenPose)', onPress: () => handleImportPose(video) },
+      { text: 'Pelota (TrackNet)', onPress: () => handleImportBall(video) },
+      { text: 'Cancelar', style: 'cancel' },
+    ]);
+  };
+
+  /**
+   * Pick a detection file for a video, with the frame size needed for pixel coordinates
+   */
+  const pickImportFile = async (video: StoredVideo) => {
+    // Android rarely tags .json / .csv files; the format is checked when the file is read
+    const picked = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (picked.canceled) return null;
+
+    setImportingVideoId(video.id);
+    // OpenPose keypoints and TrackNet positions are in pixels of the video frame
+    const still = await frameExtractionService.getStillAt(video.uri, 0);
+    return {
+      fileUri: picked.assets[0].uri,
+      importOptions: still ? { frameWidth: still.width, frameHeight: still.height } : undefined,
+    };
+  };
+
+  // Coaches run MediaPipe / OpenPose on their laptops; the imported pose is scored like any other
+  const handleImportPose = async (video: StoredVideo) => {
+    try {
+      const file = await pickImportFile(video);
+      if (!file) return;
+      const { fileUri, importOptions } = file;
+
+      // Drills are split into strokes and each stroke is scored on its own
+      if (video.isDrill) {
+        await aiService.importPoseFile(video.id, fileUri, importOptions);
+        await rallySegmentationService.analyzeDrill(video.id);
+        navigation.navigate('DrillOverview', { videoId: video.id });
+        return;
+      }
+
+      const result = await aiService.analyzeImportedPose({
+        videoId: video.id,
+        fileUri,
+        shotType: video.shotType,
+        importOptions,
+      });
+      await VideoStorageService.updateVideoAnalysis(video.id, result);
+      navigation.navigate('Results', { analysisResult: result, videoUri: video.uri, videoId: video.id });
+    } catch (error) {
+      console.error('Error importing pose file:', error);
+      Alert.alert('Error', isAIAnalysisError(error) ? error.message : 'No se pudo importar el archivo de pose');
+      loadVideos(); // the pose may have been saved even if the analysis failed
+    } finally {
+      setImportingVideoId(null);
+    }
+  };
+
+  // TrackNet (or JSON) detections replace the on-device ball detection for this video
+  const handleImportBall = async (video: StoredVideo) => {
+    try {
+      const file = await pickImportFile(video);
+      if (!file) return;
+      await ballTrackingService.importFile(file.fileUri, video.id, file.importOptions);
+      loadVideos();
+
+      // The pose may have been imported since the list was loaded
+      const updated = await VideoStorageService.getVideo(video.id);
+      if (!updated?.hasPoseTrack) {
+        Alert.alert('Pelota importada', 'Importa también la pose del video para analizar el vuelo de la pelota');
+        return;
+      }
+
+      // Drill strokes are always scored on the device
+      if (updated.isDrill) {
+        await rallySegmentationService.analyzeDrill(updated.id);
+        navigation.navigate('DrillOverview', { videoId: updated.id });
+        return;
+      }
+
+      Alert.alert(
+        'Pelota importada',
+        '¿Quieres volver a analizar el video para incluir el vuelo de la pelota?',
+        [
+          { text: 'Más tarde', style: 'cancel' },
+          {
+            text: 'Analizar',
+            onPress: () => navigation.navigate('Analysis', {
+              videoUri: updated.uri,
+              shotType: updated.shotType,
+              videoId: updated.id,
+            }),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('Error importing ball file:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error || isAIAnalysisError(error) ? error.message : 'No se pudo importar el archivo de la pelota'
+      );
+      loadVideos();
+    } finally {
+      setImportingVideoId(null);
+    }
+  };
+
+  const handleRescore = async () => {
+    try {
+      const summary = await analysisVersionService.rescoreOutdated(setRescoreProgress);
+      const details = [
+        `${summary.rescored} análisis recalculados con las reglas actuales.`,
+        summary.failed > 0 ? `${summary.failed} no se pudieron recalcular.` : '',
+        summary.skipped > 0 ? `${summary.skipped} videos sin datos de pose: vuelve a analizarlos desde el video.` : '',
+      ];
+      Alert.alert('Análisis actualizados', details.filter(Boolean).join('\n'));
+    } catch (error) {
+      console.error('Error rescoring analyses:', error);
+      Alert.alert('Error', 'No se pudieron recalcular los análisis');
+    } finally {
+      setRescoreProgress(null);
+      loadVideos();
+    }
+  };
+
+  const renderRescoreBanner = () => {
+    const outdatedCount = videos.filter(video => analysisVersionService.hasOutdatedAnalysis(video)).length;
+    if (outdatedCount === 0 && !rescoreProgress) return null;
+
+    const message = rescoreProgress
+      ? `Recalculando ${rescoreProgress.completed}/${rescoreProgress.total}...`
+      : `${outdatedCount} ${outdatedCount === 1 ? 'video puntuado' : 'videos puntuados'} con reglas anteriores: ` +
+        'sus notas no son comparables con las nuevas';
+
+    return (
+      <View style={styles.rescoreBanner}>
+        <Ionicons name="git-compare-outline" size={20} color="#f39c12" />
+        <Text style={styles.rescoreText}>{message}</Text>
+        {rescoreProgress ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <TouchableOpacity style={styles.rescoreButton} onPress={handleRescore}>
+            <Text style={styles.rescoreButtonText}>Recalcular</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const handleRetryJob = async (job: AnalysisJob) => {
+    try {
+      await analysisQueueService.retry(job.id);
+    } catch (error) {
+      console.error('Error retrying analysis job:', error);
+      Alert.alert('Error', 'No se pudo reintentar el análisis');
+    }
+  };
+
+  const renderJobStatus = (video: StoredVideo) => {
+    const job = jobsByVideo[video.id];
+
+    if (video.isDrill) {
+      return (
+        <View style={styles.analysisIndicator}>
+          <Ionicons name="list" size={16} color="#3498db" />
+          <Text style={[styles.analysisText, { color: '#3498db' }]}>
+            {video.strokes ? `Ejercicio · ${video.strokes.length} golpes` : 'Ejercicio sin dividir'}
+          </Text>
+        </View>
+      );
+    }
+
+    if (!job) {
+      if (!video.analysisResult) return null;
+
+      const outdated = analysisVersionService.isOutdated(video.analysisResult);
+      return (
+        <View style={styles.analysisIndicator}>
+          <Ionicons
+            name={outdated ? 'git-compare-outline' : 'checkmark-circle'}
+            size={16}
+            color={outdated ? '#f39c12' : '#2ecc71'}
+          />
+          <Text style={[styles.analysisText, outdated && { color: '#f39c12' }]}>
+            {outdated ? 'Analizado con reglas anteriores' : 'Analizado'}
+          </Text>
+        </View>
+      );
+    }
+
+    const info = JOB_STATUS_INFO[job.status];
+    const showProgress = job.status === 'extracting' || job.status === 'scoring';
+
+    return (
+      <View style={styles.analysisIndicator}>
+        <Ionicons name={info.icon} size={16} color={info.color} />
+        <Text style={[styles.analysisText, { color: info.color }]}>
+          {info.label}
+          {showProgress ? ` ${Math.round(job.progress)}%` : ''}
+        </Text>
+        {job.status === 'failed' && (
+          <TouchableOpacity style={styles.retryJobButton} onPress={() => handleRetryJob(job)}>
+            <Ionicons name="refresh" size={14} color="white" />
+            <Text style={styles.retryJobText}>Reintentar</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
   };
 
   const getFilteredVideos = () => {
@@ -122,15 +403,9 @@ export default function VideoHistoryScreen() {
     });
   };
 
-  const getShotTypeIcon = (shotType: string) => {
-    const shot = shotTypes.find(s => s.id === shotType);
-    return shot ? shot.icon : '🎾';
-  };
+  const getShotTypeIcon = (shotType: string) => getShot(shotType)?.icon || '🎾';
 
-  const getShotTypeName = (shotType: string) => {
-    const shot = shotTypes.find(s => s.id === shotType);
-    return shot ? shot.name : shotType;
-  };
+  const getShotTypeName = (shotType: string) => (shotType === 'all' ? 'Todos' : getShotName(shotType));
 
   if (loading) {
     return (
@@ -169,6 +444,8 @@ export default function VideoHistoryScreen() {
         </Text>
       </View>
 
+      {renderRescoreBanner()}
+
       {/* Filter Buttons */}
       <ScrollView
         horizontal
@@ -226,6 +503,7 @@ export default function VideoHistoryScreen() {
               key={video.id}
               style={styles.videoCard}
               onPress={() => handleVideoPress(video)}
+              onLongPress={() => handleUseAsReference(video)}
               activeOpacity={0.8}
             >
               <View style={styles.videoPreview}>
@@ -250,6 +528,17 @@ export default function VideoHistoryScreen() {
                   <Text style={styles.shotTypeName}>
                     {getShotTypeName(video.shotType)}
                   </Text>
+                  {importingVideoId === video.id ? (
+                    <ActivityIndicator size="small" color="white" style={styles.importButton} />
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.importButton}
+                      onPress={() => handleImport(video)}
+                      disabled={importingVideoId !== null}
+                    >
+                      <Ionicons name="cloud-upload-outline" size={16} color="white" />
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity
                     style={styles.deleteButton}
                     onPress={() => handleDeleteVideo(video.id)}
@@ -270,12 +559,7 @@ export default function VideoHistoryScreen() {
                   </Text>
                 </View>
 
-                {video.analysisResult && (
-                  <View style={styles.analysisIndicator}>
-                    <Ionicons name="checkmark-circle" size={16} color="#2ecc71" />
-                    <Text style={styles.analysisText}>Analizado</Text>
-                  </View>
-                )}
+                {renderJobStatus(video)}
               </View>
             </TouchableOpacity>
           ))
@@ -439,6 +723,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: 'white',
   },
+  importButton: {
+    padding: 4,
+    marginRight: 8,
+  },
   deleteButton: {
     padding: 4,
   },
@@ -472,4 +760,45 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontWeight: '600',
   },
+  retryJobButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(231, 76, 60, 0.8)',
+  },
+  retryJobText: {
+    fontSize: 12,
+    color: 'white',
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  rescoreBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  rescoreText: {
+    flex: 1,
+    color: 'white',
+    fontSize: 13,
+    marginHorizontal: 10,
+  },
+  rescoreButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#f39c12',
+  },
+  rescoreButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
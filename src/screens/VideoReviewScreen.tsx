@@ -0,0 +1,1078 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  GestureResponderEvent,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { Video, AVPlaybackStatus, VideoReadyForDisplayEvent } from 'expo-av';
+import Svg, { Circle, G, Image as SvgImage, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import { RootStackParamList } from '../../App';
+import { VideoStorageService, StoredVideo, VideoMarker } from '../services/videoStorageService';
+import { SHOT_PHASE_COLORS, SHOT_PHASE_LABELS, ShotPhase } from '../services/shotPhaseService';
+import { frameExtractionService } from '../services/frameExtractionService';
+import {
+  telestratorService,
+  DrawingShape,
+  DrawingTool,
+  FrameDrawing,
+} from '../services/telestratorService';
+import { PoseGeometry, Point2D } from '../utils/poseGeometry';
+import { AppUtils } from '../utils/appUtils';
+import { appConfig } from '../config/appConfig';
+import { getShotName } from '../config/shotRegistry';
+
+type VideoReviewScreenNavigationProp = StackNavigationProp<RootStackParamList, 'VideoReview'>;
+type VideoReviewScreenRouteProp = RouteProp<RootStackParamList, 'VideoReview'>;
+
+/**
+ * Marcador de la barra de tiempo: los del jugador se guardan con el video,
+ * los de fase salen del análisis
+ */
+interface ReviewMarker {
+  key: string;
+  time: number; // ms desde el inicio del video
+  label: string;
+  color: string;
+  markerId?: string; // solo en los marcadores del jugador
+}
+
+const DRAWING_TOOLS: Record<DrawingTool, { name: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  line: { name: 'Línea', icon: 'remove-outline' },
+  arrow: { name: 'Flecha', icon: 'arrow-forward' },
+  circle: { name: 'Círculo', icon: 'ellipse-outline' },
+  angle: { name: 'Ángulo', icon: 'analytics-outline' },
+};
+
+const DRAWING_COLORS = ['#FFEB3B', '#F44336', '#4CAF50', '#FFFFFF'];
+
+const { width } = Dimensions.get('window');
+const MAX_PLAYER_WIDTH = width - 40;
+const MAX_PLAYER_HEIGHT = 420;
+const DEFAULT_FRAME_ASPECT = 9 / 16;
+
+const USER_MARKER_COLOR = '#FFEB3B';
+const DRAWING_MARKER_COLOR = '#4FC3F7';
+const LOOP_COLOR = 'rgba(255, 235, 59, 0.25)';
+const FRAME_DURATION = 1000 / appConfig.review.frameRate;
+const DRAWING_STROKE_WIDTH = 3;
+const ARROW_HEAD_LENGTH = 14; // px
+
+export default function VideoReviewScreen() {
+  const navigation = useNavigation<VideoReviewScreenNavigationProp>();
+  const route = useRoute<VideoReviewScreenRouteProp>();
+  const { videoId } = route.params;
+
+  const videoRef = useRef<Video>(null);
+  const [video, setVideo] = useState<StoredVideo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [timelineWidth, setTimelineWidth] = useState(0);
+  const [frameAspect, setFrameAspect] = useState(DEFAULT_FRAME_ASPECT);
+
+  // Dibujo sobre el frame pausado
+  const svgRef = useRef<Svg>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [drawingTime, setDrawingTime] = useState(0);
+  const [editingDrawingId, setEditingDrawingId] = useState<string | null>(null);
+  const [shapes, setShapes] = useState<DrawingShape[]>([]);
+  const [draft, setDraft] = useState<Point2D[] | null>(null); // trazo en curso
+  const [isStroking, setIsStroking] = useState(false);
+  const [tool, setTool] = useState<DrawingTool>('line');
+  const [drawColor, setDrawColor] = useState(DRAWING_COLORS[0]);
+  const [frameStill, setFrameStill] = useState<string | null>(null);
+
+  // El reproductor toma la proporción del video para que los dibujos coincidan con el frame
+  const playerWidth = Math.min(MAX_PLAYER_WIDTH, MAX_PLAYER_HEIGHT * frameAspect);
+  const playerHeight = playerWidth / frameAspect;
+
+  useEffect(() => {
+    loadVideo();
+  }, [videoId]);
+
+  const loadVideo = async () => {
+    try {
+      setLoading(true);
+      const storedVideo = await VideoStorageService.getVideo(videoId);
+      setVideo(storedVideo);
+      if (storedVideo) {
+        setDuration(storedVideo.duration * 1000);
+      }
+    } catch (error) {
+      console.error('Error loading video for review:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Inicio de cada fase y final del golpe en los análisis del video; en un ejercicio, de cada golpe
+   */
+  const getPhaseMarkers = (storedVideo: StoredVideo): ReviewMarker[] => {
+    const analyses: Array<{ result: any; offset: number; prefix: string }> = storedVideo.isDrill
+      ? (storedVideo.strokes || []).flatMap(stroke =>
+          stroke.analysisResult
+            ? [{
+                result: stroke.analysisResult,
+                offset: stroke.analysisResult.clip?.startTime ?? stroke.startTime,
+                prefix: `Golpe ${stroke.index + 1} · `,
+              }]
+            : []
+        )
+      : storedVideo.analysisResult
+        ? [{ result: storedVideo.analysisResult, offset: 0, prefix: '' }]
+        : [];
+
+    return analyses.flatMap(({ result, offset, prefix }, index) => {
+      const phases: ShotPhase[] = result.phases || [];
+      if (phases.length === 0) return [];
+
+      const last = phases[phases.length - 1];
+      return [
+        ...phases.map(phase => ({
+          key: `phase-${index}-${phase.name}`,
+          time: phase.startTime + offset,
+          label: `${prefix}${SHOT_PHASE_LABELS[phase.name]}`,
+          color: SHOT_PHASE_COLORS[phase.name],
+        })),
+        {
+          key: `phase-${index}-end`,
+          time: last.endTime + offset,
+          label: `${prefix}Fin del golpe`,
+          color: SHOT_PHASE_COLORS[last.name],
+        },
+      ];
+    });
+  };
+
+  const getUserMarkers = (storedVideo: StoredVideo): ReviewMarker[] =>
+    (storedVideo.markers || []).map((marker, index) => ({
+      key: `marker-${marker.id}`,
+      time: marker.time,
+      label: marker.label || `Marcador ${index + 1}`,
+      color: USER_MARKER_COLOR,
+      markerId: marker.id,
+    }));
+
+  const handlePlaybackStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    setPosition(status.positionMillis);
+    setIsPlaying(status.isPlaying);
+    if (status.durationMillis) {
+      setDuration(status.durationMillis);
+    }
+
+    // Bucle A-B: al llegar a B vuelve a A
+    if (loopStart !== null && loopEnd !== null && status.isPlaying && status.positionMillis >= loopEnd) {
+      seekTo(loopStart);
+    }
+  };
+
+  const seekTo = (milliseconds: number) => {
+    const target = Math.min(Math.max(0, milliseconds), duration || milliseconds);
+    setPosition(target);
+    videoRef.current
+      ?.setPositionAsync(target, { toleranceMillisBefore: 0, toleranceMillisAfter: 0 })
+      .catch(error => console.warn('Could not seek video:', error));
+  };
+
+  const handlePlayPause = async () => {
+    try {
+      if (isPlaying) {
+        await videoRef.current?.pauseAsync();
+      } else {
+        // Dentro de un bucle A-B la reproducción empieza en A
+        if (loopStart !== null && loopEnd !== null && (position < loopStart || position >= loopEnd)) {
+          await videoRef.current?.setPositionAsync(loopStart, { toleranceMillisBefore: 0, toleranceMillisAfter: 0 });
+        }
+        await videoRef.current?.playAsync();
+      }
+    } catch (error) {
+      console.warn('Could not change playback:', error);
+    }
+  };
+
+  const handleStepFrame = async (direction: 1 | -1) => {
+    try {
+      await videoRef.current?.pauseAsync();
+    } catch (error) {
+      console.warn('Could not pause video:', error);
+    }
+    seekTo(position + direction * FRAME_DURATION);
+  };
+
+  const handleRateChange = async (newRate: number) => {
+    try {
+      await videoRef.current?.setRateAsync(newRate, true);
+      setRate(newRate);
+    } catch (error) {
+      console.warn('Could not change playback rate:', error);
+    }
+  };
+
+  const handleSetLoopStart = () => {
+    setLoopStart(position);
+    if (loopEnd !== null && loopEnd <= position) {
+      setLoopEnd(null);
+    }
+  };
+
+  const handleSetLoopEnd = () => {
+    if (loopStart === null || position <= loopStart) {
+      Alert.alert('Bucle A-B', 'Marca primero el punto A y avanza el video hasta el punto B');
+      return;
+    }
+    setLoopEnd(position);
+    seekTo(loopStart);
+  };
+
+  const handleClearLoop = () => {
+    setLoopStart(null);
+    setLoopEnd(null);
+  };
+
+  const handleAddMarker = async () => {
+    if (!video) return;
+
+    try {
+      const markers = await VideoStorageService.addMarker(video.id, position);
+      setVideo({ ...video, markers });
+    } catch (error) {
+      console.error('Error adding marker:', error);
+      Alert.alert('Error', 'No se pudo guardar el marcador');
+    }
+  };
+
+  const handleDeleteMarker = (marker: ReviewMarker) => {
+    if (!video || !marker.markerId) return;
+    const markerId = marker.markerId;
+
+    Alert.alert('Eliminar marcador', `¿Eliminar "${marker.label}"?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Eliminar',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const markers: VideoMarker[] = await VideoStorageService.deleteMarker(video.id, markerId);
+            setVideo({ ...video, markers });
+          } catch (error) {
+            console.error('Error deleting marker:', error);
+            Alert.alert('Error', 'No se pudo eliminar el marcador');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleReadyForDisplay = (event: VideoReadyForDisplayEvent) => {
+    const { width: naturalWidth, height: naturalHeight, orientation } = event.naturalSize;
+    if (!naturalWidth || !naturalHeight) return;
+
+    const longSide = Math.max(naturalWidth, naturalHeight);
+    const shortSide = Math.min(naturalWidth, naturalHeight);
+    setFrameAspect(orientation === 'portrait' ? shortSide / longSide : longSide / shortSide);
+  };
+
+  const findDrawingAt = (time: number): FrameDrawing | undefined =>
+    video?.drawings?.find(drawing => Math.abs(drawing.time - time) <= FRAME_DURATION / 2);
+
+  /**
+   * Pausa el video en el frame y abre sus dibujos, si ya los tiene
+   */
+  const openDrawing = async (time: number) => {
+    if (!video) return;
+
+    try {
+      await videoRef.current?.pauseAsync();
+    } catch (error) {
+      console.warn('Could not pause video:', error);
+    }
+    seekTo(time);
+
+    const existing = findDrawingAt(time);
+    setEditingDrawingId(existing?.id || null);
+    setDrawingTime(existing ? existing.time : time);
+    setShapes(existing?.shapes || []);
+    setDraft(null);
+    setFrameStill(null);
+    setIsDrawing(true);
+
+    // El frame va dentro del dibujo para que la imagen exportada lo incluya
+    const still = await frameExtractionService.getStillAt(video.uri, existing ? existing.time : time);
+    setFrameStill(still?.uri || null);
+  };
+
+  const handleCloseDrawing = () => {
+    setIsDrawing(false);
+    setDraft(null);
+  };
+
+  const toFramePoint = (event: GestureResponderEvent): Point2D => ({
+    x: Math.min(1, Math.max(0, event.nativeEvent.locationX / playerWidth)),
+    y: Math.min(1, Math.max(0, event.nativeEvent.locationY / playerHeight)),
+  });
+
+  // El ángulo se dibuja en dos trazos desde el vértice: draft = [extremo, vértice, extremo]
+  const handleDrawStart = (event: GestureResponderEvent) => {
+    const point = toFramePoint(event);
+    setIsStroking(true);
+    if (tool === 'angle' && draft?.length === 2) {
+      setDraft([...draft, point]);
+    } else {
+      setDraft([point, point]);
+    }
+  };
+
+  const handleDrawMove = (event: GestureResponderEvent) => {
+    if (!draft) return;
+    const point = toFramePoint(event);
+
+    if (tool === 'angle' && draft.length === 2) {
+      setDraft([point, draft[1]]);
+    } else {
+      setDraft([...draft.slice(0, -1), point]);
+    }
+  };
+
+  const handleDrawEnd = () => {
+    setIsStroking(false);
+    if (!draft) return;
+
+    if (tool === 'angle' && draft.length === 2) {
+      // Primer brazo: se queda pendiente del segundo si tiene longitud
+      if (PoseGeometry.distance(draft[0], draft[1]) === 0) setDraft(null);
+      return;
+    }
+
+    const shape = telestratorService.createShape(tool, draft, drawColor);
+    if (shape) {
+      setShapes([...shapes, shape]);
+    }
+    setDraft(null);
+  };
+
+  const handleToolChange = (newTool: DrawingTool) => {
+    setTool(newTool);
+    setDraft(null);
+  };
+
+  const handleUndo = () => {
+    if (draft) {
+      setDraft(null);
+      return;
+    }
+    setShapes(shapes.slice(0, -1));
+  };
+
+  const handleSaveDrawing = async () => {
+    if (!video) return;
+
+    try {
+      let drawings: FrameDrawing[];
+      if (shapes.length > 0) {
+        const drawing: FrameDrawing = { id: editingDrawingId || AppUtils.generateId(), time: drawingTime, shapes };
+        drawings = await VideoStorageService.saveDrawing(video.id, drawing);
+      } else if (editingDrawingId) {
+        drawings = await VideoStorageService.deleteDrawing(video.id, editingDrawingId);
+      } else {
+        drawings = video.drawings || [];
+      }
+      setVideo({ ...video, drawings });
+      handleCloseDrawing();
+    } catch (error) {
+      console.error('Error saving drawing:', error);
+      Alert.alert('Error', 'No se pudo guardar el dibujo');
+    }
+  };
+
+  const handleShareDrawing = () => {
+    if (!video || !svgRef.current) return;
+
+    svgRef.current.toDataURL(async (base64: string) => {
+      try {
+        await telestratorService.shareSnapshot(base64, video.id, drawingTime);
+      } catch (error) {
+        console.error('Error exporting drawing:', error);
+        Alert.alert('Error', 'No se pudo exportar el dibujo');
+      }
+    });
+  };
+
+  const handleDeleteDrawing = (drawing: FrameDrawing) => {
+    if (!video) return;
+
+    Alert.alert('Eliminar dibujo', `¿Eliminar el dibujo de ${formatTime(drawing.time)}?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Eliminar',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const drawings = await VideoStorageService.deleteDrawing(video.id, drawing.id);
+            setVideo({ ...video, drawings });
+          } catch (error) {
+            console.error('Error deleting drawing:', error);
+            Alert.alert('Error', 'No se pudo eliminar el dibujo');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderShape = (shape: Pick<DrawingShape, 'tool' | 'points' | 'color'>, key: string) => {
+    const points = shape.points.map(point => ({ x: point.x * playerWidth, y: point.y * playerHeight }));
+    const stroke = {
+      stroke: shape.color,
+      strokeWidth: DRAWING_STROKE_WIDTH,
+      strokeLinecap: 'round' as const,
+      strokeLinejoin: 'round' as const,
+      fill: 'none',
+    };
+    const toPolyline = (list: Point2D[]) => list.map(point => `${point.x},${point.y}`).join(' ');
+
+    switch (shape.tool) {
+      case 'line':
+        return <Line key={key} x1={points[0].x} y1={points[0].y} x2={points[1].x} y2={points[1].y} {...stroke} />;
+      case 'arrow': {
+        const [left, right] = telestratorService.getArrowHead(points[0], points[1], ARROW_HEAD_LENGTH);
+        return (
+          <G key={key}>
+            <Line x1={points[0].x} y1={points[0].y} x2={points[1].x} y2={points[1].y} {...stroke} />
+            <Polyline points={toPolyline([left, points[1], right])} {...stroke} />
+          </G>
+        );
+      }
+      case 'circle':
+        return (
+          <Circle
+            key={key}
+            cx={points[0].x}
+            cy={points[0].y}
+            r={PoseGeometry.distance(points[0], points[1])}
+            {...stroke}
+          />
+        );
+      case 'angle': {
+        const angle = telestratorService.measureAngle(shape, frameAspect);
+        const vertex = points[1];
+        return (
+          <G key={key}>
+            <Polyline points={toPolyline(points)} {...stroke} />
+            <Circle cx={vertex.x} cy={vertex.y} r={4} fill={shape.color} />
+            {angle !== null && (
+              <SvgText
+                x={vertex.x + 8}
+                y={vertex.y - 8}
+                fill={shape.color}
+                stroke="black"
+                strokeWidth={0.5}
+                fontSize={18}
+                fontWeight="bold"
+              >
+                {angle}°
+              </SvgText>
+            )}
+          </G>
+        );
+      }
+    }
+  };
+
+  const getDrawingHint = () => {
+    const name = DRAWING_TOOLS[tool].name;
+    if (tool !== 'angle') return `${name}: arrastra sobre el frame para dibujar`;
+    return draft?.length === 2 && !isStroking
+      ? `${name}: arrastra para trazar el segundo brazo`
+      : `${name}: arrastra desde el vértice para trazar cada brazo`;
+  };
+
+  const handleAnalyze = () => {
+    if (!video) return;
+    navigation.navigate('Analysis', { videoUri: video.uri, shotType: video.shotType, videoId: video.id });
+  };
+
+  const formatTime = (milliseconds: number) => `${(Math.max(0, milliseconds) / 1000).toFixed(2)}s`;
+
+  const toFraction = (milliseconds: number) =>
+    duration > 0 ? Math.min(1, Math.max(0, milliseconds / duration)) : 0;
+
+  const handleScrub = (event: GestureResponderEvent) => {
+    if (timelineWidth === 0 || duration === 0) return;
+    seekTo((event.nativeEvent.locationX / timelineWidth) * duration);
+  };
+
+  if (loading) {
+    return (
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="white" />
+        <Text style={styles.loadingText}>Cargando video...</Text>
+      </LinearGradient>
+    );
+  }
+
+  if (!video) {
+    return (
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.loadingContainer}>
+        <Ionicons name="alert-circle" size={48} color="white" />
+        <Text style={styles.loadingText}>No se encontró el video</Text>
+        <TouchableOpacity style={styles.textButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.textButtonText}>Volver</Text>
+        </TouchableOpacity>
+      </LinearGradient>
+    );
+  }
+
+  const markers = [...getPhaseMarkers(video), ...getUserMarkers(video)].sort((a, b) => a.time - b.time);
+  const hasLoop = loopStart !== null && loopEnd !== null;
+  const drawings = video.drawings || [];
+  const visibleDrawing = !isPlaying ? findDrawingAt(position) : undefined;
+
+  return (
+    <LinearGradient
+      colors={['#667eea', '#764ba2', '#f093fb']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{getShotName(video.shotType)}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={handleAnalyze}>
+          <Ionicons name="analytics" size={22} color="white" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.player, { width: playerWidth, height: playerHeight }]}>
+          <Video
+            ref={videoRef}
+            source={{ uri: video.uri }}
+            style={{ width: playerWidth, height: playerHeight }}
+            resizeMode={"contain" as any}
+            progressUpdateIntervalMillis={appConfig.review.progressUpdateInterval}
+            onPlaybackStatusUpdate={handlePlaybackStatus}
+            onReadyForDisplay={handleReadyForDisplay}
+          />
+
+          {(isDrawing || visibleDrawing) && (
+            <View
+              style={StyleSheet.absoluteFill}
+              pointerEvents={isDrawing ? 'auto' : 'none'}
+              onStartShouldSetResponder={() => isDrawing}
+              onMoveShouldSetResponder={() => isDrawing}
+              onResponderTerminationRequest={() => false}
+              onResponderGrant={handleDrawStart}
+              onResponderMove={handleDrawMove}
+              onResponderRelease={handleDrawEnd}
+            >
+              <Svg ref={svgRef} width={playerWidth} height={playerHeight} pointerEvents="none">
+                {isDrawing && frameStill && (
+                  <SvgImage
+                    href={{ uri: frameStill }}
+                    width={playerWidth}
+                    height={playerHeight}
+                    preserveAspectRatio="xMidYMid slice"
+                  />
+                )}
+                {(isDrawing ? shapes : visibleDrawing?.shapes || []).map(shape => renderShape(shape, shape.id))}
+                {isDrawing && draft && renderShape({ tool, points: draft, color: drawColor }, 'draft')}
+              </Svg>
+            </View>
+          )}
+        </View>
+
+        {isDrawing ? (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Dibujo en {formatTime(drawingTime)}</Text>
+              <TouchableOpacity onPress={handleCloseDrawing}>
+                <Ionicons name="close" size={24} color="white" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.optionRow}>
+              {(Object.keys(DRAWING_TOOLS) as DrawingTool[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, tool === option && styles.chipActive]}
+                  onPress={() => handleToolChange(option)}
+                >
+                  <Ionicons
+                    name={DRAWING_TOOLS[option].icon}
+                    size={18}
+                    color={tool === option ? '#667eea' : 'white'}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.optionRow}>
+              {DRAWING_COLORS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[styles.colorSwatch, { backgroundColor: color }, drawColor === color && styles.colorSwatchActive]}
+                  onPress={() => setDrawColor(color)}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.hintText}>{getDrawingHint()}</Text>
+
+            <View style={[styles.optionRow, styles.drawingActions]}>
+              <TouchableOpacity style={styles.chip} onPress={handleUndo}>
+                <Ionicons name="arrow-undo" size={16} color="white" />
+                <Text style={[styles.chipText, styles.chipLabel]}>Deshacer</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.chip} onPress={handleShareDrawing}>
+                <Ionicons name="share-outline" size={16} color="white" />
+                <Text style={[styles.chipText, styles.chipLabel]}>Compartir</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.chip, styles.chipActive]} onPress={handleSaveDrawing}>
+                <Ionicons name="checkmark" size={16} color="#667eea" />
+                <Text style={[styles.chipText, styles.chipLabel, styles.chipTextActive]}>Guardar</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <View
+              style={styles.scrubber}
+              onLayout={event => setTimelineWidth(event.nativeEvent.layout.width)}
+              onStartShouldSetResponder={() => true}
+              onMoveShouldSetResponder={() => true}
+              onResponderTerminationRequest={() => false}
+              onResponderGrant={handleScrub}
+              onResponderMove={handleScrub}
+            >
+              <View style={styles.scrubberTrack} pointerEvents="none">
+                <View style={[styles.scrubberFill, { width: `${toFraction(position) * 100}%` }]} />
+              </View>
+              {loopStart !== null && (
+                <View
+                  pointerEvents="none"
+                  style={[
+                    styles.loopRegion,
+                    {
+                      left: `${toFraction(loopStart) * 100}%`,
+                      width: `${Math.max(0, toFraction(loopEnd ?? position) - toFraction(loopStart)) * 100}%`,
+                    },
+                  ]}
+                />
+              )}
+              {markers.map(marker => (
+                <View
+                  key={marker.key}
+                  pointerEvents="none"
+                  style={[
+                    styles.markerTick,
+                    { left: `${toFraction(marker.time) * 100}%`, backgroundColor: marker.color },
+                  ]}
+                />
+              ))}
+              {drawings.map(drawing => (
+                <View
+                  key={drawing.id}
+                  pointerEvents="none"
+                  style={[
+                    styles.markerTick,
+                    { left: `${toFraction(drawing.time) * 100}%`, backgroundColor: DRAWING_MARKER_COLOR },
+                  ]}
+                />
+              ))}
+              <View pointerEvents="none" style={[styles.playhead, { left: `${toFraction(position) * 100}%` }]} />
+            </View>
+
+            <View style={styles.timeRow}>
+              <Text style={styles.timeText}>{formatTime(position)}</Text>
+              <Text style={styles.timeText}>{formatTime(duration)}</Text>
+            </View>
+
+            <View style={styles.transportRow}>
+              <TouchableOpacity style={styles.transportButton} onPress={() => handleStepFrame(-1)}>
+                <Ionicons name="play-skip-back" size={22} color="white" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.playButton} onPress={handlePlayPause}>
+                <Ionicons name={isPlaying ? 'pause' : 'play'} size={30} color="#667eea" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.transportButton} onPress={() => handleStepFrame(1)}>
+                <Ionicons name="play-skip-forward" size={22} color="white" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.optionRow}>
+              {appConfig.review.playbackRates.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, rate === option && styles.chipActive]}
+                  onPress={() => handleRateChange(option)}
+                >
+                  <Text style={[styles.chipText, rate === option && styles.chipTextActive]}>{option}x</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.optionRow}>
+              <TouchableOpacity
+                style={[styles.chip, loopStart !== null && styles.chipActive]}
+                onPress={handleSetLoopStart}
+              >
+                <Text style={[styles.chipText, loopStart !== null && styles.chipTextActive]}>
+                  A{loopStart !== null ? ` ${formatTime(loopStart)}` : ''}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.chip, loopEnd !== null && styles.chipActive]}
+                onPress={handleSetLoopEnd}
+              >
+                <Text style={[styles.chipText, loopEnd !== null && styles.chipTextActive]}>
+                  B{loopEnd !== null ? ` ${formatTime(loopEnd)}` : ''}
+                </Text>
+              </TouchableOpacity>
+              {(loopStart !== null || loopEnd !== null) && (
+                <TouchableOpacity style={styles.chip} onPress={handleClearLoop}>
+                  <Ionicons name="close" size={16} color="white" />
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.hintText}>
+              {hasLoop
+                ? 'Reproduciendo en bucle entre A y B'
+                : 'Marca A y B para repetir un tramo del golpe'}
+            </Text>
+
+            <TouchableOpacity style={styles.drawButton} onPress={() => openDrawing(position)}>
+              <Ionicons name="brush" size={18} color="#667eea" />
+              <Text style={styles.drawButtonText}>
+                {visibleDrawing ? 'Editar dibujo de este frame' : 'Dibujar sobre este frame'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Marcadores</Text>
+            <TouchableOpacity style={styles.addMarkerButton} onPress={handleAddMarker}>
+              <Ionicons name="bookmark" size={16} color="#667eea" />
+              <Text style={styles.addMarkerText}>Marcar {formatTime(position)}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {markers.length === 0 ? (
+            <Text style={styles.hintText}>
+              Analiza el video para ver sus fases o añade tus propios marcadores
+            </Text>
+          ) : (
+            markers.map(marker => (
+              <TouchableOpacity key={marker.key} style={styles.markerRow} onPress={() => seekTo(marker.time)}>
+                <View style={[styles.markerDot, { backgroundColor: marker.color }]} />
+                <Text style={styles.markerLabel}>{marker.label}</Text>
+                <Text style={styles.markerTime}>{formatTime(marker.time)}</Text>
+                {marker.markerId ? (
+                  <TouchableOpacity style={styles.markerDelete} onPress={() => handleDeleteMarker(marker)}>
+                    <Ionicons name="trash-outline" size={16} color="rgba(255, 255, 255, 0.8)" />
+                  </TouchableOpacity>
+                ) : (
+                  <View style={styles.markerDelete} />
+                )}
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        {drawings.length > 0 && (
+          <View style={styles.card}>
+            <Text style={[styles.cardTitle, styles.cardTitleSpaced]}>Dibujos</Text>
+            {drawings.map(drawing => (
+              <TouchableOpacity key={drawing.id} style={styles.markerRow} onPress={() => openDrawing(drawing.time)}>
+                <View style={[styles.markerDot, { backgroundColor: DRAWING_MARKER_COLOR }]} />
+                <Text style={styles.markerLabel}>
+                  {drawing.shapes.length} {drawing.shapes.length === 1 ? 'trazo' : 'trazos'}
+                </Text>
+                <Text style={styles.markerTime}>{formatTime(drawing.time)}</Text>
+                <TouchableOpacity style={styles.markerDelete} onPress={() => handleDeleteDrawing(drawing)}>
+                  <Ionicons name="trash-outline" size={16} color="rgba(255, 255, 255, 0.8)" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: 'white',
+    fontSize: 16,
+    marginTop: 20,
+  },
+  textButton: {
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: 'white',
+  },
+  textButtonText: {
+    color: '#667eea',
+    fontWeight: 'bold',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+  },
+  player: {
+    alignSelf: 'center',
+    borderRadius: 15,
+    overflow: 'hidden',
+    backgroundColor: 'black',
+    marginBottom: 20,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  cardTitleSpaced: {
+    marginBottom: 10,
+  },
+  scrubber: {
+    height: 34,
+    justifyContent: 'center',
+  },
+  scrubberTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    overflow: 'hidden',
+  },
+  scrubberFill: {
+    height: '100%',
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+  },
+  loopRegion: {
+    position: 'absolute',
+    top: 5,
+    height: 24,
+    backgroundColor: LOOP_COLOR,
+    borderRadius: 4,
+  },
+  markerTick: {
+    position: 'absolute',
+    top: 7,
+    width: 3,
+    height: 20,
+    marginLeft: -1.5,
+    borderRadius: 1.5,
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    width: 2,
+    height: 34,
+    marginLeft: -1,
+    backgroundColor: 'white',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  timeText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  transportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginVertical: 15,
+  },
+  transportButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 15,
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 5,
+  },
+  chipActive: {
+    backgroundColor: 'white',
+  },
+  chipText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: '#667eea',
+  },
+  hintText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+  },
+  chipLabel: {
+    marginLeft: 5,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginHorizontal: 8,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  colorSwatchActive: {
+    borderColor: 'white',
+    transform: [{ scale: 1.15 }],
+  },
+  drawingActions: {
+    flexWrap: 'wrap',
+    marginTop: 15,
+    marginBottom: 0,
+  },
+  drawButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginTop: 15,
+  },
+  drawButtonText: {
+    color: '#667eea',
+    fontWeight: '600',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  addMarkerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+  },
+  addMarkerText: {
+    color: '#667eea',
+    fontWeight: '600',
+    fontSize: 13,
+    marginLeft: 5,
+  },
+  markerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  markerDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  markerLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: 'white',
+  },
+  markerTime: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginRight: 10,
+  },
+  markerDelete: {
+    width: 24,
+    alignItems: 'center',
+  },
+});
@@ -1,33 +1,133 @@
-import { analysisService, AnalysisResult as BackendAnalysisResult } from './analysisService';
+import {
+  analysisService,
+  AnalysisResult as BackendAnalysisResult,
+  AnalysisScores,
+  DetectedShot,
+  DimensionResult,
+  FlatAnalysisScores,
+  Improvement,
+} from './analysisService';
 import { videoService } from './videoService';
 import { authService } from './authService';
+import { poseService, Handedness, PoseTrack } from './poseService';
+import { poseImportService, PoseImportOptions } from './poseImportService';
+import { techniqueEvaluator, EvaluationContext, RacketSpeedEstimate, TechniqueEvaluation } from './techniqueEvaluator';
+import { ShotPhase } from './shotPhaseService';
+import { improvementService } from './improvementService';
+import { annotationService, AnalysisAnnotation } from './annotationService';
+import { shotClassifier } from './shotClassifier';
+import { referenceTemplateService, TemplateComparison } from './referenceTemplateService';
+import { storageService } from './storageService';
+import { ballTrackingService, BallAnalysis } from './ballTrackingService';
+import { injuryRiskService, InjuryRiskAssessment } from './injuryRiskService';
+import { VideoStorageService } from './videoStorageService';
 import { API_CONFIG, DEV_CONFIG } from '../config/apiConfig';
+import { appConfig } from '../config/appConfig';
+import { CameraAngle, DEFAULT_CAMERA_ANGLE } from '../config/cameraAngles';
+import { DEFAULT_PLAYER_LEVEL, PlayerLevel } from '../config/techniqueRules';
 
 export interface AnalysisRequest {
   videoUri: string;
   shotType: string;
   userId?: string;
+  videoId?: string;
+  onUploadProgress?: (percentage: number) => void;
+}
+
+export interface PoseImportRequest {
+  videoId: string;
+  fileUri: string;
+  shotType: string;
+  importOptions?: PoseImportOptions;
+}
+
+/**
+ * Tramo de un video de ejercicio analizado como golpe independiente
+ */
+export interface AnalysisClip {
+  parentVideoId: string;
+  strokeIndex: number;
+  startTime: number; // ms desde el inicio del video padre
+  endTime: number; // ms
 }
 
 export interface AnalysisResult {
   overallScore: number;
-  posture: number;
-  timing: number;
-  followThrough: number;
-  power: number;
-  improvements: string[];
+  posture: DimensionResult;
+  timing: DimensionResult;
+  followThrough: DimensionResult;
+  power: DimensionResult;
+  footwork?: DimensionResult; // sin ella en los análisis anteriores al juego de pies
+  improvements: Improvement[];
+  phases?: ShotPhase[];
+  annotations?: AnalysisAnnotation[]; // momentos del golpe en los que se ha disparado una regla
   shotType: string;
+  detectedShot?: DetectedShot; // golpe que reconoce el clasificador en la pose
+  clip?: AnalysisClip; // solo en los golpes de un ejercicio
+  reference?: TemplateComparison; // comparación con el modelo de referencia del golpe
+  handedness?: Handedness; // mano del jugador con la que se evaluó la pose
+  cameraAngle?: CameraAngle; // ángulo de grabación, elegido por el jugador o detectado
+  ball?: BallAnalysis; // vuelo de la pelota tras el impacto, si el video tiene detecciones
+  racketSpeed?: RacketSpeedEstimate; // velocidad de la pala en el impacto en la que se basa la potencia
+  injuryRisk?: InjuryRiskAssessment; // avisos por ángulos articulares, aparte de las puntuaciones
   confidence: number;
   processingTime: number;
   timestamp: string;
+  engineVersion: string; // versión de las reglas de puntuación con la que se calculó
+  isSimulated: boolean; // puntuaciones inventadas (modo demo), no medidas sobre el video
 }
 
+/**
+ * Resultado con puntuaciones planas y mejoras como texto (formato anterior)
+ */
+export type LegacyAnalysisResult = Omit<
+  AnalysisResult,
+  keyof FlatAnalysisScores | 'improvements' | 'engineVersion' | 'isSimulated'
+> &
+  FlatAnalysisScores & {
+    improvements: Array<Improvement | string>;
+    engineVersion?: string;
+    isSimulated?: boolean;
+  };
+
+export type AIAnalysisErrorCode =
+  | 'AUTH_REQUIRED' // hace falta iniciar sesión
+  | 'UPLOAD_FAILED' // no se pudo subir el video
+  | 'MODEL_UNAVAILABLE' // no hay modelo/pose con el que analizar el video
+  | 'POSE_TRACK_MISSING' // el video no tiene pose guardada: hay que importarla
+  | 'LOW_CONFIDENCE' // la pose no se detecta con suficiente claridad
+  | 'INVALID_CLIP' // el video o su secuencia de pose no son válidos
+  | 'ANALYSIS_SAVE_FAILED' // el análisis no se pudo guardar en el servidor
+  | 'POSE_IMPORT_FAILED'; // el archivo de pose no se pudo importar
+
+export const POSE_TRACK_REQUIRED_MESSAGE =
+  'Este video no tiene datos de pose. Impórtalos (MediaPipe u OpenPose) desde Videos Guardados para analizarlo';
+
 export interface AIAnalysisError {
-  code: string;
+  code: AIAnalysisErrorCode;
   message: string;
   details?: any;
 }
 
+/**
+ * Crea un error estructurado de análisis
+ */
+export const createAIAnalysisError = (
+  code: AIAnalysisErrorCode,
+  message: string,
+  details?: any
+): AIAnalysisError => ({
+  code,
+  message,
+  details,
+});
+
+export const isAIAnalysisError = (error: unknown): error is AIAnalysisError =>
+  !!error &&
+  typeof error === 'object' &&
+  typeof (error as AIAnalysisError).code === 'string' &&
+  typeof (error as AIAnalysisError).message === 'string';
+
 class AIService {
   constructor() {
     // API configuration is handled by the individual services
@@ -40,7 +140,7 @@ class AIService {
     try {
       const startTime = Date.now();
 
-      // Check if we should use mock data
+      // Simulated results only when explicitly enabled for development
       if (DEV_CONFIG.USE_MOCK_DATA) {
         console.log('Using mock data for analysis');
         return this.generateMockAnalysis(request.shotType);
@@ -49,44 +149,59 @@ class AIService {
       // Check if user is authenticated
       const user = await authService.getCurrentUser();
       if (!user) {
-        throw this.createError('AUTH_REQUIRED', 'Usuario no autenticado');
+        throw this.createError('AUTH_REQUIRED', 'Inicia sesión para analizar tus golpes');
+      }
+
+      // Scores come from the pose track stored with the video
+      const track = request.videoId ? await poseService.getTrack(request.videoId) : null;
+      if (!track) {
+        throw this.createError('POSE_TRACK_MISSING', POSE_TRACK_REQUIRED_MESSAGE);
       }
+      const context = await this.getEvaluationContext(track);
+      const evaluation = this.evaluateTrack(track, request.shotType, context);
 
-      // Step 1: Upload video if needed
+      // Step 1: Upload video
       let videoResult;
       try {
-        videoResult = await this.uploadVideoForAnalysis(request.videoUri);
+        videoResult = await this.uploadVideoForAnalysis(request.videoUri, request.onUploadProgress);
       } catch (error) {
-        console.warn('Video upload failed, using mock analysis:', error);
-        return this.generateMockAnalysis(request.shotType);
+        throw this.createError('UPLOAD_FAILED', 'No se pudo subir el video. Comprueba tu conexión', error);
       }
 
       // Step 2: Create analysis request
       const analysisData = {
         shotType: request.shotType,
-        results: {
-          overallScore: 85, // These would come from actual AI processing
-          posture: 88,
-          timing: 82,
-          followThrough: 87,
-          power: 84
-        },
+        results: this.buildResults(evaluation),
         video: {
           url: videoResult.video.url,
           thumbnail: videoResult.video.thumbnailUrl,
           duration: videoResult.video.duration,
           size: videoResult.video.size
         },
-        improvements: this.generateImprovements(request.shotType),
+        improvements: improvementService.generate(evaluation),
+        phases: evaluation.phases,
+        annotations: annotationService.generate(evaluation),
+        detectedShot: this.detectShot(evaluation),
+        handedness: context.handedness,
+        cameraAngle: context.cameraAngle,
+        reference: await this.compareWithReference(track, request.shotType, context.handedness),
+        ball: await this.analyzeBall(track, evaluation, context.playerHeight),
+        racketSpeed: evaluation.racketSpeed,
+        injuryRisk: this.assessInjuryRisk(track, evaluation),
         metadata: {
           processingTime: Date.now() - startTime,
-          confidence: 0.92,
-          aiModel: 'padeltech-v1.0'
+          confidence: evaluation.confidence,
+          aiModel: appConfig.analysis.engineVersion
         }
       };
 
       // Step 3: Save analysis to backend
-      const analysisResponse = await analysisService.createAnalysis(analysisData);
+      let analysisResponse;
+      try {
+        analysisResponse = await analysisService.createAnalysis(analysisData);
+      } catch (error) {
+        throw this.createError('ANALYSIS_SAVE_FAILED', 'Error al guardar análisis', error);
+      }
 
       if (!analysisResponse.success || !analysisResponse.data) {
         throw this.createError('ANALYSIS_SAVE_FAILED', 'Error al guardar análisis');
@@ -97,16 +212,170 @@ class AIService {
 
     } catch (error) {
       console.error('Error en análisis de IA:', error);
-      
-      // Fallback to mock analysis on any error
-      return this.generateMockAnalysis(request.shotType);
+
+      if (isAIAnalysisError(error)) {
+        throw error;
+      }
+      throw this.createError('MODEL_UNAVAILABLE', 'No se pudo completar el análisis', error);
+    }
+  }
+
+  /**
+   * Importa un archivo de pose (MediaPipe / OpenPose) para un video guardado y lo analiza
+   */
+  async analyzeImportedPose(request: PoseImportRequest): Promise<AnalysisResult> {
+    const track = await this.importPoseFile(request.videoId, request.fileUri, request.importOptions);
+    return this.analyzePoseTrack(track, request.shotType);
+  }
+
+  /**
+   * Normaliza un archivo de pose externo y lo guarda junto al video
+   */
+  async importPoseFile(
+    videoId: string,
+    fileUri: string,
+    options?: PoseImportOptions
+  ): Promise<PoseTrack> {
+    try {
+      const track = await poseImportService.importFile(fileUri, videoId, options);
+      await poseService.saveTrack(track);
+      return track;
+    } catch (error) {
+      console.error('Error importing pose file:', error);
+      throw this.createError(
+        'POSE_IMPORT_FAILED',
+        error instanceof Error ? error.message : 'No se pudo importar el archivo de pose',
+        error
+      );
     }
   }
 
+  /**
+   * Calcula las puntuaciones a partir de una secuencia de pose.
+   * Lo que no indique el contexto se toma del perfil del jugador y del video.
+   */
+  async analyzePoseTrack(track: PoseTrack, shotType: string, context: EvaluationContext = {}): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const resolved = await this.getEvaluationContext(track, context);
+    const evaluation = this.evaluateTrack(track, shotType, resolved);
+
+    return {
+      ...this.buildResults(evaluation),
+      improvements: improvementService.generate(evaluation),
+      phases: evaluation.phases,
+      annotations: annotationService.generate(evaluation),
+      shotType,
+      detectedShot: this.detectShot(evaluation),
+      handedness: resolved.handedness,
+      cameraAngle: resolved.cameraAngle,
+      reference: await this.compareWithReference(track, shotType, resolved.handedness),
+      ball: await this.analyzeBall(track, evaluation, resolved.playerHeight),
+      racketSpeed: evaluation.racketSpeed,
+      injuryRisk: this.assessInjuryRisk(track, evaluation),
+      confidence: evaluation.confidence,
+      processingTime: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+      engineVersion: appConfig.analysis.engineVersion,
+      isSimulated: false,
+    };
+  }
+
+  /**
+   * Completa el contexto de evaluación: mano, nivel y altura del perfil del jugador y ángulo guardado
+   * con el video, o detectado en la pose si el jugador no lo eligió
+   */
+  async getEvaluationContext(
+    track: PoseTrack,
+    context: EvaluationContext = {}
+  ): Promise<EvaluationContext & Required<Pick<EvaluationContext, 'handedness' | 'cameraAngle' | 'level'>>> {
+    return {
+      handedness: context.handedness || (await this.getPlayerHandedness()),
+      cameraAngle: context.cameraAngle || (await this.getCameraAngle(track)),
+      level: context.level || (await this.getPlayerLevel()),
+      playerHeight: context.playerHeight || (await this.getPlayerHeight()),
+    };
+  }
+
+  /**
+   * Mano con la que juega el usuario: la del perfil de la cuenta, si no la del perfil local
+   */
+  async getPlayerHandedness(): Promise<Handedness> {
+    const handedness = authService.getCurrentUserSync()?.profile?.handedness;
+    if (handedness) return handedness;
+
+    const localProfile = await storageService.getUserProfile();
+    return localProfile?.handedness || 'right';
+  }
+
+  private async getPlayerLevel(): Promise<PlayerLevel> {
+    const level = authService.getCurrentUserSync()?.profile?.level;
+    if (level) return level;
+
+    const localProfile = await storageService.getUserProfile();
+    return localProfile?.level || DEFAULT_PLAYER_LEVEL;
+  }
+
+  /**
+   * Altura del jugador (cm), si la ha indicado; sin ella las velocidades se calculan con la altura media
+   */
+  private async getPlayerHeight(): Promise<number | undefined> {
+    const height = authService.getCurrentUserSync()?.profile?.height;
+    if (height) return height;
+
+    const localProfile = await storageService.getUserProfile();
+    return localProfile?.height;
+  }
+
+  private async getCameraAngle(track: PoseTrack): Promise<CameraAngle> {
+    try {
+      const video = await VideoStorageService.getVideo(track.videoId);
+      if (video?.cameraAngle) return video.cameraAngle;
+    } catch (error) {
+      console.warn('Could not read the camera angle of the video:', error);
+    }
+
+    return poseService.detectCameraAngle(track) || DEFAULT_CAMERA_ANGLE;
+  }
+
+  /**
+   * Valida la secuencia de pose y aplica las reglas técnicas del golpe.
+   * Rechaza las evaluaciones por debajo del umbral de confianza en vez de mostrar puntuaciones dudosas.
+   */
+  private evaluateTrack(track: PoseTrack, shotType: string, context: EvaluationContext): TechniqueEvaluation {
+    const validation = poseService.validateTrack(track);
+    if (!validation.isValid) {
+      throw this.createError('INVALID_CLIP', validation.error || 'Secuencia de pose inválida');
+    }
+
+    let evaluation: TechniqueEvaluation;
+    try {
+      evaluation = techniqueEvaluator.evaluate(track, shotType, context);
+    } catch (error) {
+      throw this.createError(
+        'LOW_CONFIDENCE',
+        error instanceof Error ? error.message : 'No se pudo evaluar la técnica',
+        error
+      );
+    }
+
+    if (evaluation.confidence < appConfig.analysis.confidenceThreshold) {
+      throw this.createError(
+        'LOW_CONFIDENCE',
+        'El jugador no se ve con suficiente claridad. Graba de nuevo con el cuerpo completo en el encuadre',
+        { confidence: evaluation.confidence }
+      );
+    }
+
+    return evaluation;
+  }
+
   /**
    * Uploads video for analysis
    */
-  private async uploadVideoForAnalysis(videoUri: string): Promise<any> {
+  private async uploadVideoForAnalysis(
+    videoUri: string,
+    onUploadProgress?: (percentage: number) => void
+  ): Promise<any> {
     // Create a file-like object from the URI
     const videoFile = {
       uri: videoUri,
@@ -120,6 +389,7 @@ class AIService {
       generateThumbnail: true,
       onProgress: (progress) => {
         console.log(`Upload progress: ${progress.percentage}%`);
+        onUploadProgress?.(progress.percentage);
       }
     });
   }
@@ -129,112 +399,152 @@ class AIService {
    */
   private convertBackendResult(backendResult: BackendAnalysisResult): AnalysisResult {
     return {
-      overallScore: backendResult.results.overallScore,
-      posture: backendResult.results.posture,
-      timing: backendResult.results.timing,
-      followThrough: backendResult.results.followThrough,
-      power: backendResult.results.power,
-      improvements: backendResult.improvements,
+      ...analysisService.toDimensionResults(backendResult.results, backendResult.metadata?.confidence),
+      improvements: analysisService.toImprovements(backendResult.improvements),
+      phases: backendResult.phases,
+      annotations: backendResult.annotations,
       shotType: backendResult.shotType,
+      detectedShot: backendResult.detectedShot,
+      handedness: backendResult.handedness,
+      cameraAngle: backendResult.cameraAngle,
+      reference: backendResult.reference,
+      ball: backendResult.ball,
+      racketSpeed: backendResult.racketSpeed,
+      injuryRisk: backendResult.injuryRisk,
       confidence: backendResult.metadata?.confidence || 0.85,
       processingTime: backendResult.metadata?.processingTime || 2000,
       timestamp: backendResult.createdAt,
+      engineVersion:
+        backendResult.aiModel?.version || backendResult.metadata?.aiModel || appConfig.analysis.legacyEngineVersion,
+      isSimulated: false,
     };
   }
 
   /**
-   * Generates improvements based on shot type
+   * Golpe reconocido en las métricas de la pose, independiente del tipo elegido por el jugador
+   */
+  private detectShot(evaluation: TechniqueEvaluation): DetectedShot | undefined {
+    const classification = shotClassifier.classifyMetrics(evaluation.metrics);
+    return classification
+      ? { shotType: classification.shotType, confidence: classification.confidence }
+      : undefined;
+  }
+
+  /**
+   * Comparación con la referencia del golpe; no impide el análisis si falla
+   */
+  private async compareWithReference(
+    track: PoseTrack,
+    shotType: string,
+    handedness: Handedness
+  ): Promise<TemplateComparison | undefined> {
+    try {
+      return (await referenceTemplateService.compareWithReference(track, shotType, handedness)) || undefined;
+    } catch (error) {
+      console.warn('Could not compare with reference template:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Trayectoria de la pelota alrededor del impacto; no impide el análisis si falta o falla
+   */
+  private async analyzeBall(
+    track: PoseTrack,
+    evaluation: TechniqueEvaluation,
+    playerHeight?: number
+  ): Promise<BallAnalysis | undefined> {
+    try {
+      const ballTrack = await ballTrackingService.getTrack(track.videoId);
+      if (!ballTrack) return undefined;
+      return ballTrackingService.analyze(ballTrack, track, evaluation.contactTimestamp, playerHeight) || undefined;
+    } catch (error) {
+      console.warn('Could not analyse the ball trajectory:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Avisos de riesgo de lesión del golpe; no impide el análisis si falla
    */
-  private generateImprovements(shotType: string): string[] {
-    return this.getMockImprovements(shotType);
+  private assessInjuryRisk(track: PoseTrack, evaluation: TechniqueEvaluation): InjuryRiskAssessment | undefined {
+    try {
+      return injuryRiskService.assess(track, evaluation);
+    } catch (error) {
+      console.warn('Could not assess injury risk:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Puntuaciones por dimensión con el feedback de las reglas no superadas
+   */
+  private buildResults(evaluation: TechniqueEvaluation): AnalysisScores {
+    const results = analysisService.toDimensionResults(evaluation.scores);
+
+    evaluation.rules.forEach(rule => {
+      if (rule.feedback) {
+        results[rule.dimension]?.feedback.push(rule.feedback);
+      }
+    });
+    (Object.keys(evaluation.dimensionConfidence) as Array<keyof typeof evaluation.dimensionConfidence>)
+      .forEach(dimension => {
+        const result = results[dimension];
+        if (result) {
+          result.confidence = evaluation.dimensionConfidence[dimension];
+        }
+      });
+
+    return results;
+  }
+
+  /**
+   * Acepta resultados en el formato actual o en el antiguo de puntuaciones planas
+   */
+  normalizeResult(result: AnalysisResult | LegacyAnalysisResult): AnalysisResult {
+    const scores = analysisService.toDimensionResults(result, result.confidence);
+    return {
+      ...result,
+      ...scores,
+      footwork: scores.footwork,
+      improvements: analysisService.toImprovements(result.improvements),
+      engineVersion: result.engineVersion || appConfig.analysis.legacyEngineVersion,
+      isSimulated: result.isSimulated ?? false,
+    };
   }
 
   /**
    * Genera análisis simulado para desarrollo
    */
   private generateMockAnalysis(shotType: string): AnalysisResult {
-    const baseScore = Math.floor(Math.random() * 30) + 70; // 70-100
-    
-    return {
-      overallScore: baseScore,
+    const scores = {
+      overallScore: Math.floor(Math.random() * 30) + 70, // 70-100
       posture: Math.floor(Math.random() * 30) + 70,
       timing: Math.floor(Math.random() * 30) + 70,
       followThrough: Math.floor(Math.random() * 30) + 70,
       power: Math.floor(Math.random() * 30) + 70,
-      improvements: this.getMockImprovements(shotType),
+      footwork: Math.floor(Math.random() * 30) + 70,
+    };
+
+    const confidence = 0.85 + Math.random() * 0.1; // 85-95%
+
+    return {
+      ...analysisService.toDimensionResults(scores, confidence),
+      improvements: improvementService.generate({ scores, shotType }),
       shotType: shotType,
-      confidence: 0.85 + Math.random() * 0.1, // 85-95%
+      confidence,
       processingTime: 2000 + Math.random() * 3000, // 2-5 segundos
       timestamp: new Date().toISOString(),
+      engineVersion: appConfig.analysis.engineVersion,
+      isSimulated: true,
     };
   }
 
-  /**
-   * Obtiene mejoras simuladas según el tipo de golpe
-   */
-  private getMockImprovements(shotType: string): string[] {
-    const improvements = {
-      derecha: [
-        'Mantén la raqueta más alta en la preparación',
-        'Mejora la transferencia de peso hacia adelante',
-        'Ajusta el timing del impacto con la pelota',
-        'Practica el seguimiento completo del golpe',
-      ],
-      reves: [
-        'Gira más los hombros en la preparación',
-        'Mantén la raqueta paralela al suelo',
-        'Mejora la coordinación mano-ojo',
-        'Practica la posición de los pies',
-      ],
-      volea: [
-        'Mantén la raqueta más cerca del cuerpo',
-        'Reduce el backswing para mayor control',
-        'Mejora la posición de espera',
-        'Practica la reacción rápida',
-      ],
-      saque: [
-        'Eleva más la pelota en el lanzamiento',
-        'Mejora la coordinación del movimiento',
-        'Practica la consistencia del servicio',
-        'Ajusta la posición de los pies',
-      ],
-      bandeja: [
-        'Mantén la raqueta más alta',
-        'Mejora el ángulo de la raqueta',
-        'Practica la precisión del golpe',
-        'Ajusta la fuerza según la situación',
-      ],
-      vibora: [
-        'Mejora la posición de la muñeca',
-        'Practica el control de la dirección',
-        'Ajusta la velocidad del swing',
-        'Mantén la concentración en el objetivo',
-      ],
-      remate: [
-        'Mejora la posición de salto',
-        'Practica el timing del impacto',
-        'Ajusta la fuerza según la situación',
-        'Mantén el equilibrio durante el golpe',
-      ],
-    };
-
-    return improvements[shotType as keyof typeof improvements] || [
-      'Practica la técnica básica',
-      'Mejora la consistencia',
-      'Trabaja en la precisión',
-      'Desarrolla la confianza',
-    ];
-  }
-
   /**
    * Crea un error estructurado
    */
-  private createError(code: string, message: string, details?: any): AIAnalysisError {
-    return {
-      code,
-      message,
-      details,
-    };
+  private createError(code: AIAnalysisErrorCode, message: string, details?: any): AIAnalysisError {
+    return createAIAnalysisError(code, message, details);
   }
 
   /**
@@ -0,0 +1,363 @@
+import { aiService, AnalysisResult, createAIAnalysisError, POSE_TRACK_REQUIRED_MESSAGE } from './aiService';
+import { analysisService } from './analysisService';
+import { frameExtractionService } from './frameExtractionService';
+import { VideoStorageService } from './videoStorageService';
+import { poseService } from './poseService';
+import { ballTrackingService } from './ballTrackingService';
+import { DEV_CONFIG } from '../config/apiConfig';
+import { improvementService } from './improvementService';
+import { SHOT_PHASE_ORDER, ShotPhase, ShotPhaseName } from './shotPhaseService';
+import { appConfig } from '../config/appConfig';
+
+export type AnalysisEngineId = 'fixture' | 'local' | 'remote';
+
+export type AnalysisStage =
+  | 'initializing'
+  | 'uploading'
+  | 'extracting_frames'
+  | 'tracking_ball'
+  | 'estimating_pose'
+  | 'evaluating_technique'
+  | 'computing_metrics'
+  | 'generating_recommendations'
+  | 'finalizing';
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  initializing: 'Inicializando modelo de IA...',
+  uploading: 'Subiendo video al servidor...',
+  extracting_frames: 'Extrayendo frames del video...',
+  tracking_ball: 'Siguiendo la pelota...',
+  estimating_pose: 'Analizando postura corporal...',
+  evaluating_technique: 'Evaluando mecánica del golpe...',
+  computing_metrics: 'Calculando métricas de rendimiento...',
+  generating_recommendations: 'Generando recomendaciones personalizadas...',
+  finalizing: 'Finalizando análisis...',
+};
+
+const PIPELINE_STAGES: AnalysisStage[] = [
+  'initializing',
+  'extracting_frames',
+  'tracking_ball',
+  'estimating_pose',
+  'evaluating_technique',
+  'computing_metrics',
+  'generating_recommendations',
+  'finalizing',
+];
+
+export interface AnalysisEngineInput {
+  videoUri: string;
+  shotType: string;
+  videoId?: string;
+}
+
+export interface AnalysisProgressEvent {
+  stage: AnalysisStage;
+  stageIndex: number;
+  progress: number; // 0-100, global para todo el análisis
+  message?: string;
+}
+
+export type AnalysisProgressCallback = (event: AnalysisProgressEvent) => void;
+
+export interface AnalysisEngine {
+  readonly id: AnalysisEngineId;
+  readonly name: string;
+  readonly stages: AnalysisStage[];
+  readonly simulated: boolean; // solo genera resultados de demostración: volver a analizar no cambia nada
+  /**
+   * Si el motor puede analizar ese video; sin video, si el motor funciona en este dispositivo
+   */
+  isAvailable(input?: AnalysisEngineInput): Promise<boolean>;
+  analyze(input: AnalysisEngineInput, onProgress?: AnalysisProgressCallback): Promise<AnalysisResult>;
+}
+
+/**
+ * Traduce el avance de cada etapa a un progreso global 0-100
+ */
+export class AnalysisProgressReporter {
+  constructor(
+    private readonly stages: AnalysisStage[],
+    private readonly onProgress?: AnalysisProgressCallback
+  ) {}
+
+  report(stage: AnalysisStage, fraction: number = 0, message?: string): void {
+    if (!this.onProgress) return;
+
+    const stageIndex = Math.max(0, this.stages.indexOf(stage));
+    const clamped = Math.min(1, Math.max(0, fraction));
+    const progress = ((stageIndex + clamped) / this.stages.length) * 100;
+
+    this.onProgress({
+      stage,
+      stageIndex,
+      progress: Math.round(progress),
+      message: message || ANALYSIS_STAGE_LABELS[stage],
+    });
+  }
+
+  complete(): void {
+    if (!this.onProgress) return;
+
+    const lastStage = this.stages[this.stages.length - 1];
+    this.onProgress({
+      stage: lastStage,
+      stageIndex: this.stages.length - 1,
+      progress: 100,
+      message: ANALYSIS_STAGE_LABELS[lastStage],
+    });
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Motor determinista: la misma combinación video + golpe produce siempre el mismo resultado.
+ * Pensado para desarrollo, demos y pruebas de la interfaz sin backend ni modelo.
+ */
+export class FixtureAnalysisEngine implements AnalysisEngine {
+  readonly id = 'fixture' as const;
+  readonly name = 'Resultados de prueba';
+  readonly stages = PIPELINE_STAGES;
+  readonly simulated = true;
+
+  constructor(private readonly stepDelay: number = 400) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async analyze(input: AnalysisEngineInput, onProgress?: AnalysisProgressCallback): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const reporter = new AnalysisProgressReporter(this.stages, onProgress);
+
+    for (const stage of this.stages) {
+      reporter.report(stage);
+      await wait(this.stepDelay);
+    }
+
+    const random = this.createSeededRandom(`${input.videoUri}|${input.shotType}`);
+    const score = () => Math.floor(random() * 30) + 70; // 70-99
+
+    const posture = score();
+    const timing = score();
+    const followThrough = score();
+    const power = score();
+    const footwork = score();
+    const phases = this.createPhases(random);
+    const scores = {
+      overallScore: Math.round((posture + timing + followThrough + power + footwork) / 5),
+      posture,
+      timing,
+      followThrough,
+      power,
+      footwork,
+    };
+    const confidence = Math.round((0.85 + random() * 0.1) * 100) / 100;
+
+    reporter.complete();
+
+    return {
+      ...analysisService.toDimensionResults(scores, confidence),
+      improvements: improvementService.generate({ scores, shotType: input.shotType }),
+      phases,
+      shotType: input.shotType,
+      confidence,
+      processingTime: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+      engineVersion: appConfig.analysis.engineVersion,
+      isSimulated: true,
+    };
+  }
+
+  /**
+   * Fases verosímiles a 30 fps para poder mostrar la línea de tiempo del golpe
+   */
+  private createPhases(random: () => number): ShotPhase[] {
+    const frameDuration = 1000 / 30;
+    const durations: Record<ShotPhaseName, [number, number]> = {
+      preparation: [300, 700],
+      backswing: [300, 600],
+      contact: [150, 350],
+      followThrough: [300, 600],
+    };
+
+    let time = 0;
+    return SHOT_PHASE_ORDER.map(name => {
+      const [min, max] = durations[name];
+      const frames = Math.round((min + random() * (max - min)) / frameDuration);
+      const startFrame = Math.round(time / frameDuration);
+      time += frames * frameDuration;
+
+      return {
+        name,
+        startTime: Math.round(startFrame * frameDuration),
+        endTime: Math.round((startFrame + frames) * frameDuration),
+        startFrame,
+        endFrame: startFrame + frames,
+      };
+    });
+  }
+
+  /**
+   * Generador pseudoaleatorio (mulberry32) sembrado con un hash FNV-1a
+   */
+  private createSeededRandom(seed: string): () => number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+
+    let state = hash >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
+
+/**
+ * Motor en el dispositivo: puntúa la pose importada o guardada con el video sin subir nada.
+ * Sigue la pelota en los frames extraídos cuando el video no tiene ya una pista importada.
+ */
+export class LocalAnalysisEngine implements AnalysisEngine {
+  readonly id = 'local' as const;
+  readonly name = 'Análisis en el dispositivo';
+  readonly stages: AnalysisStage[] = [
+    'initializing',
+    'extracting_frames',
+    'tracking_ball',
+    'evaluating_technique',
+    'finalizing',
+  ];
+  readonly simulated = false;
+
+  async isAvailable(input?: AnalysisEngineInput): Promise<boolean> {
+    if (!input) return true;
+
+    // Todavía no hay estimación de pose en el dispositivo: hace falta una pose importada
+    const video = input.videoId ? await VideoStorageService.getVideo(input.videoId) : null;
+    return !!video?.hasPoseTrack;
+  }
+
+  async analyze(input: AnalysisEngineInput, onProgress?: AnalysisProgressCallback): Promise<AnalysisResult> {
+    const reporter = new AnalysisProgressReporter(this.stages, onProgress);
+    reporter.report('initializing');
+
+    const video = input.videoId ? await VideoStorageService.getVideo(input.videoId) : null;
+    if (!video) {
+      throw createAIAnalysisError('INVALID_CLIP', 'El video no está guardado en el dispositivo');
+    }
+
+    const track = video.hasPoseTrack ? await poseService.getTrack(video.id) : null;
+    if (!track) {
+      throw createAIAnalysisError('POSE_TRACK_MISSING', POSE_TRACK_REQUIRED_MESSAGE);
+    }
+
+    if (!video.hasBallTrack && ballTrackingService.hasDetector()) {
+      try {
+        reporter.report('extracting_frames');
+        const sequence = await frameExtractionService.extractFrames(video, {}, (fraction) => {
+          reporter.report('extracting_frames', fraction);
+        });
+
+        reporter.report('tracking_ball');
+        await ballTrackingService.detectInFrames(sequence, (fraction) => {
+          reporter.report('tracking_ball', fraction);
+        });
+      } catch (error) {
+        // La pelota es opcional: la técnica se puntúa igualmente
+        console.warn('Ball detection failed:', error);
+      }
+    }
+
+    reporter.report('evaluating_technique');
+    const result = await aiService.analyzePoseTrack(track, input.shotType);
+
+    reporter.report('finalizing');
+    reporter.complete();
+    return result;
+  }
+}
+
+/**
+ * Motor remoto: sube el video y delega el análisis en el backend a través de aiService
+ */
+export class RemoteAnalysisEngine implements AnalysisEngine {
+  readonly id = 'remote' as const;
+  readonly name = 'Análisis en el servidor';
+  readonly stages: AnalysisStage[] = ['initializing', 'uploading', 'evaluating_technique', 'finalizing'];
+  readonly simulated = DEV_CONFIG.USE_MOCK_DATA; // aiService devuelve datos simulados en ese modo
+
+  async isAvailable(input?: AnalysisEngineInput): Promise<boolean> {
+    if (!input) return true;
+
+    // Las puntuaciones se calculan sobre la pose guardada con el video
+    const video = input.videoId ? await VideoStorageService.getVideo(input.videoId) : null;
+    return !!video?.hasPoseTrack;
+  }
+
+  async analyze(input: AnalysisEngineInput, onProgress?: AnalysisProgressCallback): Promise<AnalysisResult> {
+    const reporter = new AnalysisProgressReporter(this.stages, onProgress);
+    reporter.report('initializing');
+
+    const result = await aiService.analyzePadelShot({
+      videoUri: input.videoUri,
+      shotType: input.shotType,
+      videoId: input.videoId,
+      onUploadProgress: (percentage) => {
+        reporter.report('uploading', percentage / 100);
+        if (percentage >= 100) {
+          reporter.report('evaluating_technique');
+        }
+      },
+    });
+
+    reporter.report('finalizing');
+    reporter.complete();
+    return result;
+  }
+}
+
+/**
+ * Registro de motores de análisis disponibles
+ */
+export class AnalysisEngineRegistry {
+  private engines = new Map<AnalysisEngineId, AnalysisEngine>();
+
+  register(engine: AnalysisEngine): void {
+    this.engines.set(engine.id, engine);
+  }
+
+  get(id: AnalysisEngineId): AnalysisEngine | undefined {
+    return this.engines.get(id);
+  }
+
+  list(): AnalysisEngine[] {
+    return Array.from(this.engines.values());
+  }
+
+  /**
+   * Motor configurado en appConfig.analysis.engine (o el de prueba si no está registrado)
+   */
+  getActive(): AnalysisEngine {
+    const configured = this.engines.get(appConfig.analysis.engine);
+    if (configured) {
+      return configured;
+    }
+
+    console.warn(`Analysis engine "${appConfig.analysis.engine}" not registered, using fixture engine`);
+    return this.engines.get('fixture') || new FixtureAnalysisEngine();
+  }
+}
+
+export const analysisEngineRegistry = new AnalysisEngineRegistry();
+analysisEngineRegistry.register(new FixtureAnalysisEngine());
+analysisEngineRegistry.register(new LocalAnalysisEngine());
+analysisEngineRegistry.register(new RemoteAnalysisEngine());
+
+export default analysisEngineRegistry;
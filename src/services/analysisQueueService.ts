@@ -0,0 +1,339 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalysisResult,
+  AIAnalysisErrorCode,
+  createAIAnalysisError,
+  isAIAnalysisError,
+  POSE_TRACK_REQUIRED_MESSAGE,
+} from './aiService';
+import {
+  analysisEngineRegistry,
+  AnalysisEngineId,
+  AnalysisEngineInput,
+  AnalysisStage,
+} from './analysisEngine';
+import { VideoStorageService } from './videoStorageService';
+
+/**
+ * Job lifecycle; `queued`, `extracting` and `scoring` are the client-side
+ * breakdown of the backend `processing` status
+ */
+export type AnalysisJobStatus = 'queued' | 'extracting' | 'scoring' | 'completed' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  videoId?: string;
+  videoUri: string;
+  shotType: string;
+  engineId: AnalysisEngineId;
+  status: AnalysisJobStatus;
+  stage?: AnalysisStage;
+  stageIndex: number;
+  progress: number; // 0-100
+  result?: AnalysisResult; // not persisted with the job: it is stored with the video
+  error?: string;
+  errorCode?: AIAnalysisErrorCode;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AnalysisJobListener = (job: AnalysisJob) => void;
+
+const EXTRACTING_STAGES: AnalysisStage[] = [
+  'initializing',
+  'uploading',
+  'extracting_frames',
+  'tracking_ball',
+  'estimating_pose',
+];
+const MAX_STORED_JOBS = 50;
+
+export class AnalysisQueueService {
+  private readonly JOBS_KEY = 'padeltech_analysis_jobs';
+  private jobs: AnalysisJob[] | null = null;
+  private listeners = new Set<AnalysisJobListener>();
+  private processing = false;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  /**
+   * Load persisted jobs and resume the ones interrupted by an app restart
+   */
+  async initialize(): Promise<void> {
+    const jobs = await this.loadJobs();
+    let resumed = 0;
+
+    jobs.forEach(job => {
+      if (job.status === 'extracting' || job.status === 'scoring') {
+        Object.assign(job, { status: 'queued', stage: undefined, stageIndex: 0, progress: 0 });
+        resumed++;
+      }
+    });
+
+    if (resumed > 0) {
+      await this.saveJobs();
+      console.log(`Resuming ${resumed} interrupted analysis jobs`);
+    }
+
+    this.processQueue();
+  }
+
+  /**
+   * Add an analysis to the queue; it runs in the background with the active engine
+   */
+  async enqueue(input: AnalysisEngineInput): Promise<AnalysisJob> {
+    const jobs = await this.loadJobs();
+    const now = new Date().toISOString();
+
+    const job: AnalysisJob = {
+      id: this.generateId(),
+      videoId: input.videoId,
+      videoUri: input.videoUri,
+      shotType: input.shotType,
+      engineId: analysisEngineRegistry.getActive().id,
+      status: 'queued',
+      stageIndex: 0,
+      progress: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    jobs.push(job);
+    await this.saveJobs();
+    this.notify(job);
+    this.processQueue();
+
+    return job;
+  }
+
+  /**
+   * Queue a failed job again
+   */
+  async retry(jobId: string): Promise<AnalysisJob> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new Error('Analysis job not found');
+    }
+    if (job.status !== 'failed') {
+      return job;
+    }
+
+    await this.updateJob(job, {
+      status: 'queued',
+      stage: undefined,
+      stageIndex: 0,
+      progress: 0,
+      error: undefined,
+      errorCode: undefined,
+      engineId: analysisEngineRegistry.getActive().id,
+    });
+    this.processQueue();
+
+    return job;
+  }
+
+  async getJobs(): Promise<AnalysisJob[]> {
+    return [...(await this.loadJobs())];
+  }
+
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
+    const jobs = await this.loadJobs();
+    const job = jobs.find(candidate => candidate.id === jobId);
+    return job ? this.resolveResult(job) : null;
+  }
+
+  /**
+   * Most recent job of each video, keyed by video id
+   */
+  async getLatestJobsByVideo(): Promise<Record<string, AnalysisJob>> {
+    const latest: Record<string, AnalysisJob> = {};
+    (await this.loadJobs()).forEach(job => {
+      if (job.videoId && (!latest[job.videoId] || latest[job.videoId].createdAt <= job.createdAt)) {
+        latest[job.videoId] = job;
+      }
+    });
+    return latest;
+  }
+
+  /**
+   * Remove a job that is not running
+   */
+  async removeJob(jobId: string): Promise<void> {
+    const jobs = await this.loadJobs();
+    const job = jobs.find(candidate => candidate.id === jobId);
+    if (!job || job.status === 'extracting' || job.status === 'scoring') return;
+
+    this.jobs = jobs.filter(candidate => candidate.id !== jobId);
+    await this.saveJobs();
+  }
+
+  /**
+   * Listen to every job change; returns the unsubscribe function
+   */
+  subscribe(listener: AnalysisJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen to the changes of a single job, starting with its current state
+   */
+  subscribeToJob(jobId: string, listener: AnalysisJobListener): () => void {
+    const unsubscribe = this.subscribe(job => {
+      if (job.id === jobId) listener(job);
+    });
+
+    this.getJob(jobId).then(job => {
+      if (job) listener(job);
+    });
+
+    return unsubscribe;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let job = (await this.loadJobs()).find(candidate => candidate.status === 'queued');
+      while (job) {
+        await this.runJob(job);
+        job = (await this.loadJobs()).find(candidate => candidate.status === 'queued');
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(job: AnalysisJob): Promise<void> {
+    const engine = analysisEngineRegistry.get(job.engineId) || analysisEngineRegistry.getActive();
+    await this.updateJob(job, { status: 'extracting', attempts: job.attempts + 1 });
+
+    try {
+      const input: AnalysisEngineInput = { videoUri: job.videoUri, shotType: job.shotType, videoId: job.videoId };
+
+      // Fail before uploading anything when the engine has nothing to score the video with
+      if (!(await engine.isAvailable(input))) {
+        throw createAIAnalysisError('POSE_TRACK_MISSING', POSE_TRACK_REQUIRED_MESSAGE);
+      }
+
+      const result = await engine.analyze(
+        input,
+        event => {
+          // Progress is only persisted on status changes to keep storage writes low
+          const status: AnalysisJobStatus = EXTRACTING_STAGES.includes(event.stage) ? 'extracting' : 'scoring';
+          const changes: Partial<AnalysisJob> = { status, stage: event.stage, stageIndex: event.stageIndex, progress: event.progress };
+          if (status !== job.status) {
+            this.updateJob(job, changes).catch(error =>
+              console.warn('Could not save analysis job progress:', error)
+            );
+          } else {
+            Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+            this.notify(job);
+          }
+        }
+      );
+
+      if (job.videoId) {
+        await VideoStorageService.updateVideoAnalysis(job.videoId, result).catch(error =>
+          console.warn('Could not attach analysis result to video:', error)
+        );
+      }
+
+      await this.updateJob(job, { status: 'completed', progress: 100, result });
+    } catch (error) {
+      console.error('Analysis job failed:', error);
+      // aiService rejects with plain { code, message } objects
+      const message = (error as { message?: string } | null)?.message;
+      await this.updateJob(job, {
+        status: 'failed',
+        error: message || 'No se pudo completar el análisis',
+        errorCode: isAIAnalysisError(error) ? error.code : undefined,
+      });
+    }
+  }
+
+  /**
+   * After a restart completed jobs have no result in memory; read it back from their video
+   */
+  private async resolveResult(job: AnalysisJob): Promise<AnalysisJob> {
+    if (job.status !== 'completed' || job.result || !job.videoId) return job;
+
+    try {
+      const video = await VideoStorageService.getVideo(job.videoId);
+      if (video?.analysisResult) job.result = video.analysisResult;
+    } catch (error) {
+      console.warn('Could not load analysis job result:', error);
+    }
+    return job;
+  }
+
+  private async updateJob(job: AnalysisJob, changes: Partial<AnalysisJob>): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    this.notify(job);
+    await this.saveJobs();
+  }
+
+  private notify(job: AnalysisJob): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener({ ...job });
+      } catch (error) {
+        console.error('Analysis job listener error:', error);
+      }
+    });
+  }
+
+  private async loadJobs(): Promise<AnalysisJob[]> {
+    if (this.jobs) return this.jobs;
+
+    try {
+      const data = await AsyncStorage.getItem(this.JOBS_KEY);
+      this.jobs = this.jobs || (data ? JSON.parse(data) : []);
+    } catch (error) {
+      console.error('Error loading analysis jobs:', error);
+      this.jobs = this.jobs || [];
+    }
+
+    return this.jobs as AnalysisJob[];
+  }
+
+  /**
+   * Persist jobs one write at a time, so a slow earlier write cannot overwrite a later state
+   */
+  private saveJobs(): Promise<void> {
+    const save = this.pendingSave.then(() => this.writeJobs());
+    this.pendingSave = save.catch(() => undefined);
+    return save;
+  }
+
+  /**
+   * Write jobs to storage without their results, dropping the oldest finished ones beyond the limit
+   */
+  private async writeJobs(): Promise<void> {
+    const jobs = await this.loadJobs();
+    const finished = jobs.filter(job => job.status === 'completed' || job.status === 'failed');
+    const excess = finished.length - MAX_STORED_JOBS;
+    if (excess > 0) {
+      const dropped = new Set(finished.slice(0, excess).map(job => job.id));
+      this.jobs = jobs.filter(job => !dropped.has(job.id));
+    }
+
+    try {
+      const stored = (this.jobs || []).map(({ result, ...job }) => job);
+      await AsyncStorage.setItem(this.JOBS_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving analysis jobs:', error);
+    }
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+export const analysisQueueService = new AnalysisQueueService();
+export default analysisQueueService;
@@ -1,26 +1,95 @@
 import { apiClient, ApiResponse } from './apiClient';
 import { API_CONFIG } from '../config/apiConfig';
+import { ShotPhase } from './shotPhaseService';
+import type { TemplateComparison } from './referenceTemplateService';
+import type { Handedness } from './poseService';
+import type { CameraAngle } from '../config/cameraAngles';
+import type { BallAnalysis } from './ballTrackingService';
+import type { RacketSpeedEstimate } from './techniqueEvaluator';
+import type { InjuryRiskAssessment } from './injuryRiskService';
+import type { AnalysisAnnotation } from './annotationService';
+import type { ScoreDimension } from '../config/techniqueRules';
+import { SHOTS, getShotName, ShotType } from '../config/shotRegistry';
+
+export type ImprovementCategory = 'posture' | 'timing' | 'followThrough' | 'power' | 'footwork' | 'general';
+export type ImprovementPriority = 'low' | 'medium' | 'high';
+export type ImprovementDifficulty = 'easy' | 'moderate' | 'hard';
+
+export interface Improvement {
+  category: ImprovementCategory;
+  description: string;
+  priority: ImprovementPriority;
+  difficulty: ImprovementDifficulty;
+}
+
+export interface DimensionResult {
+  score: number;
+  feedback: string[];
+  confidence: number; // 0-1
+}
+
+export interface AnalysisScores {
+  overallScore: number;
+  posture: DimensionResult;
+  timing: DimensionResult;
+  followThrough: DimensionResult;
+  power: DimensionResult;
+  footwork?: DimensionResult; // sin ella en los análisis anteriores al juego de pies
+}
+
+/**
+ * Puntuaciones planas de los registros anteriores al desglose por dimensión
+ */
+export interface FlatAnalysisScores {
+  overallScore: number;
+  posture: number;
+  timing: number;
+  followThrough: number;
+  power: number;
+  footwork?: number;
+}
+
+const SCORE_DIMENSIONS: ScoreDimension[] = ['posture', 'timing', 'followThrough', 'power', 'footwork'];
+// Dimensiones añadidas después: los registros anteriores no las tienen y se dejan sin puntuación
+const OPTIONAL_DIMENSIONS: ScoreDimension[] = ['footwork'];
+
+/**
+ * Tipo de golpe propuesto por el clasificador a partir de la pose
+ */
+export interface DetectedShot {
+  shotType: string;
+  confidence: number; // 0-1
+}
 
 export interface AnalysisResult {
   _id: string;
   userId: string;
-  shotType: 'derecha' | 'reves' | 'volea' | 'saque' | 'bandeja' | 'vibora' | 'remate';
-  results: {
-    overallScore: number;
-    posture: number;
-    timing: number;
-    followThrough: number;
-    power: number;
-  };
+  shotType: ShotType;
+  results: AnalysisScores;
   video: {
     url: string;
     thumbnail?: string;
     duration?: number;
     size?: number;
   };
-  improvements: string[];
+  improvements: Improvement[];
+  phases?: ShotPhase[];
+  annotations?: AnalysisAnnotation[];
+  detectedShot?: DetectedShot;
+  handedness?: Handedness;
+  cameraAngle?: CameraAngle;
+  ball?: BallAnalysis;
+  racketSpeed?: RacketSpeedEstimate;
+  injuryRisk?: InjuryRiskAssessment;
+  reference?: TemplateComparison;
   status: 'processing' | 'completed' | 'failed' | 'reviewed';
   metadata?: Record<string, any>;
+  aiModel?: {
+    version?: string; // versión de las reglas de puntuación
+    confidence?: number;
+    processingTime?: number;
+    modelType?: string;
+  };
   userNotes?: string;
   tags?: string[];
   comparison?: {
@@ -34,33 +103,30 @@ export interface AnalysisResult {
 
 export interface CreateAnalysisRequest {
   shotType: string;
-  results: {
-    overallScore: number;
-    posture: number;
-    timing: number;
-    followThrough: number;
-    power: number;
-  };
+  results: AnalysisScores;
   video: {
     url: string;
     thumbnail?: string;
     duration?: number;
     size?: number;
   };
-  improvements: string[];
+  improvements: Improvement[];
+  phases?: ShotPhase[];
+  annotations?: AnalysisAnnotation[];
+  detectedShot?: DetectedShot;
+  handedness?: Handedness;
+  cameraAngle?: CameraAngle;
+  ball?: BallAnalysis;
+  racketSpeed?: RacketSpeedEstimate;
+  injuryRisk?: InjuryRiskAssessment;
+  reference?: TemplateComparison;
   metadata?: Record<string, any>;
   userNotes?: string;
 }
 
 export interface UpdateAnalysisRequest {
-  results?: {
-    overallScore?: number;
-    posture?: number;
-    timing?: number;
-    followThrough?: number;
-    power?: number;
-  };
-  improvements?: string[];
+  results?: Partial<AnalysisScores>;
+  improvements?: Improvement[];
   status?: 'processing' | 'completed' | 'failed' | 'reviewed';
   userNotes?: string;
   tags?: string[];
@@ -120,10 +186,11 @@ export interface ProgressData {
 export class AnalysisService {
   async createAnalysis(data: CreateAnalysisRequest): Promise<ApiResponse<{ analysis: AnalysisResult }>> {
     try {
-      return await apiClient.post<{ analysis: AnalysisResult }>(
+      const response = await apiClient.post<{ analysis: AnalysisResult }>(
         API_CONFIG.ANALYSIS.CREATE,
         data
       );
+      return this.normalizeResponse(response);
     } catch (error) {
       console.error('Create analysis error:', error);
       throw error;
@@ -132,10 +199,14 @@ export class AnalysisService {
 
   async getAnalyses(params?: AnalysisListParams): Promise<ApiResponse<AnalysisListResponse>> {
     try {
-      return await apiClient.get<AnalysisListResponse>(
+      const response = await apiClient.get<AnalysisListResponse>(
         API_CONFIG.ANALYSIS.LIST,
         params
       );
+      if (response.data) {
+        response.data.analyses = response.data.analyses.map(analysis => this.normalizeAnalysis(analysis));
+      }
+      return response;
     } catch (error) {
       console.error('Get analyses error:', error);
       throw error;
@@ -144,9 +215,10 @@ export class AnalysisService {
 
   async getAnalysis(id: string): Promise<ApiResponse<{ analysis: AnalysisResult }>> {
     try {
-      return await apiClient.get<{ analysis: AnalysisResult }>(
+      const response = await apiClient.get<{ analysis: AnalysisResult }>(
         API_CONFIG.ANALYSIS.GET(id)
       );
+      return this.normalizeResponse(response);
     } catch (error) {
       console.error('Get analysis error:', error);
       throw error;
@@ -155,10 +227,11 @@ export class AnalysisService {
 
   async updateAnalysis(id: string, data: UpdateAnalysisRequest): Promise<ApiResponse<{ analysis: AnalysisResult }>> {
     try {
-      return await apiClient.put<{ analysis: AnalysisResult }>(
+      const response = await apiClient.put<{ analysis: AnalysisResult }>(
         API_CONFIG.ANALYSIS.UPDATE(id),
         data
       );
+      return this.normalizeResponse(response);
     } catch (error) {
       console.error('Update analysis error:', error);
       throw error;
@@ -247,14 +320,14 @@ export class AnalysisService {
         // This would need backend support for text search
       };
       
-      // For now, we'll search by shot type if the query matches
-      const shotTypes = ['derecha', 'reves', 'volea', 'saque', 'bandeja', 'vibora', 'remate'];
-      const matchedShotType = shotTypes.find(type => 
-        type.toLowerCase().includes(query.toLowerCase())
+      // For now, we'll search by shot type if the query matches its id or any of its names
+      const normalizedQuery = query.toLowerCase();
+      const matchedShot = SHOTS.find(shot =>
+        [shot.id, ...Object.values(shot.names)].some(name => name.toLowerCase().includes(normalizedQuery))
       );
       
-      if (matchedShotType) {
-        searchParams.shotType = matchedShotType;
+      if (matchedShot) {
+        searchParams.shotType = matchedShot.id;
       }
 
       return await this.getAnalyses(searchParams);
@@ -264,6 +337,76 @@ export class AnalysisService {
     }
   }
 
+  /**
+   * Puntuaciones planas o por dimensión convertidas al formato por dimensión
+   */
+  toDimensionResults(
+    results: AnalysisScores | FlatAnalysisScores,
+    defaultConfidence: number = 0
+  ): AnalysisScores {
+    const converted = { overallScore: results.overallScore } as AnalysisScores;
+
+    SCORE_DIMENSIONS.forEach(dimension => {
+      const value: DimensionResult | number | undefined = results[dimension];
+      if (value === undefined && OPTIONAL_DIMENSIONS.includes(dimension)) return;
+      converted[dimension] = typeof value === 'number' || value === undefined
+        ? { score: value || 0, feedback: [], confidence: defaultConfidence }
+        : {
+            score: value.score || 0,
+            feedback: value.feedback || [],
+            confidence: value.confidence ?? defaultConfidence,
+          };
+    });
+
+    return converted;
+  }
+
+  /**
+   * Puntuaciones planas o por dimensión convertidas a números, como en los registros anteriores
+   */
+  toFlatScores(results: AnalysisScores | FlatAnalysisScores): FlatAnalysisScores {
+    const flat = { overallScore: results.overallScore } as FlatAnalysisScores;
+
+    SCORE_DIMENSIONS.forEach(dimension => {
+      const value: DimensionResult | number | undefined = results[dimension];
+      if (value === undefined && OPTIONAL_DIMENSIONS.includes(dimension)) return;
+      flat[dimension] = typeof value === 'number' ? value : value?.score || 0;
+    });
+
+    return flat;
+  }
+
+  /**
+   * Los registros anteriores guardaban las mejoras como texto
+   */
+  toImprovements(improvements: Array<Improvement | string> = []): Improvement[] {
+    return improvements.map(improvement =>
+      typeof improvement === 'string'
+        ? { category: 'general', description: improvement, priority: 'medium', difficulty: 'moderate' }
+        : improvement
+    );
+  }
+
+  /**
+   * Análisis guardado en cualquier formato anterior convertido al actual
+   */
+  normalizeAnalysis(analysis: AnalysisResult): AnalysisResult {
+    return {
+      ...analysis,
+      results: this.toDimensionResults(analysis.results, analysis.metadata?.confidence),
+      improvements: this.toImprovements(analysis.improvements),
+    };
+  }
+
+  private normalizeResponse(
+    response: ApiResponse<{ analysis: AnalysisResult }>
+  ): ApiResponse<{ analysis: AnalysisResult }> {
+    if (response.data?.analysis) {
+      response.data.analysis = this.normalizeAnalysis(response.data.analysis);
+    }
+    return response;
+  }
+
   // Utility methods
   calculateScoreImprovement(currentScore: number, previousScore: number): number {
     if (previousScore === 0) return 0;
@@ -287,16 +430,7 @@ export class AnalysisService {
   }
 
   formatShotType(shotType: string): string {
-    const translations: Record<string, string> = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate'
-    };
-    return translations[shotType] || shotType;
+    return getShotName(shotType);
   }
 }
 
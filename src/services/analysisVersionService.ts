@@ -0,0 +1,139 @@
+import { aiService } from './aiService';
+import { poseService } from './poseService';
+import { rallySegmentationService } from './rallySegmentationService';
+import { VideoStorageService, StoredVideo } from './videoStorageService';
+import { appConfig } from '../config/appConfig';
+
+export interface ScoreHistoryEntry {
+  timestamp: string; // grabación del video
+  shotType: string;
+  overallScore: number;
+  engineVersion: string; // versión de las reglas con la que se puntuó
+}
+
+export interface RescoreProgress {
+  total: number;
+  completed: number; // recalculados o fallidos
+  failed: number;
+  videoId?: string; // video que se está recalculando
+}
+
+export interface RescoreSummary {
+  rescored: number;
+  failed: number;
+  skipped: number; // sin pose guardada: solo se pueden volver a analizar desde el video
+}
+
+/**
+ * Versión de las reglas con la que se calculó cada análisis guardado y recálculo de los desactualizados.
+ * Las puntuaciones de versiones distintas no son comparables entre sí.
+ */
+export class AnalysisVersionService {
+  private rescoring = false;
+
+  getCurrentVersion(): string {
+    return appConfig.analysis.engineVersion;
+  }
+
+  getVersion(result: { engineVersion?: string }): string {
+    return result.engineVersion || appConfig.analysis.legacyEngineVersion;
+  }
+
+  /**
+   * Medido con otra versión de las reglas; los resultados simulados no se recalculan
+   */
+  isOutdated(result?: { engineVersion?: string; isSimulated?: boolean } | null): boolean {
+    return !!result && !result.isSimulated && this.getVersion(result) !== this.getCurrentVersion();
+  }
+
+  hasOutdatedAnalysis(video: StoredVideo): boolean {
+    return (
+      this.isOutdated(video.analysisResult) ||
+      (video.strokes || []).some(stroke => this.isOutdated(stroke.analysisResult))
+    );
+  }
+
+  async getOutdatedVideos(): Promise<StoredVideo[]> {
+    const videos = await VideoStorageService.getAllVideos();
+    return videos.filter(video => this.hasOutdatedAnalysis(video));
+  }
+
+  isRescoring(): boolean {
+    return this.rescoring;
+  }
+
+  /**
+   * Recalcula con las reglas actuales los análisis desactualizados a partir de la pose guardada.
+   * Los videos se procesan de uno en uno y un fallo no detiene el resto.
+   */
+  async rescoreOutdated(onProgress?: (progress: RescoreProgress) => void): Promise<RescoreSummary> {
+    if (this.rescoring) {
+      throw new Error('Ya se están recalculando los análisis');
+    }
+    this.rescoring = true;
+
+    try {
+      const outdated = await this.getOutdatedVideos();
+      const rescorable = outdated.filter(video => video.hasPoseTrack);
+      const progress: RescoreProgress = { total: rescorable.length, completed: 0, failed: 0 };
+      onProgress?.({ ...progress });
+
+      for (const video of rescorable) {
+        onProgress?.({ ...progress, videoId: video.id });
+        try {
+          await this.rescoreVideo(video);
+        } catch (error) {
+          console.warn(`Could not rescore video ${video.id}:`, error);
+          progress.failed++;
+        }
+        progress.completed++;
+        onProgress?.({ ...progress });
+      }
+
+      console.log(`Rescored ${progress.completed - progress.failed} of ${outdated.length} outdated videos`);
+      return {
+        rescored: progress.completed - progress.failed,
+        failed: progress.failed,
+        skipped: outdated.length - rescorable.length,
+      };
+    } finally {
+      this.rescoring = false;
+    }
+  }
+
+  /**
+   * Evolución de la puntuación global, del video más antiguo al más reciente
+   */
+  async getScoreHistory(shotType?: string): Promise<ScoreHistoryEntry[]> {
+    const analyses = await VideoStorageService.getAllAnalyses();
+
+    return analyses
+      .filter(({ result }) => !result.isSimulated && (!shotType || result.shotType === shotType))
+      .map(({ video, stroke, result }) => ({
+        timestamp: new Date(video.timestamp + (stroke?.startTime || 0)).toISOString(),
+        shotType: result.shotType,
+        overallScore: result.overallScore,
+        engineVersion: this.getVersion(result),
+      }))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  private async rescoreVideo(video: StoredVideo): Promise<void> {
+    // Los ejercicios se vuelven a dividir y puntuar golpe a golpe
+    if (video.isDrill) {
+      await rallySegmentationService.analyzeDrill(video.id);
+      return;
+    }
+
+    const track = await poseService.getTrack(video.id);
+    if (!track) {
+      throw new Error('Pose track not found');
+    }
+
+    const result = await aiService.analyzePoseTrack(track, video.shotType);
+    await VideoStorageService.updateVideoAnalysis(video.id, result);
+  }
+}
+
+export const analysisVersionService = new AnalysisVersionService();
+export default analysisVersionService;
@@ -0,0 +1,55 @@
+import { techniqueEvaluator, TechniqueEvaluation } from './techniqueEvaluator';
+import { METRIC_OBSERVATIONS, ScoreDimension, TechniqueMetric } from '../config/techniqueRules';
+
+/**
+ * Momento del golpe en el que una regla técnica ha quedado fuera de su rango ideal
+ */
+export interface AnalysisAnnotation {
+  timestamp: number; // ms, frame en el que se midió la métrica
+  frameIndex: number;
+  ruleId: string; // regla que se ha disparado
+  metric: TechniqueMetric;
+  dimension: ScoreDimension; // puntuación a la que afecta
+  value: number;
+  ideal: [number, number];
+  unit?: string;
+  score: number; // puntuación de la regla (0-100)
+  passed: boolean; // fuera del rango ideal, pero la regla se supera
+  message: string;
+}
+
+/**
+ * Anotaciones con evidencia para la línea de tiempo del análisis: qué se midió, en qué frame
+ * y qué regla y dimensión explica cada observación
+ */
+export class AnnotationService {
+  generate(
+    evaluation: Pick<TechniqueEvaluation, 'rules' | 'handedness' | 'contactFrameIndex' | 'contactTimestamp'>
+  ): AnalysisAnnotation[] {
+    return evaluation.rules
+      .filter(rule => rule.deviation !== null)
+      .map(rule => {
+        const observation = METRIC_OBSERVATIONS[rule.metric];
+        return {
+          timestamp: rule.timestamp ?? evaluation.contactTimestamp,
+          frameIndex: rule.frameIndex ?? evaluation.contactFrameIndex,
+          ruleId: rule.ruleId,
+          metric: rule.metric,
+          dimension: rule.dimension,
+          value: rule.value,
+          ideal: rule.ideal,
+          unit: observation.unit,
+          score: rule.score,
+          passed: rule.passed,
+          message: techniqueEvaluator.formatFeedback(
+            observation[rule.deviation as 'low' | 'high'],
+            evaluation.handedness
+          ),
+        };
+      })
+      .sort((a, b) => a.timestamp - b.timestamp || a.score - b.score);
+  }
+}
+
+export const annotationService = new AnnotationService();
+export default annotationService;
@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiClient, ApiResponse } from './apiClient';
 import { API_CONFIG, AUTH_CONFIG } from '../config/apiConfig';
+import type { Handedness } from './poseService';
 
 export interface User {
   _id: string;
@@ -9,6 +10,8 @@ export interface User {
   profile?: {
     level?: 'beginner' | 'intermediate' | 'advanced' | 'expert';
     favoriteShot?: string;
+    handedness?: Handedness;
+    height?: number; // cm
     experience?: number;
     totalAnalyses?: number;
     averageScore?: number;
@@ -30,6 +33,7 @@ export interface RegisterRequest {
   profile?: {
     level?: 'beginner' | 'intermediate' | 'advanced' | 'expert';
     favoriteShot?: string;
+    handedness?: Handedness;
   };
 }
 
@@ -300,6 +304,24 @@ export class AuthService {
     return this.currentUser;
   }
 
+  /**
+   * Update the cached profile of the current user after editing it
+   */
+  async updateCurrentUserProfile(profile: NonNullable<User['profile']>): Promise<void> {
+    if (!this.currentUser) return;
+
+    this.currentUser = {
+      ...this.currentUser,
+      profile: { ...this.currentUser.profile, ...profile },
+    };
+
+    try {
+      await AsyncStorage.setItem(AUTH_CONFIG.STORAGE_KEYS.USER_DATA, JSON.stringify(this.currentUser));
+    } catch (error) {
+      console.error('Error storing user data:', error);
+    }
+  }
+
   async loginAsGuest(): Promise<User> {
     // Crear un usuario invitado temporal
     const guestUser: User = {
@@ -309,6 +331,7 @@ export class AuthService {
       profile: {
         level: 'beginner',
         favoriteShot: 'derecha',
+        handedness: 'right',
         experience: 0,
         totalAnalyses: 0,
         averageScore: 0,
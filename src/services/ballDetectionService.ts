@@ -0,0 +1,210 @@
+import * as FileSystem from 'expo-file-system';
+import { toByteArray } from 'base64-js';
+import * as jpeg from 'jpeg-js';
+import type { ExtractedFrame } from './frameExtractionService';
+import type { BallDetection, BallDetector } from './ballTrackingService';
+
+interface DecodedFrame {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA
+}
+
+interface PreviousFrame extends DecodedFrame {
+  timestamp: number;
+  ballPosition: { x: number; y: number } | null; // pixels
+}
+
+interface Blob {
+  area: number;
+  centreX: number;
+  centreY: number;
+  fill: number; // area / bounding box area
+  elongation: number; // long side / short side of the bounding box
+}
+
+// Optic yellow (padel ball felt) in HSV
+const BALL_HUE_MIN = 45;
+const BALL_HUE_MAX = 80;
+const BALL_SATURATION_MIN = 0.4;
+const BALL_VALUE_MIN = 0.45;
+// Minimum brightness change against the previous frame for a pixel to count as moving (0-255)
+const MOTION_THRESHOLD = 24;
+const MIN_BALL_AREA = 3; // pixels
+const MAX_BALL_SIZE = 0.05; // bounding box side, relative to the frame width
+const MAX_ELONGATION = 4; // motion blur stretches the ball along its path
+// Frames further apart than this are not compared for motion (ms)
+const MAX_FRAME_GAP = 200;
+
+/**
+ * Finds the ball in extracted frames as a small optic-yellow blob that moved since the previous frame.
+ * Static yellow objects (walls, clothes, balls lying on the court) are ignored by the motion mask,
+ * so the first frame of a sequence never yields a detection. Frames must be passed in order.
+ */
+export class BallDetectionService implements BallDetector {
+  private previous: PreviousFrame | null = null;
+
+  async detect(frame: ExtractedFrame): Promise<BallDetection | null> {
+    const decoded = await this.decode(frame.uri);
+    const previous = this.isComparable(this.previous, decoded, frame.timestamp) ? this.previous : null;
+
+    let detection: BallDetection | null = null;
+    if (previous) {
+      const blobs = this.findBlobs(decoded, previous.data);
+      const best = this.pickBlob(blobs, decoded.width, previous.ballPosition);
+      if (best) {
+        const ambiguity = blobs.length > 1 ? 0.8 : 1;
+        detection = {
+          timestamp: frame.timestamp,
+          x: best.centreX / decoded.width,
+          y: best.centreY / decoded.height,
+          confidence: Math.round(Math.min(1, 0.4 + best.fill * 0.6) * ambiguity * 100) / 100,
+        };
+      }
+    }
+
+    this.previous = {
+      ...decoded,
+      timestamp: frame.timestamp,
+      ballPosition: detection ? { x: detection.x * decoded.width, y: detection.y * decoded.height } : null,
+    };
+    return detection;
+  }
+
+  /**
+   * Only the frame just before in the same sequence is used for motion (a new sequence restarts at 0 ms)
+   */
+  private isComparable(previous: PreviousFrame | null, frame: DecodedFrame, timestamp: number): previous is PreviousFrame {
+    return previous !== null &&
+      previous.width === frame.width &&
+      previous.height === frame.height &&
+      timestamp > previous.timestamp &&
+      timestamp - previous.timestamp <= MAX_FRAME_GAP;
+  }
+
+  private async decode(uri: string): Promise<DecodedFrame> {
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    const image = jpeg.decode(toByteArray(base64), { useTArray: true, formatAsRGBA: true });
+    return { width: image.width, height: image.height, data: image.data };
+  }
+
+  /**
+   * Connected groups of pixels that are both ball-coloured and moving
+   */
+  private findBlobs(frame: DecodedFrame, previousData: Uint8Array): Blob[] {
+    const { width, height, data } = frame;
+    const mask = new Uint8Array(width * height);
+
+    for (let i = 0; i < mask.length; i++) {
+      const offset = i * 4;
+      const r = data[offset];
+      const g = data[offset + 1];
+      const b = data[offset + 2];
+      const brightness = (r + g + b) / 3;
+      const previousBrightness = (previousData[offset] + previousData[offset + 1] + previousData[offset + 2]) / 3;
+
+      if (Math.abs(brightness - previousBrightness) >= MOTION_THRESHOLD && this.isBallColour(r, g, b)) {
+        mask[i] = 1;
+      }
+    }
+
+    const maxSize = Math.max(2, width * MAX_BALL_SIZE);
+    const blobs: Blob[] = [];
+    const stack: number[] = [];
+
+    for (let start = 0; start < mask.length; start++) {
+      if (mask[start] !== 1) continue;
+
+      mask[start] = 2;
+      stack.push(start);
+      let area = 0;
+      let sumX = 0;
+      let sumY = 0;
+      let minX = width;
+      let maxX = 0;
+      let minY = height;
+      let maxY = 0;
+
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = (index - x) / width;
+        area++;
+        sumX += x;
+        sumY += y;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          y > 0 ? index - width : -1,
+          y < height - 1 ? index + width : -1,
+        ];
+        for (const neighbour of neighbours) {
+          if (neighbour >= 0 && mask[neighbour] === 1) {
+            mask[neighbour] = 2;
+            stack.push(neighbour);
+          }
+        }
+      }
+
+      const boxWidth = maxX - minX + 1;
+      const boxHeight = maxY - minY + 1;
+      const elongation = Math.max(boxWidth, boxHeight) / Math.min(boxWidth, boxHeight);
+      if (area < MIN_BALL_AREA || Math.max(boxWidth, boxHeight) > maxSize || elongation > MAX_ELONGATION) {
+        continue;
+      }
+
+      blobs.push({
+        area,
+        centreX: sumX / area + 0.5,
+        centreY: sumY / area + 0.5,
+        fill: area / (boxWidth * boxHeight),
+        elongation,
+      });
+    }
+
+    return blobs;
+  }
+
+  /**
+   * The blob closest to the last detection, or the most ball-like one when the ball was not seen
+   */
+  private pickBlob(blobs: Blob[], width: number, lastPosition: { x: number; y: number } | null): Blob | null {
+    if (blobs.length === 0) return null;
+
+    const score = (blob: Blob) => {
+      const shape = blob.fill / blob.elongation;
+      if (!lastPosition) return shape;
+      const distance = Math.hypot(blob.centreX - lastPosition.x, blob.centreY - lastPosition.y) / width;
+      return shape / (1 + distance * 10);
+    };
+
+    return blobs.reduce((best, blob) => (score(blob) > score(best) ? blob : best));
+  }
+
+  private isBallColour(r: number, g: number, b: number): boolean {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    if (max / 255 < BALL_VALUE_MIN || delta / max < BALL_SATURATION_MIN) return false;
+
+    let hue: number;
+    if (max === r) {
+      hue = 60 * (((g - b) / delta) % 6);
+    } else if (max === g) {
+      hue = 60 * ((b - r) / delta + 2);
+    } else {
+      hue = 60 * ((r - g) / delta + 4);
+    }
+    if (hue < 0) hue += 360;
+
+    return hue >= BALL_HUE_MIN && hue <= BALL_HUE_MAX;
+  }
+}
+
+export const ballDetectionService = new BallDetectionService();
+export default ballDetectionService;
@@ -0,0 +1,362 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VideoStorageService } from './videoStorageService';
+import { ExtractedFrame, FrameSequence } from './frameExtractionService';
+import { ballDetectionService } from './ballDetectionService';
+import { poseService, PoseFrame, PoseTrack } from './poseService';
+import { Point2D } from '../utils/poseGeometry';
+import { TrajectoryFit } from '../utils/trajectoryFit';
+import { AVERAGE_PLAYER_HEIGHT, HIP_HEIGHT_RATIO } from '../config/playerCalibration';
+
+export interface BallDetection {
+  timestamp: number; // ms from the start of the video
+  x: number; // 0-1, relative to frame width
+  y: number; // 0-1, relative to frame height (top to bottom)
+  confidence: number; // 0-1
+}
+
+// device: detected on the extracted frames; tracknet / json: imported detection files
+export type BallTrackSource = 'device' | 'tracknet' | 'json';
+
+export interface BallTrack {
+  videoId: string;
+  source: BallTrackSource;
+  detections: BallDetection[];
+  frameWidth?: number;
+  frameHeight?: number;
+  createdAt: string;
+}
+
+export interface BallImportOptions {
+  fps?: number; // used when the file has frame numbers instead of timestamps
+  frameWidth?: number; // required for pixel coordinates (TrackNet CSV)
+  frameHeight?: number;
+}
+
+/**
+ * Finds the ball in a single extracted frame; frames of a sequence are passed in order
+ */
+export interface BallDetector {
+  detect(frame: ExtractedFrame): Promise<BallDetection | null>;
+}
+
+export interface BallTrajectoryPoint {
+  timestamp: number; // ms from the start of the video
+  x: number; // 0-1, relative to frame width
+  y: number; // 0-1, relative to frame height
+}
+
+/**
+ * Ball flight around the contact; directions and speeds are projected on the image plane
+ */
+export interface BallAnalysis {
+  contactTime: number; // ms from the start of the video
+  contactPoint: BallTrajectoryPoint;
+  contactHeight?: number; // metres above the ground (approx.), when the feet or hips are visible
+  exitDirection: number; // degrees on the image: 0 = right, 90 = up, -90 = down
+  exitSpeed: number; // km/h (approx., lower bound: depth motion is not visible)
+  detections: BallTrajectoryPoint[]; // observed positions around the contact
+  trajectory: BallTrajectoryPoint[]; // fitted exit curve
+  confidence: number; // 0-1
+}
+
+const MIN_DETECTION_CONFIDENCE = 0.5;
+// Window after the contact used to fit the exit trajectory (ms)
+const EXIT_WINDOW = 300;
+const MIN_EXIT_DETECTIONS = 3;
+// Observed positions shown around the contact (ms)
+const DISPLAY_BEFORE_CONTACT = 400;
+const DISPLAY_AFTER_CONTACT = 600;
+const TRAJECTORY_STEP = 33;
+const DEFAULT_FPS = 30;
+
+export class BallTrackingService {
+  private readonly WEB_TRACK_KEY_PREFIX = 'padeltech_ball_track_';
+  private detector: BallDetector | null = null;
+
+  /**
+   * Register the model used to find the ball in extracted frames
+   */
+  setDetector(detector: BallDetector | null): void {
+    this.detector = detector;
+  }
+
+  hasDetector(): boolean {
+    return this.detector !== null;
+  }
+
+  /**
+   * Run the detector over an extracted frame sequence and store the resulting track
+   */
+  async detectInFrames(
+    sequence: FrameSequence,
+    onProgress?: (fraction: number) => void
+  ): Promise<BallTrack> {
+    if (!this.detector) {
+      throw new Error('No ball detector available on this device');
+    }
+
+    const detections: BallDetection[] = [];
+    for (let i = 0; i < sequence.frames.length; i++) {
+      const detection = await this.detector.detect(sequence.frames[i]);
+      if (detection) detections.push(detection);
+      onProgress?.((i + 1) / sequence.frames.length);
+    }
+
+    const first = sequence.frames[0];
+    const track: BallTrack = {
+      videoId: sequence.videoId,
+      source: 'device',
+      detections,
+      frameWidth: first?.width,
+      frameHeight: first?.height,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.saveTrack(track);
+    return track;
+  }
+
+  /**
+   * Read a ball detection file (TrackNet CSV or JSON list) and store it with the video
+   */
+  async importFile(fileUri: string, videoId: string, options: BallImportOptions = {}): Promise<BallTrack> {
+    let content: string;
+    try {
+      content = await FileSystem.readAsStringAsync(fileUri);
+    } catch (error) {
+      console.error('Error reading ball file:', error);
+      throw new Error('No se pudo leer el archivo de la pelota');
+    }
+
+    const track = this.parse(content, videoId, options);
+    await this.saveTrack(track);
+    return track;
+  }
+
+  /**
+   * Normalise TrackNet CSV (Frame,Visibility,X,Y) or a JSON list of detections into a ball track
+   */
+  parse(content: string, videoId: string, options: BallImportOptions = {}): BallTrack {
+    const trimmed = content.trim();
+    const isJson = trimmed.startsWith('[') || trimmed.startsWith('{');
+    const detections = (isJson ? this.parseJson(trimmed, options) : this.parseCsv(trimmed, options))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (detections.length === 0) {
+      throw new Error('El archivo no contiene detecciones de la pelota');
+    }
+
+    return {
+      videoId,
+      source: isJson ? 'json' : 'tracknet',
+      detections,
+      frameWidth: options.frameWidth,
+      frameHeight: options.frameHeight,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Persist the ball track of a stored video
+   */
+  async saveTrack(track: BallTrack): Promise<void> {
+    try {
+      const data = JSON.stringify(track);
+
+      if (Platform.OS === 'web') {
+        await AsyncStorage.setItem(this.WEB_TRACK_KEY_PREFIX + track.videoId, data);
+      } else {
+        const trackUri = VideoStorageService.getBallTrackUri(track.videoId);
+        const directory = trackUri.substring(0, trackUri.lastIndexOf('/') + 1);
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+        await FileSystem.writeAsStringAsync(trackUri, data);
+      }
+
+      await VideoStorageService.updateVideo(track.videoId, { hasBallTrack: true });
+      console.log(`Saved ball track (${track.detections.length} detections) for video:`, track.videoId);
+    } catch (error) {
+      console.error('Error saving ball track:', error);
+      throw new Error('Failed to save ball track');
+    }
+  }
+
+  /**
+   * Get the ball track of a stored video
+   */
+  async getTrack(videoId: string): Promise<BallTrack | null> {
+    try {
+      if (Platform.OS === 'web') {
+        const data = await AsyncStorage.getItem(this.WEB_TRACK_KEY_PREFIX + videoId);
+        return data ? JSON.parse(data) : null;
+      }
+
+      const trackUri = VideoStorageService.getBallTrackUri(videoId);
+      const fileInfo = await FileSystem.getInfoAsync(trackUri);
+      if (!fileInfo.exists) {
+        return null;
+      }
+
+      return JSON.parse(await FileSystem.readAsStringAsync(trackUri));
+    } catch (error) {
+      console.error('Error getting ball track:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fit the ball flight after the contact and measure height, direction and speed.
+   * The pose track gives the scale (torso length, calibrated with the player's height in cm when known)
+   * and the ground; contactTimestamp is on its timeline.
+   */
+  analyze(
+    ballTrack: BallTrack,
+    poseTrack: PoseTrack,
+    contactTimestamp: number,
+    playerHeight?: number
+  ): BallAnalysis | null {
+    const frames = [...poseTrack.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const aspect = poseService.getAspectRatio(poseTrack);
+    const torsoLength = poseService.getTorsoLength(frames, aspect);
+    if (torsoLength === 0) return null;
+    const metresPerUnit = poseService.getMetresPerUnit(torsoLength, playerHeight);
+
+    const contactTime = contactTimestamp + (poseTrack.timeOffset || 0);
+    const detections = ballTrack.detections.filter(detection => detection.confidence >= MIN_DETECTION_CONFIDENCE);
+
+    const exit = detections.filter(
+      detection => detection.timestamp >= contactTime && detection.timestamp <= contactTime + EXIT_WINDOW
+    );
+    if (exit.length < MIN_EXIT_DETECTIONS) return null;
+
+    // Position against time (s from the contact): x at constant speed, y with gravity
+    const times = exit.map(detection => (detection.timestamp - contactTime) / 1000);
+    const fitX = TrajectoryFit.fit(times, exit.map(detection => detection.x * aspect), 1);
+    const fitY = TrajectoryFit.fit(times, exit.map(detection => detection.y), exit.length > 3 ? 2 : 1);
+    if (!fitX || !fitY) return null;
+
+    const contactPoint = {
+      x: TrajectoryFit.evaluate(fitX.coefficients, 0),
+      y: TrajectoryFit.evaluate(fitY.coefficients, 0),
+    };
+    const velocity = {
+      x: TrajectoryFit.derivative(fitX.coefficients, 0),
+      y: TrajectoryFit.derivative(fitY.coefficients, 0),
+    };
+
+    const speed = Math.hypot(velocity.x, velocity.y) * metresPerUnit * 3.6;
+    const direction = (Math.atan2(-velocity.y, velocity.x) * 180) / Math.PI;
+
+    const contactFrame = frames.reduce((closest, frame) =>
+      Math.abs(frame.timestamp - contactTimestamp) < Math.abs(closest.timestamp - contactTimestamp) ? frame : closest
+    );
+    const hipHeight = ((playerHeight || AVERAGE_PLAYER_HEIGHT) / 100) * HIP_HEIGHT_RATIO;
+    const groundY = this.getGroundLevel(contactFrame, aspect, hipHeight / metresPerUnit);
+    const contactHeight = groundY !== null ? (groundY - contactPoint.y) * metresPerUnit : null;
+
+    const lastExit = exit[exit.length - 1].timestamp;
+    const trajectory: BallTrajectoryPoint[] = [];
+    for (let time = contactTime; time <= lastExit; time += TRAJECTORY_STEP) {
+      const t = (time - contactTime) / 1000;
+      trajectory.push({
+        timestamp: Math.round(time),
+        x: TrajectoryFit.evaluate(fitX.coefficients, t) / aspect,
+        y: TrajectoryFit.evaluate(fitY.coefficients, t),
+      });
+    }
+
+    const averageConfidence = exit.reduce((sum, detection) => sum + detection.confidence, 0) / exit.length;
+
+    return {
+      contactTime: Math.round(contactTime),
+      contactPoint: { timestamp: Math.round(contactTime), x: contactPoint.x / aspect, y: contactPoint.y },
+      contactHeight: contactHeight !== null ? Math.round(Math.max(0, contactHeight) * 100) / 100 : undefined,
+      exitDirection: Math.round(direction),
+      exitSpeed: Math.round(speed),
+      detections: detections
+        .filter(detection =>
+          detection.timestamp >= contactTime - DISPLAY_BEFORE_CONTACT &&
+          detection.timestamp <= contactTime + DISPLAY_AFTER_CONTACT
+        )
+        .map(({ timestamp, x, y }) => ({ timestamp, x, y })),
+      trajectory,
+      confidence: Math.round(averageConfidence * Math.min(1, exit.length / (MIN_EXIT_DETECTIONS * 2)) * 100) / 100,
+    };
+  }
+
+  /**
+   * Image y of the ground under the player: the lowest ankle, or the hips lowered by the hip height (image units)
+   */
+  private getGroundLevel(frame: PoseFrame, aspect: number, hipHeight: number): number | null {
+    const ankles = [poseService.getPoint(frame, 'leftAnkle', aspect), poseService.getPoint(frame, 'rightAnkle', aspect)]
+      .filter((point): point is Point2D => point !== null);
+    if (ankles.length > 0) {
+      return Math.max(...ankles.map(ankle => ankle.y));
+    }
+
+    const hipMid = poseService.getMidpoint(frame, 'leftHip', 'rightHip', aspect);
+    return hipMid ? hipMid.y + hipHeight : null;
+  }
+
+  private parseCsv(content: string, options: BallImportOptions): BallDetection[] {
+    const { frameWidth, frameHeight } = options;
+    if (!frameWidth || !frameHeight) {
+      throw new Error('Indica el tamaño del video para importar coordenadas en píxeles');
+    }
+
+    const fps = options.fps || DEFAULT_FPS;
+    const [header, ...rows] = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const columns = header.split(',').map(column => column.trim().toLowerCase());
+    const column = (name: string) => columns.indexOf(name);
+
+    return rows
+      .map(row => row.split(',').map(value => Number(value)))
+      .filter(values => values[column('visibility')] > 0)
+      .map(values => ({
+        timestamp: Math.round((values[column('frame')] * 1000) / fps),
+        x: this.clamp(values[column('x')] / frameWidth),
+        y: this.clamp(values[column('y')] / frameHeight),
+        confidence: 1,
+      }))
+      .filter(detection => Number.isFinite(detection.timestamp));
+  }
+
+  private parseJson(content: string, options: BallImportOptions): BallDetection[] {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error('El archivo de la pelota no es un JSON válido');
+    }
+
+    const list: any[] = Array.isArray(data) ? data : Array.isArray(data?.detections) ? data.detections : [];
+    const fps = options.fps || DEFAULT_FPS;
+    const items = list.filter(item => item && typeof item.x === 'number' && typeof item.y === 'number');
+
+    // Coordinates above 1 are pixels
+    const scaleX = options.frameWidth || 1;
+    const scaleY = options.frameHeight || 1;
+    if (items.some(item => item.x > 1 || item.y > 1) && (!options.frameWidth || !options.frameHeight)) {
+      throw new Error('Indica el tamaño del video para importar coordenadas en píxeles');
+    }
+
+    return items
+      .map((item, index) => ({
+        timestamp: typeof item.timestamp === 'number'
+          ? item.timestamp
+          : Math.round(((typeof item.frame === 'number' ? item.frame : index) * 1000) / fps),
+        x: this.clamp(item.x > 1 ? item.x / scaleX : item.x),
+        y: this.clamp(item.y > 1 ? item.y / scaleY : item.y),
+        confidence: this.clamp(item.confidence ?? item.visibility ?? 1),
+      }));
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+  }
+}
+
+export const ballTrackingService = new BallTrackingService();
+ballTrackingService.setDetector(ballDetectionService);
+export default ballTrackingService;
@@ -0,0 +1,234 @@
+import * as FileSystem from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { Platform } from 'react-native';
+import { VideoStorageService, StoredVideo } from './videoStorageService';
+import { appConfig } from '../config/appConfig';
+
+export interface FrameExtractionOptions {
+  sampleRate: number; // frames per second
+  maxWidth: number; // pixels, frames are downscaled to this width
+  quality: number; // 0-1
+}
+
+export interface ExtractedFrame {
+  index: number;
+  timestamp: number; // milliseconds from the start of the clip
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface FrameSequence {
+  videoId: string;
+  videoUri: string;
+  frames: ExtractedFrame[];
+  frameCount: number;
+  fps: number; // effective fps of the extracted sequence
+  duration: number; // milliseconds covered by the sequence
+  options: FrameExtractionOptions;
+  createdAt: string;
+}
+
+export type FrameExtractionProgressCallback = (fraction: number) => void;
+
+const MANIFEST_FILE = 'manifest.json';
+
+export class FrameExtractionService {
+  /**
+   * Extract a timestamped frame sequence from a stored video, reusing the cache when possible
+   */
+  async extractFrames(
+    video: Pick<StoredVideo, 'id' | 'uri' | 'duration'>,
+    options: Partial<FrameExtractionOptions> = {},
+    onProgress?: FrameExtractionProgressCallback
+  ): Promise<FrameSequence> {
+    if (Platform.OS === 'web') {
+      throw new Error('Frame extraction is not available on web');
+    }
+
+    const resolvedOptions = this.resolveOptions(options);
+
+    const cached = await this.getCachedFrames(video.id, resolvedOptions);
+    if (cached) {
+      console.log(`Using ${cached.frameCount} cached frames for video:`, video.id);
+      onProgress?.(1);
+      return cached;
+    }
+
+    const directory = this.getCacheDirectory(video.id, resolvedOptions);
+    await FileSystem.deleteAsync(directory, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const timestamps = this.getSampleTimestamps(video.duration * 1000, resolvedOptions.sampleRate);
+    const frames: ExtractedFrame[] = [];
+
+    for (let i = 0; i < timestamps.length; i++) {
+      try {
+        const frame = await this.extractFrame(video.uri, timestamps[i], directory, i, resolvedOptions);
+        frames.push(frame);
+      } catch (error) {
+        // The last sample can fall past the real end of the clip
+        console.warn(`Could not extract frame at ${timestamps[i]}ms:`, error);
+      }
+      onProgress?.((i + 1) / timestamps.length);
+    }
+
+    if (frames.length === 0) {
+      throw new Error('No frames could be extracted from the video');
+    }
+
+    const sequence = this.buildSequence(video, frames, resolvedOptions);
+    await FileSystem.writeAsStringAsync(`${directory}${MANIFEST_FILE}`, JSON.stringify(sequence));
+
+    console.log(`Extracted ${sequence.frameCount} frames at ${sequence.fps.toFixed(1)}fps for video:`, video.id);
+    return sequence;
+  }
+
+  /**
+   * Get a previously extracted sequence for the same video and options
+   */
+  async getCachedFrames(
+    videoId: string,
+    options: Partial<FrameExtractionOptions> = {}
+  ): Promise<FrameSequence | null> {
+    try {
+      const resolvedOptions = this.resolveOptions(options);
+      const manifestUri = `${this.getCacheDirectory(videoId, resolvedOptions)}${MANIFEST_FILE}`;
+
+      const manifestInfo = await FileSystem.getInfoAsync(manifestUri);
+      if (!manifestInfo.exists) {
+        return null;
+      }
+
+      const sequence: FrameSequence = JSON.parse(await FileSystem.readAsStringAsync(manifestUri));
+      return sequence.frames.length > 0 ? sequence : null;
+    } catch (error) {
+      console.warn('Error reading cached frames:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove every cached sequence for a video
+   */
+  async clearCache(videoId: string): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(VideoStorageService.getFramesDirectory(videoId), { idempotent: true });
+    } catch (error) {
+      console.error('Error clearing frame cache:', error);
+    }
+  }
+
+  /**
+   * Find the frame closest to a timestamp
+   */
+  getFrameAt(sequence: FrameSequence, timestamp: number): ExtractedFrame | null {
+    if (sequence.frames.length === 0) return null;
+
+    return sequence.frames.reduce((closest, frame) =>
+      Math.abs(frame.timestamp - timestamp) < Math.abs(closest.timestamp - timestamp) ? frame : closest
+    );
+  }
+
+  /**
+   * Grab a single still of the video (e.g. to draw an overlay on it); not cached
+   */
+  async getStillAt(videoUri: string, timestamp: number): Promise<{ uri: string; width: number; height: number } | null> {
+    try {
+      const thumbnail = await VideoThumbnails.getThumbnailAsync(videoUri, {
+        time: Math.max(0, Math.round(timestamp)),
+        quality: appConfig.analysis.frameExtraction.quality,
+      });
+      return { uri: thumbnail.uri, width: thumbnail.width, height: thumbnail.height };
+    } catch (error) {
+      console.warn('Error grabbing video still:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Timestamps (ms) to sample for a clip of the given duration
+   */
+  getSampleTimestamps(durationMs: number, sampleRate: number): number[] {
+    const interval = 1000 / sampleRate;
+    const timestamps: number[] = [];
+
+    for (let time = 0; time <= durationMs; time += interval) {
+      timestamps.push(Math.round(time));
+    }
+
+    return timestamps;
+  }
+
+  private async extractFrame(
+    videoUri: string,
+    timestamp: number,
+    directory: string,
+    index: number,
+    options: FrameExtractionOptions
+  ): Promise<ExtractedFrame> {
+    const thumbnail = await VideoThumbnails.getThumbnailAsync(videoUri, {
+      time: timestamp,
+      quality: options.quality,
+    });
+
+    let image = { uri: thumbnail.uri, width: thumbnail.width, height: thumbnail.height };
+    if (thumbnail.width > options.maxWidth) {
+      image = await ImageManipulator.manipulateAsync(
+        thumbnail.uri,
+        [{ resize: { width: options.maxWidth } }],
+        { compress: options.quality, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      await FileSystem.deleteAsync(thumbnail.uri, { idempotent: true });
+    }
+
+    const frameUri = `${directory}frame_${String(index).padStart(4, '0')}.jpg`;
+    await FileSystem.moveAsync({ from: image.uri, to: frameUri });
+
+    return {
+      index,
+      timestamp,
+      uri: frameUri,
+      width: image.width,
+      height: image.height,
+    };
+  }
+
+  private buildSequence(
+    video: Pick<StoredVideo, 'id' | 'uri'>,
+    frames: ExtractedFrame[],
+    options: FrameExtractionOptions
+  ): FrameSequence {
+    const indexed = frames.map((frame, index) => ({ ...frame, index }));
+    const duration = indexed[indexed.length - 1].timestamp - indexed[0].timestamp;
+    const fps = indexed.length > 1 && duration > 0
+      ? ((indexed.length - 1) * 1000) / duration
+      : options.sampleRate;
+
+    return {
+      videoId: video.id,
+      videoUri: video.uri,
+      frames: indexed,
+      frameCount: indexed.length,
+      fps,
+      duration,
+      options,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private resolveOptions(options: Partial<FrameExtractionOptions>): FrameExtractionOptions {
+    return {
+      ...appConfig.analysis.frameExtraction,
+      ...options,
+    };
+  }
+
+  private getCacheDirectory(videoId: string, options: FrameExtractionOptions): string {
+    return `${VideoStorageService.getFramesDirectory(videoId)}${options.sampleRate}fps_${options.maxWidth}w_q${Math.round(options.quality * 100)}/`;
+  }
+}
+
+export const frameExtractionService = new FrameExtractionService();
+export default frameExtractionService;
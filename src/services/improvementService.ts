@@ -0,0 +1,90 @@
+import { Improvement, ImprovementPriority } from './analysisService';
+import { RuleResult, TechniqueScores } from './techniqueEvaluator';
+import { ScoreDimension } from '../config/techniqueRules';
+import { DIMENSION_ADVICE, MAINTENANCE_ADVICE } from '../config/improvementLibrary';
+import { getShot } from '../config/shotRegistry';
+
+export interface ImprovementInput {
+  scores: TechniqueScores;
+  rules?: RuleResult[]; // resultados del evaluador; sin ellos solo se usan las puntuaciones
+  shotType?: string; // con él se usan los consejos propios del golpe, si los tiene
+}
+
+const MAX_IMPROVEMENTS = 5;
+const SCORE_DIMENSIONS: ScoreDimension[] = ['posture', 'timing', 'followThrough', 'power', 'footwork'];
+const PRIORITY_ORDER: Record<ImprovementPriority, number> = { high: 0, medium: 1, low: 2 };
+
+interface RankedImprovement extends Improvement {
+  score: number;
+}
+
+/**
+ * Genera sugerencias de mejora a partir de lo que el jugador ha hecho en el golpe:
+ * primero las reglas técnicas no superadas y, para las dimensiones flojas sin regla
+ * que lo explique, un consejo general de esa dimensión
+ */
+export class ImprovementService {
+  generate(input: ImprovementInput): Improvement[] {
+    const ranked: RankedImprovement[] = [];
+    const failedRules = (input.rules || []).filter(rule => !rule.passed && rule.feedback);
+
+    failedRules.forEach(rule => {
+      ranked.push({
+        category: rule.dimension,
+        description: rule.feedback as string,
+        priority: this.getRulePriority(rule, input.scores[rule.dimension]),
+        difficulty: rule.difficulty,
+        score: rule.score,
+      });
+    });
+
+    const shotAdvice = input.shotType ? getShot(input.shotType)?.advice : undefined;
+    SCORE_DIMENSIONS.forEach(dimension => {
+      const score = input.scores[dimension];
+      const explained = failedRules.some(rule => rule.dimension === dimension);
+      if (explained || score >= 80) return;
+
+      const levels = shotAdvice?.[dimension] || DIMENSION_ADVICE[dimension];
+      const advice = score < 60 ? levels.low : levels.medium;
+      ranked.push({
+        category: dimension,
+        ...advice,
+        priority: this.getDimensionPriority(score),
+        score,
+      });
+    });
+
+    if (ranked.length === 0) {
+      return [{ category: 'general', priority: 'low', ...MAINTENANCE_ADVICE }];
+    }
+
+    const seen = new Set<string>();
+    return ranked
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.score - b.score)
+      .filter(improvement => {
+        if (seen.has(improvement.description)) return false;
+        seen.add(improvement.description);
+        return true;
+      })
+      .slice(0, MAX_IMPROVEMENTS)
+      .map(({ score, ...improvement }) => improvement);
+  }
+
+  /**
+   * Las reglas con más peso y las que hunden su dimensión son las más urgentes
+   */
+  private getRulePriority(rule: RuleResult, dimensionScore: number): ImprovementPriority {
+    if (rule.score < 40 || (rule.weight > 1 && rule.score < 55) || dimensionScore < 50) {
+      return 'high';
+    }
+    return rule.score < 60 ? 'medium' : 'low';
+  }
+
+  private getDimensionPriority(score: number): ImprovementPriority {
+    if (score < 60) return 'high';
+    return score < 70 ? 'medium' : 'low';
+  }
+}
+
+export const improvementService = new ImprovementService();
+export default improvementService;
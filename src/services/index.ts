@@ -5,15 +5,94 @@ export { analysisService } from './analysisService';
 export { videoService } from './videoService';
 export { userService } from './userService';
 export { statsService } from './statsService';
-export { aiService } from './aiService';
+export { aiService, createAIAnalysisError, isAIAnalysisError } from './aiService';
 export { VideoStorageService } from './videoStorageService';
+export { analysisEngineRegistry } from './analysisEngine';
+export { analysisQueueService } from './analysisQueueService';
+export { frameExtractionService } from './frameExtractionService';
+export { poseService } from './poseService';
+export { poseImportService } from './poseImportService';
+export { techniqueEvaluator } from './techniqueEvaluator';
+export { improvementService } from './improvementService';
+export { annotationService } from './annotationService';
+export { shotClassifier } from './shotClassifier';
+export { rallySegmentationService } from './rallySegmentationService';
+export { referenceTemplateService } from './referenceTemplateService';
+export { ballTrackingService } from './ballTrackingService';
+export { ballDetectionService } from './ballDetectionService';
+export { injuryRiskService } from './injuryRiskService';
+export { analysisVersionService } from './analysisVersionService';
+export { telestratorService } from './telestratorService';
+export { shotPhaseService, SHOT_PHASE_LABELS, SHOT_PHASE_COLORS, SHOT_PHASE_ORDER } from './shotPhaseService';
 
 // Type exports
 export type { ApiResponse, ApiError } from './apiClient';
 export type { User, LoginRequest, RegisterRequest, AuthResponse } from './authService';
-export type { AnalysisResult, CreateAnalysisRequest, UpdateAnalysisRequest } from './analysisService';
+export type {
+  AnalysisResult,
+  CreateAnalysisRequest,
+  UpdateAnalysisRequest,
+  AnalysisScores,
+  DetectedShot,
+  DimensionResult,
+  FlatAnalysisScores,
+  Improvement,
+  ImprovementCategory,
+  ImprovementPriority,
+  ImprovementDifficulty,
+} from './analysisService';
 export type { VideoFile, VideoUploadOptions, VideoValidationResult } from './videoService';
 export type { UserProfile, UserStats, UserSettings } from './userService';
 export type { StatsOverview, PerformanceStats, ComparisonStats } from './statsService';
-export type { AnalysisRequest, AnalysisResult as AIAnalysisResult } from './aiService';
-export type { StoredVideo, VideoMetadata } from './videoStorageService';
\ No newline at end of file
+export type {
+  AnalysisRequest,
+  PoseImportRequest,
+  AnalysisResult as AIAnalysisResult,
+  LegacyAnalysisResult,
+  AnalysisClip,
+  AIAnalysisError,
+  AIAnalysisErrorCode,
+} from './aiService';
+export type {
+  StoredVideo,
+  StoredStroke,
+  StoredAnalysis,
+  AnalysisHistoryEntry,
+  VideoMarker,
+  VideoMetadata,
+} from './videoStorageService';
+export type { FrameSequence, ExtractedFrame, FrameExtractionOptions } from './frameExtractionService';
+export type { PoseJoint, PoseKeypoint, PoseFrame, PoseTrack, PoseTrackSource, Handedness } from './poseService';
+export type { PoseFileFormat, PoseImportOptions } from './poseImportService';
+export type { TechniqueEvaluation, TechniqueScores, RuleResult, RacketSpeedEstimate } from './techniqueEvaluator';
+export type { ImprovementInput } from './improvementService';
+export type { AnalysisAnnotation } from './annotationService';
+export type { ShotClassification, ShotTypeCandidate } from './shotClassifier';
+export type { StrokeSegment } from './rallySegmentationService';
+export type {
+  ReferenceTemplate,
+  ReferenceTemplateSource,
+  BodyPoseFrame,
+  JointDeviationCurve,
+  TemplateComparison,
+} from './referenceTemplateService';
+export type {
+  BallTrack,
+  BallTrackSource,
+  BallDetection,
+  BallDetector,
+  BallAnalysis,
+  BallTrajectoryPoint,
+  BallImportOptions,
+} from './ballTrackingService';
+export type {
+  InjuryRiskAssessment,
+  InjuryRiskWarning,
+  InjuryRiskHistory,
+  InjuryRiskHistoryEntry,
+} from './injuryRiskService';
+export type { ScoreHistoryEntry, RescoreProgress, RescoreSummary } from './analysisVersionService';
+export type { DrawingTool, DrawingShape, FrameDrawing } from './telestratorService';
+export type { ShotPhase, ShotPhaseName, ShotPhaseSegmentation } from './shotPhaseService';
+export type { AnalysisJob, AnalysisJobStatus, AnalysisJobListener } from './analysisQueueService';
+export type { AnalysisEngine, AnalysisEngineId, AnalysisEngineInput, AnalysisProgressEvent } from './analysisEngine';
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { poseService, PoseFrame, PoseJoint, PoseTrack } from './poseService';
+import type { TechniqueEvaluation } from './techniqueEvaluator';
+import { VideoStorageService } from './videoStorageService';
+import { PoseGeometry, Point2D } from '../utils/poseGeometry';
+import { appConfig } from '../config/appConfig';
+import {
+  INJURY_RISK_RULES,
+  DEFAULT_INJURY_RISK_RULES,
+  RISK_TREND_WINDOW,
+  RISK_TREND_MARGIN,
+  InjuryRiskRule,
+  RiskJoint,
+  RiskMetric,
+  RiskSeverity,
+} from '../config/injuryRisk';
+import type { CameraAngle } from '../config/cameraAngles';
+
+export interface InjuryRiskWarning {
+  metric: RiskMetric;
+  joint: RiskJoint;
+  severity: RiskSeverity;
+  value: number; // grados
+  threshold: number; // umbral alcanzado
+  timestamp: number; // ms, frame en el que se midió el pico
+  message: string;
+  advice: string;
+}
+
+export interface InjuryRiskAssessment {
+  angles: Partial<Record<RiskMetric, number>>; // pico de cada ángulo medido (grados)
+  warnings: InjuryRiskWarning[];
+  riskScore: number; // 0-100; 0 = ningún ángulo alcanza los umbrales del golpe
+}
+
+export interface InjuryRiskHistoryEntry {
+  timestamp: string; // grabación del video
+  shotType: string;
+  riskScore: number;
+  joints: RiskJoint[]; // articulaciones con aviso
+  engineVersion: string; // versión de las reglas con la que se evaluó
+}
+
+export interface InjuryRiskHistory {
+  entries: InjuryRiskHistoryEntry[]; // del más antiguo al más reciente
+  recentAverage: number;
+  previousAverage: number | null; // null si todavía no hay análisis anteriores con los que comparar
+  trend: 'decreasing' | 'stable' | 'increasing';
+}
+
+// Frames a cada lado del impacto en los que se busca el pico de codo y hombro
+const RISK_CONTACT_WINDOW = 2;
+
+/**
+ * Avisos de riesgo de lesión a partir de los ángulos articulares de la pose.
+ * Van aparte de la puntuación técnica: un golpe puede puntuar bien y cargar igualmente la articulación.
+ */
+export class InjuryRiskService {
+  /**
+   * Mide los ángulos de riesgo del golpe ya evaluado y los compara con los umbrales de su tipo
+   */
+  assess(
+    track: PoseTrack,
+    evaluation: Pick<TechniqueEvaluation, 'shotType' | 'handedness' | 'cameraAngle' | 'phases' | 'contactFrameIndex'>
+  ): InjuryRiskAssessment {
+    // Mismo orden de frames que en la evaluación técnica, para que los índices de las fases coincidan
+    const oriented = poseService.orientForHandedness(track, evaluation.handedness);
+    const frames = [...oriented.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const aspect = poseService.getAspectRatio(oriented);
+    const point = (frame: PoseFrame, joint: PoseJoint) => poseService.getPoint(frame, joint, aspect);
+
+    const contactIndex = evaluation.contactFrameIndex;
+    const contactFrames = frames.slice(
+      Math.max(0, contactIndex - RISK_CONTACT_WINDOW),
+      contactIndex + RISK_CONTACT_WINDOW + 1
+    );
+    const backswing = evaluation.phases.find(phase => phase.name === 'backswing');
+    const followThrough = evaluation.phases.find(phase => phase.name === 'followThrough');
+    const swingFrames = frames.slice(
+      backswing ? backswing.startFrame : 0,
+      followThrough ? followThrough.endFrame + 1 : frames.length
+    );
+
+    const peaks: Partial<Record<RiskMetric, { value: number; timestamp: number }>> = {
+      elbowExtension: this.getPeak(contactFrames, frame => {
+        const shoulder = point(frame, 'rightShoulder');
+        const elbow = point(frame, 'rightElbow');
+        const wrist = point(frame, 'rightWrist');
+        return shoulder && elbow && wrist ? PoseGeometry.angle(shoulder, elbow, wrist) : null;
+      }),
+      shoulderAbduction: this.getPeak(contactFrames, frame => {
+        const hip = point(frame, 'rightHip');
+        const shoulder = point(frame, 'rightShoulder');
+        const elbow = point(frame, 'rightElbow');
+        return hip && shoulder && elbow ? PoseGeometry.angle(hip, shoulder, elbow) : null;
+      }),
+      lumbarFlexion: this.getPeak(swingFrames, frame => {
+        const shoulderMid = this.midpoint(point(frame, 'leftShoulder'), point(frame, 'rightShoulder'));
+        const hipMid = this.midpoint(point(frame, 'leftHip'), point(frame, 'rightHip'));
+        const kneeMid = this.midpoint(point(frame, 'leftKnee'), point(frame, 'rightKnee'));
+        return shoulderMid && hipMid && kneeMid ? 180 - PoseGeometry.angle(shoulderMid, hipMid, kneeMid) : null;
+      }),
+    };
+
+    const angles: Partial<Record<RiskMetric, number>> = {};
+    const warnings: InjuryRiskWarning[] = [];
+    let riskScore = 0;
+
+    this.getRules(evaluation.shotType, evaluation.cameraAngle).forEach(rule => {
+      const peak = peaks[rule.metric];
+      if (!peak) return;
+
+      angles[rule.metric] = Math.round(peak.value);
+      riskScore = Math.max(riskScore, this.getRuleRisk(rule, peak.value));
+
+      const severity: RiskSeverity | null =
+        peak.value >= rule.thresholds.high ? 'high' : peak.value >= rule.thresholds.moderate ? 'moderate' : null;
+      if (severity) {
+        warnings.push({
+          metric: rule.metric,
+          joint: rule.joint,
+          severity,
+          value: Math.round(peak.value),
+          threshold: rule.thresholds[severity],
+          timestamp: peak.timestamp,
+          message: rule.message,
+          advice: rule.advice,
+        });
+      }
+    });
+
+    return {
+      angles,
+      warnings: warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'high' ? -1 : 1)),
+      riskScore: Math.round(riskScore),
+    };
+  }
+
+  /**
+   * Reglas de riesgo del golpe que se pueden medir desde el ángulo de cámara
+   */
+  getRules(shotType: string, cameraAngle?: CameraAngle): InjuryRiskRule[] {
+    const rules = INJURY_RISK_RULES[shotType] || DEFAULT_INJURY_RISK_RULES;
+    return cameraAngle
+      ? rules.filter(rule => !rule.cameraAngles || rule.cameraAngles.includes(cameraAngle))
+      : rules;
+  }
+
+  /**
+   * Historial de riesgo del jugador a partir de los análisis guardados con sus videos,
+   * incluidos los golpes de los ejercicios
+   */
+  async getHistory(shotType?: string): Promise<InjuryRiskHistory> {
+    const analyses = await VideoStorageService.getAllAnalyses();
+
+    // Ordenado por la grabación: un análisis recalculado no cambia su posición en el historial
+    const entries: InjuryRiskHistoryEntry[] = analyses
+      .flatMap(({ video, stroke, result }) => {
+        const { injuryRisk } = result;
+        if (!injuryRisk || (shotType && result.shotType !== shotType)) return [];
+
+        return [{
+          timestamp: new Date(video.timestamp + (stroke?.startTime || 0)).toISOString(),
+          shotType: result.shotType,
+          riskScore: injuryRisk.riskScore,
+          joints: Array.from(new Set(injuryRisk.warnings.map(warning => warning.joint))),
+          engineVersion: result.engineVersion || appConfig.analysis.legacyEngineVersion,
+        }];
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    return this.summarizeHistory(entries);
+  }
+
+  /**
+   * Tendencia: media de los últimos análisis frente a la de los anteriores
+   */
+  summarizeHistory(entries: InjuryRiskHistoryEntry[]): InjuryRiskHistory {
+    const average = (list: InjuryRiskHistoryEntry[]) =>
+      list.reduce((sum, entry) => sum + entry.riskScore, 0) / list.length;
+
+    const recent = entries.slice(-RISK_TREND_WINDOW);
+    const previous = entries.slice(-RISK_TREND_WINDOW * 2, -RISK_TREND_WINDOW);
+    const recentAverage = recent.length > 0 ? Math.round(average(recent)) : 0;
+    const previousAverage = previous.length > 0 ? Math.round(average(previous)) : null;
+
+    let trend: InjuryRiskHistory['trend'] = 'stable';
+    if (previousAverage !== null) {
+      if (recentAverage < previousAverage - RISK_TREND_MARGIN) trend = 'decreasing';
+      else if (recentAverage > previousAverage + RISK_TREND_MARGIN) trend = 'increasing';
+    }
+
+    return { entries, recentAverage, previousAverage, trend };
+  }
+
+  /**
+   * Riesgo de una regla (0-100): 50 al alcanzar el umbral moderado y 100 al alcanzar el alto
+   */
+  private getRuleRisk(rule: InjuryRiskRule, value: number): number {
+    const { moderate, high } = rule.thresholds;
+    if (value < moderate) return 0;
+    return Math.min(100, 50 + ((value - moderate) / Math.max(high - moderate, 1)) * 50);
+  }
+
+  private getPeak(
+    frames: PoseFrame[],
+    measure: (frame: PoseFrame) => number | null
+  ): { value: number; timestamp: number } | undefined {
+    let peak: { value: number; timestamp: number } | undefined;
+    frames.forEach(frame => {
+      const value = measure(frame);
+      if (value !== null && (!peak || value > peak.value)) {
+        peak = { value, timestamp: frame.timestamp };
+      }
+    });
+    return peak;
+  }
+
+  private midpoint(a: Point2D | null, b: Point2D | null): Point2D | null {
+    return a && b ? PoseGeometry.midpoint(a, b) : null;
+  }
+}
+
+export const injuryRiskService = new InjuryRiskService();
+export default injuryRiskService;
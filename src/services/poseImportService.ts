@@ -0,0 +1,290 @@
+import * as FileSystem from 'expo-file-system';
+import { PoseFrame, PoseJoint, PoseKeypoint, PoseTrack } from './poseService';
+
+export type PoseFileFormat = 'mediapipe' | 'openpose';
+
+export interface PoseImportOptions {
+  format?: PoseFileFormat; // detected from the content when omitted
+  fps?: number; // used when the file has no timestamps
+  frameWidth?: number; // required for OpenPose (pixel coordinates)
+  frameHeight?: number;
+}
+
+/**
+ * MediaPipe Pose (BlazePose, 33 landmarks) indices for our joints
+ */
+const MEDIAPIPE_JOINTS: Record<PoseJoint, number> = {
+  nose: 0,
+  leftEye: 2,
+  rightEye: 5,
+  leftEar: 7,
+  rightEar: 8,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftElbow: 13,
+  rightElbow: 14,
+  leftWrist: 15,
+  rightWrist: 16,
+  leftHip: 23,
+  rightHip: 24,
+  leftKnee: 25,
+  rightKnee: 26,
+  leftAnkle: 27,
+  rightAnkle: 28,
+};
+
+/**
+ * OpenPose BODY_25 indices for our joints
+ */
+const OPENPOSE_BODY25_JOINTS: Record<PoseJoint, number> = {
+  nose: 0,
+  rightShoulder: 2,
+  rightElbow: 3,
+  rightWrist: 4,
+  leftShoulder: 5,
+  leftElbow: 6,
+  leftWrist: 7,
+  rightHip: 9,
+  rightKnee: 10,
+  rightAnkle: 11,
+  leftHip: 12,
+  leftKnee: 13,
+  leftAnkle: 14,
+  rightEye: 15,
+  leftEye: 16,
+  rightEar: 17,
+  leftEar: 18,
+};
+
+/**
+ * OpenPose COCO (18 keypoints) indices for our joints
+ */
+const OPENPOSE_COCO_JOINTS: Record<PoseJoint, number> = {
+  nose: 0,
+  rightShoulder: 2,
+  rightElbow: 3,
+  rightWrist: 4,
+  leftShoulder: 5,
+  leftElbow: 6,
+  leftWrist: 7,
+  rightHip: 8,
+  rightKnee: 9,
+  rightAnkle: 10,
+  leftHip: 11,
+  leftKnee: 12,
+  leftAnkle: 13,
+  rightEye: 14,
+  leftEye: 15,
+  rightEar: 16,
+  leftEar: 17,
+};
+
+const DEFAULT_FPS = 30;
+
+export class PoseImportService {
+  /**
+   * Read a MediaPipe / OpenPose JSON file and normalise it into a pose track
+   */
+  async importFile(fileUri: string, videoId: string, options: PoseImportOptions = {}): Promise<PoseTrack> {
+    let content: string;
+    try {
+      content = await FileSystem.readAsStringAsync(fileUri);
+    } catch (error) {
+      console.error('Error reading pose file:', error);
+      throw new Error('No se pudo leer el archivo de pose');
+    }
+
+    return this.importJson(content, videoId, options);
+  }
+
+  /**
+   * Normalise MediaPipe / OpenPose JSON (string or parsed) into a pose track
+   */
+  importJson(json: string | unknown, videoId: string, options: PoseImportOptions = {}): PoseTrack {
+    let data: unknown;
+    try {
+      data = typeof json === 'string' ? JSON.parse(json) : json;
+    } catch (error) {
+      throw new Error('El archivo de pose no es un JSON válido');
+    }
+
+    const format = options.format || this.detectFormat(data);
+    if (!format) {
+      throw new Error('Formato de pose no reconocido (se espera MediaPipe u OpenPose)');
+    }
+
+    const frames = format === 'mediapipe'
+      ? this.parseMediaPipe(data, options)
+      : this.parseOpenPose(data, options);
+
+    if (frames.length === 0) {
+      throw new Error('El archivo de pose no contiene frames con keypoints');
+    }
+
+    return {
+      videoId,
+      source: format,
+      frames,
+      frameWidth: options.frameWidth,
+      frameHeight: options.frameHeight,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Guess the format from the JSON structure
+   */
+  detectFormat(data: unknown): PoseFileFormat | null {
+    const first = this.getFrameList(data)[0];
+    if (!first || typeof first !== 'object') {
+      return null;
+    }
+
+    if ('people' in first) {
+      return 'openpose';
+    }
+
+    if (this.getMediaPipeLandmarks(first)) {
+      return 'mediapipe';
+    }
+
+    return null;
+  }
+
+  private parseMediaPipe(data: unknown, options: PoseImportOptions): PoseFrame[] {
+    const fps = options.fps || DEFAULT_FPS;
+
+    return this.getFrameList(data)
+      .map((frame, index) => {
+        const landmarks = this.getMediaPipeLandmarks(frame);
+        if (!landmarks) return null;
+
+        const keypoints: PoseFrame['keypoints'] = {};
+        (Object.keys(MEDIAPIPE_JOINTS) as PoseJoint[]).forEach(joint => {
+          const landmark = landmarks[MEDIAPIPE_JOINTS[joint]];
+          if (!landmark) return;
+
+          keypoints[joint] = this.createKeypoint(
+            landmark.x,
+            landmark.y,
+            landmark.visibility ?? landmark.presence ?? 1
+          );
+        });
+
+        return {
+          timestamp: this.getTimestamp(frame, index, fps),
+          keypoints,
+        };
+      })
+      .filter((frame): frame is PoseFrame => frame !== null);
+  }
+
+  private parseOpenPose(data: unknown, options: PoseImportOptions): PoseFrame[] {
+    const { frameWidth, frameHeight } = options;
+    if (!frameWidth || !frameHeight) {
+      throw new Error('Las coordenadas de OpenPose requieren el ancho y alto del video');
+    }
+
+    const fps = options.fps || DEFAULT_FPS;
+
+    return this.getFrameList(data)
+      .map((frame, index) => {
+        const values = this.getMainPerson(frame);
+        if (!values) return null;
+
+        const jointMap = values.length >= 75 ? OPENPOSE_BODY25_JOINTS : OPENPOSE_COCO_JOINTS;
+        const keypoints: PoseFrame['keypoints'] = {};
+
+        (Object.keys(jointMap) as PoseJoint[]).forEach(joint => {
+          const offset = jointMap[joint] * 3;
+          const [x, y, confidence] = values.slice(offset, offset + 3);
+
+          // OpenPose writes 0,0,0 for undetected keypoints
+          if (confidence === undefined || confidence <= 0) return;
+
+          keypoints[joint] = this.createKeypoint(x / frameWidth, y / frameHeight, confidence);
+        });
+
+        return {
+          timestamp: this.getTimestamp(frame, index, fps),
+          keypoints,
+        };
+      })
+      .filter((frame): frame is PoseFrame => frame !== null);
+  }
+
+  /**
+   * Accepts a single frame, an array of frames or an object with a frames array
+   */
+  private getFrameList(data: unknown): any[] {
+    if (Array.isArray(data)) {
+      return data;
+    }
+
+    if (data && typeof data === 'object') {
+      const record = data as Record<string, unknown>;
+      if (Array.isArray(record.frames)) {
+        return record.frames;
+      }
+      return [data];
+    }
+
+    return [];
+  }
+
+  private getMediaPipeLandmarks(frame: any): any[] | null {
+    const candidates = [
+      frame.landmarks,
+      frame.poseLandmarks,
+      frame.pose_landmarks,
+      frame.pose_landmarks?.landmark,
+    ];
+
+    for (const candidate of candidates) {
+      // Tasks API exports one landmark list per detected person
+      const list = Array.isArray(candidate?.[0]) ? candidate[0] : candidate;
+      if (Array.isArray(list) && list.length >= 29 && typeof list[0]?.x === 'number') {
+        return list;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * With several people in frame, keep the one detected with most confidence
+   */
+  private getMainPerson(frame: any): number[] | null {
+    const people: any[] = Array.isArray(frame.people) ? frame.people : [];
+    let best: number[] | null = null;
+    let bestConfidence = 0;
+
+    for (const person of people) {
+      const values: number[] = person.pose_keypoints_2d || [];
+      let confidence = 0;
+      for (let i = 2; i < values.length; i += 3) {
+        confidence += values[i];
+      }
+
+      if (confidence > bestConfidence) {
+        best = values;
+        bestConfidence = confidence;
+      }
+    }
+
+    return best;
+  }
+
+  private getTimestamp(frame: any, index: number, fps: number): number {
+    const timestamp = frame.timestamp ?? frame.timestamp_ms ?? frame.timestampMs;
+    return typeof timestamp === 'number' ? timestamp : Math.round((index * 1000) / fps);
+  }
+
+  private createKeypoint(x: number, y: number, visibility: number): PoseKeypoint {
+    const clamp = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+    return { x: clamp(x), y: clamp(y), visibility: clamp(visibility) };
+  }
+}
+
+export const poseImportService = new PoseImportService();
+export default poseImportService;
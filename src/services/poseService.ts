@@ -0,0 +1,344 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VideoStorageService } from './videoStorageService';
+import { PoseGeometry, Point2D } from '../utils/poseGeometry';
+import type { CameraAngle } from '../config/cameraAngles';
+import { AVERAGE_PLAYER_HEIGHT, TORSO_HEIGHT_RATIO, RACKET_LENGTH } from '../config/playerCalibration';
+
+/**
+ * Body landmarks tracked for each frame (COCO 17-keypoint layout)
+ */
+export const POSE_JOINTS = [
+  'nose',
+  'leftEye',
+  'rightEye',
+  'leftEar',
+  'rightEar',
+  'leftShoulder',
+  'rightShoulder',
+  'leftElbow',
+  'rightElbow',
+  'leftWrist',
+  'rightWrist',
+  'leftHip',
+  'rightHip',
+  'leftKnee',
+  'rightKnee',
+  'leftAnkle',
+  'rightAnkle',
+] as const;
+
+export type PoseJoint = typeof POSE_JOINTS[number];
+
+export interface PoseKeypoint {
+  x: number; // 0-1, relative to frame width (left to right)
+  y: number; // 0-1, relative to frame height (top to bottom)
+  visibility: number; // 0-1
+}
+
+export interface PoseFrame {
+  timestamp: number; // milliseconds from the start of the clip
+  keypoints: Partial<Record<PoseJoint, PoseKeypoint>>;
+}
+
+export type PoseTrackSource = 'device' | 'mediapipe' | 'openpose' | 'fixture';
+
+// Below this shoulder width (in torso lengths) the player is filmed side-on
+const SIDE_ON_SHOULDER_WIDTH = 0.35;
+const MIN_ANGLE_FRAMES = 3;
+
+/**
+ * Hand the player holds the racket with
+ */
+export type Handedness = 'right' | 'left';
+
+export interface PoseTrack {
+  videoId: string;
+  source: PoseTrackSource;
+  frames: PoseFrame[];
+  frameWidth?: number;
+  frameHeight?: number;
+  createdAt: string;
+  mirrored?: boolean; // left-handed track reflected so the racket arm is the right one
+  timeOffset?: number; // ms from the start of the video to frame time 0 (stroke clips of a drill)
+}
+
+export class PoseService {
+  private readonly WEB_TRACK_KEY_PREFIX = 'padeltech_pose_track_';
+
+  /**
+   * Persist the pose track of a stored video
+   */
+  async saveTrack(track: PoseTrack): Promise<void> {
+    try {
+      const validation = this.validateTrack(track);
+      if (!validation.isValid) {
+        throw new Error(validation.error);
+      }
+
+      const frames = [...track.frames].sort((a, b) => a.timestamp - b.timestamp);
+      const data = JSON.stringify({ ...track, frames });
+
+      if (Platform.OS === 'web') {
+        await AsyncStorage.setItem(this.WEB_TRACK_KEY_PREFIX + track.videoId, data);
+      } else {
+        const trackUri = VideoStorageService.getPoseTrackUri(track.videoId);
+        const directory = trackUri.substring(0, trackUri.lastIndexOf('/') + 1);
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+        await FileSystem.writeAsStringAsync(trackUri, data);
+      }
+
+      await VideoStorageService.updateVideo(track.videoId, { hasPoseTrack: true });
+      console.log(`Saved pose track (${frames.length} frames) for video:`, track.videoId);
+    } catch (error) {
+      console.error('Error saving pose track:', error);
+      throw new Error('Failed to save pose track');
+    }
+  }
+
+  /**
+   * Get the pose track of a stored video
+   */
+  async getTrack(videoId: string): Promise<PoseTrack | null> {
+    try {
+      if (Platform.OS === 'web') {
+        const data = await AsyncStorage.getItem(this.WEB_TRACK_KEY_PREFIX + videoId);
+        return data ? JSON.parse(data) : null;
+      }
+
+      const trackUri = VideoStorageService.getPoseTrackUri(videoId);
+      const fileInfo = await FileSystem.getInfoAsync(trackUri);
+      if (!fileInfo.exists) {
+        return null;
+      }
+
+      return JSON.parse(await FileSystem.readAsStringAsync(trackUri));
+    } catch (error) {
+      console.error('Error getting pose track:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete the pose track of a stored video
+   */
+  async deleteTrack(videoId: string): Promise<void> {
+    try {
+      if (Platform.OS === 'web') {
+        await AsyncStorage.removeItem(this.WEB_TRACK_KEY_PREFIX + videoId);
+      } else {
+        await FileSystem.deleteAsync(VideoStorageService.getPoseTrackUri(videoId), { idempotent: true });
+      }
+
+      await VideoStorageService.updateVideo(videoId, { hasPoseTrack: false });
+    } catch (error) {
+      console.error('Error deleting pose track:', error);
+    }
+  }
+
+  /**
+   * Check that a track has frames with usable, normalised keypoints
+   */
+  validateTrack(track: PoseTrack): { isValid: boolean; error?: string } {
+    if (!track.videoId) {
+      return { isValid: false, error: 'Pose track has no video id' };
+    }
+
+    if (track.frames.length === 0) {
+      return { isValid: false, error: 'Pose track has no frames' };
+    }
+
+    for (const frame of track.frames) {
+      for (const keypoint of Object.values(frame.keypoints)) {
+        if (!keypoint) continue;
+        const outOfRange = [keypoint.x, keypoint.y, keypoint.visibility].some(
+          value => !Number.isFinite(value) || value < 0 || value > 1
+        );
+        if (outOfRange) {
+          return { isValid: false, error: `Keypoint out of range at ${frame.timestamp}ms` };
+        }
+      }
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Get a keypoint only if it is visible enough to be trusted
+   */
+  getKeypoint(frame: PoseFrame, joint: PoseJoint, minVisibility: number = 0.5): PoseKeypoint | null {
+    const keypoint = frame.keypoints[joint];
+    return keypoint && keypoint.visibility >= minVisibility ? keypoint : null;
+  }
+
+  /**
+   * Average visibility of a joint over the whole track
+   */
+  getJointVisibility(track: PoseTrack, joint: PoseJoint): number {
+    if (track.frames.length === 0) return 0;
+
+    const total = track.frames.reduce(
+      (sum, frame) => sum + (frame.keypoints[joint]?.visibility || 0),
+      0
+    );
+    return total / track.frames.length;
+  }
+
+  /**
+   * Width / height ratio used to keep x and y in the same proportions
+   */
+  getAspectRatio(track: PoseTrack): number {
+    return track.frameWidth && track.frameHeight ? track.frameWidth / track.frameHeight : 1;
+  }
+
+  /**
+   * Visible keypoint as a 2D point with x scaled by the aspect ratio
+   */
+  getPoint(frame: PoseFrame, joint: PoseJoint, aspect: number = 1, minVisibility: number = 0.5): Point2D | null {
+    const keypoint = this.getKeypoint(frame, joint, minVisibility);
+    return keypoint ? { x: keypoint.x * aspect, y: keypoint.y } : null;
+  }
+
+  /**
+   * Midpoint of two visible joints (e.g. shoulder or hip centre)
+   */
+  getMidpoint(frame: PoseFrame, a: PoseJoint, b: PoseJoint, aspect: number = 1): Point2D | null {
+    const pointA = this.getPoint(frame, a, aspect);
+    const pointB = this.getPoint(frame, b, aspect);
+    return pointA && pointB ? PoseGeometry.midpoint(pointA, pointB) : null;
+  }
+
+  /**
+   * Median shoulder-centre to hip-centre distance, used as the body scale unit
+   */
+  getTorsoLength(frames: PoseFrame[], aspect: number = 1): number {
+    const lengths = frames
+      .map(frame => {
+        const shoulderMid = this.getMidpoint(frame, 'leftShoulder', 'rightShoulder', aspect);
+        const hipMid = this.getMidpoint(frame, 'leftHip', 'rightHip', aspect);
+        return shoulderMid && hipMid ? PoseGeometry.distance(shoulderMid, hipMid) : null;
+      })
+      .filter((length): length is number => length !== null);
+
+    return PoseGeometry.median(lengths);
+  }
+
+  /**
+   * Metres per image unit (x scaled by aspect), taking the torso as a fixed fraction of the
+   * player's height. Without a height the average adult is assumed.
+   */
+  getMetresPerUnit(torsoLength: number, playerHeight?: number): number {
+    if (torsoLength <= 0) return 0;
+    const heightMetres = (playerHeight || AVERAGE_PLAYER_HEIGHT) / 100;
+    return (heightMetres * TORSO_HEIGHT_RATIO) / torsoLength;
+  }
+
+  /**
+   * Smoothed per-frame speed of a joint, in `unit` lengths per second
+   */
+  getJointSpeeds(frames: PoseFrame[], joint: PoseJoint, aspect: number = 1, unit: number = 1): number[] {
+    return this.getPathSpeeds(frames, frames.map(frame => this.getPoint(frame, joint, aspect)), unit);
+  }
+
+  /**
+   * Smoothed per-frame speed of the racket head, in km/h. The racket is not tracked, so its head is
+   * placed one racket length beyond the wrist along the forearm (elbow → wrist).
+   */
+  getRacketHeadSpeeds(frames: PoseFrame[], aspect: number, metresPerUnit: number): number[] {
+    if (metresPerUnit <= 0) return frames.map(() => 0);
+
+    const racketLength = RACKET_LENGTH / metresPerUnit;
+    const heads = frames.map(frame => {
+      const elbow = this.getPoint(frame, 'rightElbow', aspect);
+      const wrist = this.getPoint(frame, 'rightWrist', aspect);
+      if (!elbow || !wrist) return null;
+
+      const forearm = PoseGeometry.distance(elbow, wrist);
+      if (forearm === 0) return null;
+      return {
+        x: wrist.x + ((wrist.x - elbow.x) / forearm) * racketLength,
+        y: wrist.y + ((wrist.y - elbow.y) / forearm) * racketLength,
+      };
+    });
+
+    // m/s → km/h
+    return this.getPathSpeeds(frames, heads, 1 / metresPerUnit).map(speed => speed * 3.6);
+  }
+
+  /**
+   * Guess the filming angle from the shoulders: narrow shoulders mean side-on, and the right
+   * shoulder appears on the right of the image only when the player has their back to the camera
+   */
+  detectCameraAngle(track: PoseTrack): CameraAngle | null {
+    const aspect = this.getAspectRatio(track);
+    const torsoLength = this.getTorsoLength(track.frames, aspect);
+    if (torsoLength === 0) return null;
+
+    const offsets = track.frames
+      .map(frame => {
+        const left = this.getPoint(frame, 'leftShoulder', aspect);
+        const right = this.getPoint(frame, 'rightShoulder', aspect);
+        return left && right ? (right.x - left.x) / torsoLength : null;
+      })
+      .filter((offset): offset is number => offset !== null);
+
+    if (offsets.length < MIN_ANGLE_FRAMES) return null;
+
+    if (PoseGeometry.median(offsets.map(Math.abs)) < SIDE_ON_SHOULDER_WIDTH) return 'side';
+    return PoseGeometry.median(offsets) > 0 ? 'behind' : 'front';
+  }
+
+  /**
+   * Track as seen by the analysis, which assumes the racket is in the right hand.
+   * Left-handed tracks are mirrored once; already mirrored tracks are returned as they are.
+   */
+  orientForHandedness(track: PoseTrack, handedness: Handedness): PoseTrack {
+    return handedness === 'left' && !track.mirrored ? this.mirrorTrack(track) : track;
+  }
+
+  /**
+   * Reflect a track horizontally and swap left/right landmarks
+   */
+  mirrorTrack(track: PoseTrack): PoseTrack {
+    const frames = track.frames.map(frame => {
+      const keypoints: Partial<Record<PoseJoint, PoseKeypoint>> = {};
+      (Object.keys(frame.keypoints) as PoseJoint[]).forEach(joint => {
+        const keypoint = frame.keypoints[joint];
+        if (keypoint) {
+          keypoints[this.getOppositeJoint(joint)] = { ...keypoint, x: 1 - keypoint.x };
+        }
+      });
+      return { ...frame, keypoints };
+    });
+
+    return { ...track, frames, mirrored: !track.mirrored };
+  }
+
+  /**
+   * Same landmark on the other side of the body (nose maps to itself)
+   */
+  getOppositeJoint(joint: PoseJoint): PoseJoint {
+    if (joint.startsWith('left')) return joint.replace('left', 'right') as PoseJoint;
+    if (joint.startsWith('right')) return joint.replace('right', 'left') as PoseJoint;
+    return joint;
+  }
+
+  private getPathSpeeds(frames: PoseFrame[], points: Array<Point2D | null>, unit: number): number[] {
+    const speeds = frames.map((frame, i) => {
+      if (i === 0 || unit <= 0) return 0;
+
+      const previous = points[i - 1];
+      const current = points[i];
+      const dt = (frame.timestamp - frames[i - 1].timestamp) / 1000;
+
+      if (!previous || !current || dt <= 0) return 0;
+      return PoseGeometry.distance(previous, current) / unit / dt;
+    });
+
+    return PoseGeometry.smooth(speeds, 3);
+  }
+}
+
+export const poseService = new PoseService();
+export default poseService;
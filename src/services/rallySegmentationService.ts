@@ -0,0 +1,205 @@
+import { poseService, PoseTrack } from './poseService';
+import type { EvaluationContext } from './techniqueEvaluator';
+import { aiService, createAIAnalysisError } from './aiService';
+import { shotClassifier } from './shotClassifier';
+import { VideoStorageService, StoredStroke } from './videoStorageService';
+import { appConfig } from '../config/appConfig';
+
+export interface StrokeSegment {
+  index: number;
+  startTime: number; // ms desde el inicio del video
+  endTime: number; // ms
+  contactTime: number; // ms, pico de velocidad de la muñeca
+  startFrame: number;
+  endFrame: number;
+}
+
+// Velocidad mínima de la muñeca (longitudes de tronco por segundo) para contar un golpe
+const MIN_STROKE_SPEED = 4;
+// Dos impactos más cercanos que esto se consideran el mismo golpe
+const MIN_STROKE_GAP = 800;
+// Margen alrededor del impacto que cubre preparación y terminación
+const STROKE_LEAD_TIME = 1200;
+const STROKE_TAIL_TIME = 800;
+const MIN_STROKE_FRAMES = 8;
+
+/**
+ * Divide la grabación de un ejercicio en golpes individuales a partir de los picos
+ * de velocidad de la muñeca de la raqueta, y analiza cada golpe por separado.
+ * La pista debe estar orientada como la de un diestro (ver poseService.orientForHandedness).
+ */
+export class RallySegmentationService {
+  /**
+   * Tramos de la pista de pose que contienen un golpe, en orden
+   */
+  segment(track: PoseTrack): StrokeSegment[] {
+    const frames = [...track.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const aspect = poseService.getAspectRatio(track);
+
+    const torsoLength = poseService.getTorsoLength(frames, aspect);
+    if (torsoLength === 0) {
+      throw new Error('No se detectan hombros y caderas con suficiente claridad');
+    }
+
+    const speeds = poseService.getJointSpeeds(frames, 'rightWrist', aspect, torsoLength);
+    const contacts = this.findContactFrames(speeds, frames.map(frame => frame.timestamp));
+
+    const segments: StrokeSegment[] = [];
+    contacts.forEach((contactIndex, i) => {
+      const contactTime = frames[contactIndex].timestamp;
+      // Entre dos golpes seguidos el corte se hace a medio camino
+      const previousContact = i > 0 ? frames[contacts[i - 1]].timestamp : -Infinity;
+      const nextContact = i < contacts.length - 1 ? frames[contacts[i + 1]].timestamp : Infinity;
+      const startLimit = Math.max(contactTime - STROKE_LEAD_TIME, (previousContact + contactTime) / 2);
+      const endLimit = Math.min(contactTime + STROKE_TAIL_TIME, (contactTime + nextContact) / 2);
+
+      const startFrame = frames.findIndex(frame => frame.timestamp >= startLimit);
+      let endFrame = contactIndex;
+      while (endFrame < frames.length - 1 && frames[endFrame + 1].timestamp <= endLimit) endFrame++;
+
+      if (endFrame - startFrame + 1 < MIN_STROKE_FRAMES) return;
+
+      segments.push({
+        index: segments.length,
+        startTime: frames[startFrame].timestamp,
+        endTime: frames[endFrame].timestamp,
+        contactTime,
+        startFrame,
+        endFrame,
+      });
+    });
+
+    return segments;
+  }
+
+  /**
+   * Pista de pose de un solo golpe, con los tiempos relativos a su inicio
+   */
+  extractStrokeTrack(track: PoseTrack, segment: StrokeSegment): PoseTrack {
+    const frames = track.frames
+      .filter(frame => frame.timestamp >= segment.startTime && frame.timestamp <= segment.endTime)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(frame => ({ ...frame, timestamp: frame.timestamp - segment.startTime }));
+
+    return { ...track, frames, timeOffset: (track.timeOffset || 0) + segment.startTime };
+  }
+
+  /**
+   * Segmenta un video de ejercicio y guarda en él un análisis por golpe
+   */
+  async analyzeDrill(videoId: string): Promise<StoredStroke[]> {
+    const video = await VideoStorageService.getVideo(videoId);
+    if (!video) {
+      throw createAIAnalysisError('INVALID_CLIP', 'El video no está guardado en el dispositivo');
+    }
+
+    const storedTrack = video.hasPoseTrack ? await poseService.getTrack(videoId) : null;
+    if (!storedTrack) {
+      throw createAIAnalysisError(
+        'POSE_TRACK_MISSING',
+        'Este video no tiene datos de pose. Importa la pose del ejercicio para dividirlo en golpes'
+      );
+    }
+
+    // Se refleja una sola vez; los golpes extraídos conservan la marca y no se vuelven a reflejar
+    const context = await aiService.getEvaluationContext(storedTrack);
+    const track = poseService.orientForHandedness(storedTrack, context.handedness);
+
+    let segments: StrokeSegment[];
+    try {
+      segments = this.segment(track);
+    } catch (error) {
+      throw createAIAnalysisError(
+        'LOW_CONFIDENCE',
+        error instanceof Error ? error.message : 'No se pudo segmentar el ejercicio',
+        error
+      );
+    }
+
+    if (segments.length === 0) {
+      throw createAIAnalysisError('INVALID_CLIP', 'No se detecta ningún golpe en el video');
+    }
+
+    const strokes: StoredStroke[] = [];
+    for (const segment of segments) {
+      strokes.push(await this.analyzeStroke(track, segment, video.shotType, context));
+    }
+
+    await VideoStorageService.updateVideo(videoId, { isDrill: true, strokes });
+    console.log(`Analysed ${strokes.length} strokes for drill video:`, videoId);
+
+    return strokes;
+  }
+
+  private async analyzeStroke(
+    track: PoseTrack,
+    segment: StrokeSegment,
+    defaultShotType: string,
+    context: EvaluationContext
+  ): Promise<StoredStroke> {
+    const strokeTrack = this.extractStrokeTrack(track, segment);
+    const stroke: StoredStroke = {
+      index: segment.index,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      contactTime: segment.contactTime,
+      shotType: defaultShotType,
+      detectedConfidence: 0,
+    };
+
+    try {
+      // Si el clasificador no está seguro se mantiene el golpe elegido para el ejercicio
+      const classification = shotClassifier.classify(strokeTrack, context);
+      if (classification && classification.confidence >= appConfig.analysis.shotTypeMismatchConfidence) {
+        stroke.shotType = classification.shotType;
+      }
+      stroke.detectedConfidence = classification?.confidence || 0;
+    } catch (error) {
+      console.warn(`Could not classify stroke ${segment.index}:`, error);
+    }
+
+    try {
+      const result = await aiService.analyzePoseTrack(strokeTrack, stroke.shotType, context);
+      stroke.analysisResult = {
+        ...result,
+        clip: {
+          parentVideoId: track.videoId,
+          strokeIndex: segment.index,
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+        },
+      };
+    } catch (error) {
+      console.warn(`Could not analyse stroke ${segment.index}:`, error);
+      stroke.error = (error as { message?: string } | null)?.message || 'No se pudo analizar el golpe';
+    }
+
+    return stroke;
+  }
+
+  /**
+   * Picos de velocidad de la muñeca separados al menos MIN_STROKE_GAP, en orden temporal
+   */
+  private findContactFrames(speeds: number[], timestamps: number[]): number[] {
+    const peaks = speeds
+      .map((speed, i) => ({ speed, i }))
+      .filter(({ speed, i }) =>
+        speed >= MIN_STROKE_SPEED &&
+        (i === 0 || speeds[i - 1] < speed) &&
+        (i === speeds.length - 1 || speeds[i + 1] <= speed)
+      )
+      .sort((a, b) => b.speed - a.speed);
+
+    const accepted: number[] = [];
+    peaks.forEach(({ i }) => {
+      if (accepted.every(j => Math.abs(timestamps[j] - timestamps[i]) >= MIN_STROKE_GAP)) {
+        accepted.push(i);
+      }
+    });
+
+    return accepted.sort((a, b) => a - b);
+  }
+}
+
+export const rallySegmentationService = new RallySegmentationService();
+export default rallySegmentationService;
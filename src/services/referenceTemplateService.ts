@@ -0,0 +1,350 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { poseService, Handedness, PoseJoint, PoseTrack } from './poseService';
+import { shotPhaseService } from './shotPhaseService';
+import { PoseGeometry, Point2D } from '../utils/poseGeometry';
+import { DynamicTimeWarping } from '../utils/dynamicTimeWarping';
+import {
+  REFERENCE_TEMPLATES,
+  READY_STANCE,
+  TEMPLATE_JOINTS,
+  ReferenceTemplateDefinition,
+} from '../config/referenceTemplates';
+
+/**
+ * Frame in body coordinates: origin at the hip centre, torso-length units,
+ * x towards the racket side and y pointing up
+ */
+export interface BodyPoseFrame {
+  timestamp: number; // ms from the start of the stroke
+  joints: Partial<Record<PoseJoint, Point2D>>;
+}
+
+export type ReferenceTemplateSource = 'bundled' | 'custom';
+
+export interface ReferenceTemplate {
+  id: string;
+  name: string;
+  shotType: string;
+  source: ReferenceTemplateSource;
+  frames: BodyPoseFrame[];
+  videoId?: string; // clip the custom template was created from
+  createdAt?: string;
+}
+
+export interface JointDeviationCurve {
+  joint: PoseJoint;
+  deviations: number[]; // torso lengths, one per template frame
+  mean: number;
+  max: number;
+}
+
+export interface TemplateComparison {
+  templateId: string;
+  templateName: string;
+  shotType: string;
+  similarity: number; // 0-100
+  averageDistance: number; // torso lengths per aligned frame
+  timestamps: number[]; // template time axis of the deviation curves (ms)
+  jointDeviations: JointDeviationCurve[]; // largest mean deviation first
+}
+
+const TEMPLATE_FPS = 30;
+// Average deviation (torso lengths) at which similarity drops to ~37%
+const SIMILARITY_SCALE = 0.4;
+// Cost of aligning frames without any joint visible in both
+const MISSING_FRAME_COST = 1;
+
+export class ReferenceTemplateService {
+  private readonly CUSTOM_TEMPLATES_KEY = 'padeltech_reference_templates';
+  private customTemplates: ReferenceTemplate[] | null = null;
+  private bundledTemplates: ReferenceTemplate[] | null = null;
+
+  /**
+   * Bundled and custom templates, optionally for a single shot type
+   */
+  async getTemplates(shotType?: string): Promise<ReferenceTemplate[]> {
+    const templates = [...this.getBundledTemplates(), ...(await this.loadCustomTemplates())];
+    return shotType ? templates.filter(template => template.shotType === shotType) : templates;
+  }
+
+  async getTemplate(templateId: string): Promise<ReferenceTemplate | null> {
+    return (await this.getTemplates()).find(template => template.id === templateId) || null;
+  }
+
+  /**
+   * Template used by default: the newest coach template for the shot, otherwise the bundled one
+   */
+  async getPreferredTemplate(shotType: string): Promise<ReferenceTemplate | null> {
+    const custom = (await this.loadCustomTemplates())
+      .filter(template => template.shotType === shotType)
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+
+    return custom[0] || this.getBundledTemplates().find(template => template.shotType === shotType) || null;
+  }
+
+  /**
+   * Store a coach's reference clip as a custom template, trimmed to the stroke.
+   * Templates are kept right-handed, so a left-handed coach's clip is mirrored first.
+   */
+  async addCustomTemplate(
+    track: PoseTrack,
+    shotType: string,
+    name: string,
+    handedness: Handedness = 'right'
+  ): Promise<ReferenceTemplate> {
+    const oriented = poseService.orientForHandedness(track, handedness);
+    const frames = [...oriented.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const { phases } = shotPhaseService.segment(oriented);
+    const start = phases[0].startFrame;
+    const end = phases[phases.length - 1].endFrame;
+
+    const bodyFrames = this.toBodyFrames({ ...oriented, frames: frames.slice(start, end + 1) });
+    if (bodyFrames.length < 2) {
+      throw new Error('El clip de referencia es demasiado corto');
+    }
+
+    const template: ReferenceTemplate = {
+      id: this.generateId(),
+      name,
+      shotType,
+      source: 'custom',
+      frames: bodyFrames,
+      videoId: track.videoId,
+      createdAt: new Date().toISOString(),
+    };
+
+    const templates = await this.loadCustomTemplates();
+    templates.push(template);
+    await this.saveCustomTemplates();
+    console.log('Added custom reference template:', template.id);
+
+    return template;
+  }
+
+  async removeCustomTemplate(templateId: string): Promise<void> {
+    const templates = await this.loadCustomTemplates();
+    this.customTemplates = templates.filter(template => template.id !== templateId);
+    await this.saveCustomTemplates();
+  }
+
+  /**
+   * Compare a pose track with the preferred template of its shot type
+   */
+  async compareWithReference(
+    track: PoseTrack,
+    shotType: string,
+    handedness: Handedness = 'right'
+  ): Promise<TemplateComparison | null> {
+    const template = await this.getPreferredTemplate(shotType);
+    return template ? this.compare(poseService.orientForHandedness(track, handedness), template) : null;
+  }
+
+  /**
+   * Align the track with a template using DTW and measure how far each joint is from it
+   */
+  compare(track: PoseTrack, template: ReferenceTemplate): TemplateComparison {
+    const playerFrames = this.toBodyFrames(track);
+    if (playerFrames.length === 0) {
+      throw new Error('No se detectan hombros y caderas con suficiente claridad');
+    }
+
+    const alignment = DynamicTimeWarping.align(playerFrames, template.frames, (player, reference) =>
+      this.frameDistance(player, reference)
+    );
+
+    const jointDeviations = TEMPLATE_JOINTS
+      .map(joint => this.getDeviationCurve(joint, playerFrames, template.frames, alignment.path))
+      .filter((curve): curve is JointDeviationCurve => curve !== null)
+      .sort((a, b) => b.mean - a.mean);
+
+    return {
+      templateId: template.id,
+      templateName: template.name,
+      shotType: template.shotType,
+      similarity: Math.round(100 * Math.exp(-alignment.averageCost / SIMILARITY_SCALE)),
+      averageDistance: Math.round(alignment.averageCost * 100) / 100,
+      timestamps: template.frames.map(frame => frame.timestamp),
+      jointDeviations,
+    };
+  }
+
+  /**
+   * Convert a pose track to body coordinates so that position, size and viewing side do not matter
+   */
+  toBodyFrames(track: PoseTrack): BodyPoseFrame[] {
+    const frames = [...track.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const aspect = poseService.getAspectRatio(track);
+    const torsoLength = poseService.getTorsoLength(frames, aspect);
+    if (frames.length === 0 || torsoLength === 0) return [];
+
+    // Facing the camera the right hip appears on the left of the image: flip x so the racket side is positive
+    const hipSides = frames
+      .map(frame => {
+        const left = poseService.getPoint(frame, 'leftHip', aspect);
+        const right = poseService.getPoint(frame, 'rightHip', aspect);
+        return left && right ? Math.sign(right.x - left.x) : null;
+      })
+      .filter((side): side is number => side !== null && side !== 0);
+    const orientation = PoseGeometry.median(hipSides) < 0 ? -1 : 1;
+    const startTime = frames[0].timestamp;
+
+    return frames.map(frame => {
+      const hipMid = poseService.getMidpoint(frame, 'leftHip', 'rightHip', aspect);
+      const joints: Partial<Record<PoseJoint, Point2D>> = {};
+
+      if (hipMid) {
+        TEMPLATE_JOINTS.forEach(joint => {
+          const point = poseService.getPoint(frame, joint, aspect);
+          if (point) {
+            joints[joint] = {
+              x: ((point.x - hipMid.x) * orientation) / torsoLength,
+              y: (hipMid.y - point.y) / torsoLength,
+            };
+          }
+        });
+      }
+
+      return { timestamp: frame.timestamp - startTime, joints };
+    });
+  }
+
+  /**
+   * Mean distance over the joints visible in both frames
+   */
+  private frameDistance(a: BodyPoseFrame, b: BodyPoseFrame): number {
+    let total = 0;
+    let count = 0;
+
+    TEMPLATE_JOINTS.forEach(joint => {
+      const pointA = a.joints[joint];
+      const pointB = b.joints[joint];
+      if (pointA && pointB) {
+        total += PoseGeometry.distance(pointA, pointB);
+        count++;
+      }
+    });
+
+    return count > 0 ? total / count : MISSING_FRAME_COST;
+  }
+
+  /**
+   * Deviation of one joint along the template timeline, averaging the player frames aligned with each template frame
+   */
+  private getDeviationCurve(
+    joint: PoseJoint,
+    playerFrames: BodyPoseFrame[],
+    templateFrames: BodyPoseFrame[],
+    path: Array<[number, number]>
+  ): JointDeviationCurve | null {
+    const sums = new Array(templateFrames.length).fill(0);
+    const counts = new Array(templateFrames.length).fill(0);
+
+    path.forEach(([i, j]) => {
+      const player = playerFrames[i].joints[joint];
+      const reference = templateFrames[j].joints[joint];
+      if (player && reference) {
+        sums[j] += PoseGeometry.distance(player, reference);
+        counts[j]++;
+      }
+    });
+
+    if (counts.every(count => count === 0)) return null;
+
+    // Template frames without a visible joint keep the previous value
+    let previous = 0;
+    const deviations = sums.map((sum, j) => {
+      if (counts[j] > 0) previous = Math.round((sum / counts[j]) * 100) / 100;
+      return previous;
+    });
+
+    return {
+      joint,
+      deviations,
+      mean: Math.round((deviations.reduce((sum, value) => sum + value, 0) / deviations.length) * 100) / 100,
+      max: Math.max(...deviations),
+    };
+  }
+
+  private getBundledTemplates(): ReferenceTemplate[] {
+    if (!this.bundledTemplates) {
+      this.bundledTemplates = REFERENCE_TEMPLATES.map(definition => ({
+        id: `bundled_${definition.shotType}`,
+        name: definition.name,
+        shotType: definition.shotType,
+        source: 'bundled' as const,
+        frames: this.buildTemplateFrames(definition),
+      }));
+    }
+    return this.bundledTemplates;
+  }
+
+  /**
+   * Expand the keyframes of a bundled template to frames at TEMPLATE_FPS with eased interpolation
+   */
+  private buildTemplateFrames(definition: ReferenceTemplateDefinition): BodyPoseFrame[] {
+    // Each keyframe only lists what changes, so resolve the full pose first
+    let pose = { ...READY_STANCE };
+    const keyframes = definition.keyframes.map(keyframe => {
+      pose = { ...pose, ...keyframe.joints };
+      return { at: keyframe.at, pose };
+    });
+
+    const frameCount = Math.round((definition.duration / 1000) * TEMPLATE_FPS) + 1;
+
+    return Array.from({ length: frameCount }, (_, index) => {
+      const at = index / (frameCount - 1);
+      let k = Math.min(1, keyframes.length - 1);
+      while (k < keyframes.length - 1 && keyframes[k].at < at) k++;
+      const previous = keyframes[Math.max(0, k - 1)];
+      const next = keyframes[k];
+
+      const span = next.at - previous.at;
+      const linear = span > 0 ? Math.min(1, Math.max(0, (at - previous.at) / span)) : 1;
+      const eased = linear * linear * (3 - 2 * linear);
+
+      const joints: Partial<Record<PoseJoint, Point2D>> = {};
+      TEMPLATE_JOINTS.forEach(joint => {
+        const from = previous.pose[joint];
+        const to = next.pose[joint];
+        if (from && to) {
+          joints[joint] = {
+            x: from[0] + (to[0] - from[0]) * eased,
+            y: from[1] + (to[1] - from[1]) * eased,
+          };
+        }
+      });
+
+      return { timestamp: Math.round(at * definition.duration), joints };
+    });
+  }
+
+  private async loadCustomTemplates(): Promise<ReferenceTemplate[]> {
+    if (this.customTemplates) return this.customTemplates;
+
+    try {
+      const data = await AsyncStorage.getItem(this.CUSTOM_TEMPLATES_KEY);
+      this.customTemplates = this.customTemplates || (data ? JSON.parse(data) : []);
+    } catch (error) {
+      console.error('Error loading reference templates:', error);
+      this.customTemplates = this.customTemplates || [];
+    }
+
+    return this.customTemplates as ReferenceTemplate[];
+  }
+
+  private async saveCustomTemplates(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.CUSTOM_TEMPLATES_KEY, JSON.stringify(await this.loadCustomTemplates()));
+    } catch (error) {
+      console.error('Error saving reference templates:', error);
+      throw new Error('Failed to save reference template');
+    }
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+export const referenceTemplateService = new ReferenceTemplateService();
+export default referenceTemplateService;
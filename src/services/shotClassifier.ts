@@ -0,0 +1,95 @@
+import { PoseTrack } from './poseService';
+import { techniqueEvaluator, EvaluationContext } from './techniqueEvaluator';
+import { TechniqueMetric } from '../config/techniqueRules';
+import { SHOTS, DEFAULT_SHOT_TYPE, ShotSignatureFeature, ShotType } from '../config/shotRegistry';
+
+export interface ShotTypeCandidate {
+  shotType: string;
+  match: number; // 0-1, cuánto encajan los rasgos medidos con la firma del golpe
+  probability: number; // 0-1, normalizada entre todos los golpes
+}
+
+export interface ShotClassification {
+  shotType: string;
+  confidence: number; // 0-1
+  candidates: ShotTypeCandidate[]; // de más a menos probable
+}
+
+// Suaviza las diferencias de encaje al convertirlas en probabilidades
+const TEMPERATURE = 0.08;
+// Rasgos medibles mínimos para considerar un golpe
+const MIN_FEATURES = 2;
+
+/**
+ * Propone el tipo de golpe a partir de las métricas de la pose, comparándolas
+ * con la firma de cada golpe (de un jugador diestro; los zurdos se reflejan antes).
+ */
+export class ShotClassifier {
+  /**
+   * Clasifica una secuencia de pose completa
+   */
+  classify(track: PoseTrack, context: EvaluationContext = {}): ShotClassification | null {
+    // Las métricas no dependen del golpe elegido, solo las reglas que se aplican sobre ellas
+    const { metrics } = techniqueEvaluator.evaluate(track, DEFAULT_SHOT_TYPE, context);
+    return this.classifyMetrics(metrics);
+  }
+
+  /**
+   * Clasifica a partir de métricas ya calculadas por el evaluador
+   */
+  classifyMetrics(metrics: Partial<Record<TechniqueMetric, number>>): ShotClassification | null {
+    // Los golpes sin firma no se proponen
+    const matches = SHOTS
+      .flatMap(shot => (shot.signature ? [{ shotType: shot.id, match: this.matchSignature(shot.signature, metrics) }] : []))
+      .filter((candidate): candidate is { shotType: ShotType; match: number } => candidate.match !== null);
+
+    if (matches.length === 0) return null;
+
+    const weights = matches.map(candidate => Math.exp(candidate.match / TEMPERATURE));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const candidates = matches
+      .map((candidate, i) => ({
+        shotType: candidate.shotType,
+        match: Math.round(candidate.match * 100) / 100,
+        probability: Math.round((weights[i] / total) * 100) / 100,
+      }))
+      .sort((a, b) => b.probability - a.probability);
+
+    return {
+      shotType: candidates[0].shotType,
+      confidence: candidates[0].probability,
+      candidates,
+    };
+  }
+
+  /**
+   * Encaje medio ponderado de los rasgos medibles: 1 dentro del rango, 0.5 a una tolerancia de distancia
+   */
+  private matchSignature(
+    signature: ShotSignatureFeature[],
+    metrics: Partial<Record<TechniqueMetric, number>>
+  ): number | null {
+    let totalWeight = 0;
+    let total = 0;
+    let measured = 0;
+
+    signature.forEach(feature => {
+      const value = metrics[feature.metric];
+      if (value === undefined) return;
+
+      const [min, max] = feature.range;
+      const distance = value < min ? min - value : value > max ? value - max : 0;
+      const weight = feature.weight || 1;
+
+      total += Math.max(0, 1 - (distance / feature.tolerance) * 0.5) * weight;
+      totalWeight += weight;
+      measured++;
+    });
+
+    return measured >= MIN_FEATURES ? total / totalWeight : null;
+  }
+}
+
+export const shotClassifier = new ShotClassifier();
+export default shotClassifier;
@@ -0,0 +1,171 @@
+import { poseService, PoseFrame, PoseTrack } from './poseService';
+
+export type ShotPhaseName = 'preparation' | 'backswing' | 'contact' | 'followThrough';
+
+export interface ShotPhase {
+  name: ShotPhaseName;
+  startTime: number; // ms
+  endTime: number; // ms
+  startFrame: number;
+  endFrame: number;
+}
+
+export interface ShotPhaseSegmentation {
+  phases: ShotPhase[];
+  contactFrameIndex: number;
+  contactTimestamp: number;
+}
+
+export const SHOT_PHASE_ORDER: ShotPhaseName[] = ['preparation', 'backswing', 'contact', 'followThrough'];
+
+export const SHOT_PHASE_LABELS: Record<ShotPhaseName, string> = {
+  preparation: 'Preparación',
+  backswing: 'Armado',
+  contact: 'Impacto',
+  followThrough: 'Terminación',
+};
+
+export const SHOT_PHASE_COLORS: Record<ShotPhaseName, string> = {
+  preparation: '#90CAF9',
+  backswing: '#FFB74D',
+  contact: '#F44336',
+  followThrough: '#81C784',
+};
+
+// Por debajo de este porcentaje de la velocidad pico la muñeca se considera quieta
+const STILL_RATIO = 0.15;
+const BACKSWING_END_RATIO = 0.25;
+const FOLLOW_THROUGH_END_RATIO = 0.2;
+
+/**
+ * Divide un golpe en fases a partir de la velocidad de la muñeca de la raqueta:
+ * preparación → armado (backswing) → impacto (swing hasta el contacto) → terminación.
+ * Asume un jugador diestro.
+ */
+export class ShotPhaseService {
+  /**
+   * Segmenta una pista de pose completa
+   */
+  segment(track: PoseTrack): ShotPhaseSegmentation {
+    const frames = [...track.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const aspect = poseService.getAspectRatio(track);
+
+    const torsoLength = poseService.getTorsoLength(frames, aspect);
+    if (torsoLength === 0) {
+      throw new Error('No se detectan hombros y caderas con suficiente claridad');
+    }
+
+    const speeds = poseService.getJointSpeeds(frames, 'rightWrist', aspect, torsoLength);
+    return this.segmentFromSpeeds(frames, speeds);
+  }
+
+  /**
+   * Segmenta frames ya ordenados dada la velocidad de la muñeca en cada uno
+   */
+  segmentFromSpeeds(frames: PoseFrame[], speeds: number[]): ShotPhaseSegmentation {
+    const contactIndex = this.findContactFrame(speeds);
+    if (contactIndex === -1) {
+      throw new Error('No se detecta el movimiento de la muñeca de la raqueta');
+    }
+
+    const backswingEnd = this.findBackswingEnd(speeds, contactIndex);
+    const backswingStart = this.findBackswingStart(speeds, backswingEnd, speeds[contactIndex]);
+    const followThroughEnd = this.findFollowThroughEnd(speeds, contactIndex);
+
+    const phase = (name: ShotPhaseName, startFrame: number, endFrame: number): ShotPhase => ({
+      name,
+      startTime: frames[startFrame].timestamp,
+      endTime: frames[endFrame].timestamp,
+      startFrame,
+      endFrame,
+    });
+
+    const phases = [
+      phase('preparation', 0, backswingStart),
+      phase('backswing', backswingStart, backswingEnd),
+      phase('contact', backswingEnd, contactIndex),
+      phase('followThrough', contactIndex, followThroughEnd),
+    ];
+
+    return {
+      phases,
+      contactFrameIndex: contactIndex,
+      contactTimestamp: frames[contactIndex].timestamp,
+    };
+  }
+
+  /**
+   * Duración en ms de cada fase
+   */
+  getDurations(phases: ShotPhase[]): Partial<Record<ShotPhaseName, number>> {
+    const durations: Partial<Record<ShotPhaseName, number>> = {};
+    phases.forEach(phase => {
+      durations[phase.name] = phase.endTime - phase.startTime;
+    });
+    return durations;
+  }
+
+  /**
+   * El impacto se sitúa en el pico de velocidad de la muñeca
+   */
+  private findContactFrame(speeds: number[]): number {
+    let contactIndex = -1;
+    let peak = 0;
+
+    speeds.forEach((speed, i) => {
+      if (speed > peak) {
+        peak = speed;
+        contactIndex = i;
+      }
+    });
+
+    return contactIndex;
+  }
+
+  /**
+   * Final del armado: retrocede desde el impacto mientras la muñeca sigue frenando,
+   * hasta un mínimo local o hasta caer por debajo del 25% de la velocidad pico
+   */
+  private findBackswingEnd(speeds: number[], contactIndex: number): number {
+    const threshold = speeds[contactIndex] * BACKSWING_END_RATIO;
+    for (let i = contactIndex - 1; i > 0; i--) {
+      if (speeds[i] <= threshold || speeds[i - 1] > speeds[i]) {
+        return i;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Inicio del armado: antes de la pausa del final del armado, la muñeca se mueve
+   * hacia atrás; el armado empieza donde estaba quieta por última vez
+   */
+  private findBackswingStart(speeds: number[], backswingEnd: number, peakSpeed: number): number {
+    const threshold = peakSpeed * STILL_RATIO;
+    let i = backswingEnd - 1;
+
+    // Pausa al final del armado
+    while (i > 0 && speeds[i] < threshold) i--;
+    if (i <= 0) return backswingEnd;
+
+    // Movimiento hacia atrás
+    while (i > 0 && speeds[i] >= threshold) i--;
+    return i;
+  }
+
+  /**
+   * Final de la terminación: la muñeca cae por debajo del 20% de la velocidad pico
+   */
+  private findFollowThroughEnd(speeds: number[], contactIndex: number): number {
+    const threshold = speeds[contactIndex] * FOLLOW_THROUGH_END_RATIO;
+    for (let i = contactIndex + 1; i < speeds.length; i++) {
+      if (speeds[i] < threshold) {
+        return i;
+      }
+    }
+    return speeds.length - 1;
+  }
+}
+
+export const shotPhaseService = new ShotPhaseService();
+export default shotPhaseService;
@@ -1,5 +1,6 @@
 import { apiClient, ApiResponse } from './apiClient';
 import { API_CONFIG } from '../config/apiConfig';
+import { getShotName } from '../config/shotRegistry';
 
 export interface StatsOverview {
   totalUsers: number;
@@ -288,16 +289,7 @@ export class StatsService {
   }
 
   formatShotType(shotType: string): string {
-    const translations: Record<string, string> = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate'
-    };
-    return translations[shotType] || shotType;
+    return getShotName(shotType);
   }
 
   formatLevel(level: string): string {
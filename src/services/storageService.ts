@@ -1,6 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
+import type { Handedness } from './poseService';
+import type { ScoreDimension } from '../config/techniqueRules';
 
 export interface StoredAnalysis {
   id: string;
@@ -10,6 +12,7 @@ export interface StoredAnalysis {
   timing: number;
   followThrough: number;
   power: number;
+  footwork?: number; // sin ella en los análisis anteriores al juego de pies
   improvements: string[];
   videoUri: string;
   timestamp: string;
@@ -25,16 +28,21 @@ export interface UserProfile {
   totalAnalyses: number;
   averageScore: number;
   favoriteShot: string;
+  handedness?: Handedness; // sin definir = diestro
+  height?: number; // cm; sin definir = altura media
 }
 
 export interface ProgressData {
   shotType: string;
   analyses: StoredAnalysis[];
   averageScore: number;
+  dimensionAverages?: Partial<Record<ScoreDimension, number>>;
   improvementTrend: 'improving' | 'stable' | 'declining';
   lastPracticed: string;
 }
 
+const SCORE_DIMENSIONS: ScoreDimension[] = ['posture', 'timing', 'followThrough', 'power', 'footwork'];
+
 class StorageService {
   private readonly ANALYSES_KEY = 'padeltech_analyses';
   private readonly USER_PROFILE_KEY = 'padeltech_user_profile';
@@ -137,6 +145,23 @@ class StorageService {
     }
   }
 
+  /**
+   * Actualizar campos del perfil de usuario guardado
+   */
+  async updateUserProfile(updates: Partial<Omit<UserProfile, 'id' | 'joinDate'>>): Promise<UserProfile | null> {
+    try {
+      const profile = await this.getUserProfile();
+      if (!profile) return null;
+
+      const updatedProfile: UserProfile = { ...profile, ...updates };
+      await AsyncStorage.setItem(this.USER_PROFILE_KEY, JSON.stringify(updatedProfile));
+      return updatedProfile;
+    } catch (error) {
+      console.error('Error updating user profile:', error);
+      throw new Error('No se pudo actualizar el perfil');
+    }
+  }
+
   /**
    * Obtener perfil de usuario
    */
@@ -173,6 +198,18 @@ class StorageService {
       // Calcular promedio
       const scores = progressData[shotType].analyses.map(a => a.overallScore);
       progressData[shotType].averageScore = scores.reduce((a, b) => a + b, 0) / scores.length;
+
+      // Promedio por dimensión, solo con los análisis que la tienen
+      const dimensionAverages: Partial<Record<ScoreDimension, number>> = {};
+      SCORE_DIMENSIONS.forEach(dimension => {
+        const values = progressData[shotType].analyses
+          .map(a => a[dimension])
+          .filter((value): value is number => typeof value === 'number');
+        if (values.length > 0) {
+          dimensionAverages[dimension] = values.reduce((a, b) => a + b, 0) / values.length;
+        }
+      });
+      progressData[shotType].dimensionAverages = dimensionAverages;
       
       // Determinar tendencia
       if (progressData[shotType].analyses.length >= 3) {
@@ -0,0 +1,600 @@
+import { poseService, Handedness, PoseFrame, PoseJoint, PoseTrack } from './poseService';
+import { shotPhaseService, ShotPhase } from './shotPhaseService';
+import type { ImprovementDifficulty } from './analysisService';
+import { PoseGeometry, Point2D } from '../utils/poseGeometry';
+import {
+  DIMENSION_WEIGHTS,
+  DEFAULT_PLAYER_LEVEL,
+  SIDE_WORDS,
+  PlayerLevel,
+  ScoreDimension,
+  TechniqueMetric,
+  TechniqueRule,
+} from '../config/techniqueRules';
+import { ANGLE_METRIC_PROFILES, DEFAULT_CAMERA_ANGLE, CameraAngle } from '../config/cameraAngles';
+import { getShotRules } from '../config/shotRegistry';
+
+export interface TechniqueScores {
+  overallScore: number;
+  posture: number;
+  timing: number;
+  followThrough: number;
+  power: number;
+  footwork: number;
+}
+
+export interface RuleResult {
+  ruleId: string;
+  metric: TechniqueMetric;
+  dimension: ScoreDimension;
+  value: number;
+  ideal: [number, number];
+  score: number;
+  weight: number;
+  reliability: number; // 0-1, cuánto se puede medir la métrica desde el ángulo de cámara
+  difficulty: ImprovementDifficulty;
+  passed: boolean;
+  deviation: 'low' | 'high' | null;
+  feedback: string | null;
+  frameIndex?: number; // frame en el que se midió la métrica
+  timestamp?: number; // ms
+}
+
+/**
+ * Cómo se grabó el golpe: mano y nivel del jugador y ángulo de la cámara
+ */
+export interface EvaluationContext {
+  handedness?: Handedness;
+  cameraAngle?: CameraAngle;
+  level?: PlayerLevel;
+  playerHeight?: number; // cm; calibra la escala de la imagen para medir en km/h
+}
+
+/**
+ * Velocidad en el impacto en unidades físicas
+ */
+export interface RacketSpeedEstimate {
+  racketHead: number; // km/h, cabeza de la pala estimada a partir del antebrazo
+  wrist: number; // km/h
+  calibrated: boolean; // medida con la altura del jugador, no con la altura media
+  reference?: [number, number]; // rango de referencia del golpe para el nivel del jugador (km/h)
+}
+
+export interface TechniqueEvaluation {
+  shotType: string;
+  handedness: Handedness;
+  cameraAngle: CameraAngle;
+  level: PlayerLevel;
+  scores: TechniqueScores;
+  metrics: Partial<Record<TechniqueMetric, number>>;
+  rules: RuleResult[];
+  phases: ShotPhase[];
+  contactFrameIndex: number;
+  contactTimestamp: number;
+  racketSpeed?: RacketSpeedEstimate;
+  confidence: number;
+  dimensionConfidence: Record<ScoreDimension, number>;
+}
+
+/**
+ * Frame en el que se mide cada métrica (índice en los frames ordenados por tiempo)
+ */
+type MetricFrames = Partial<Record<TechniqueMetric, number>>;
+
+interface MeasuredMetrics {
+  metrics: Partial<Record<TechniqueMetric, number>>;
+  metricFrames: MetricFrames;
+}
+
+const PASS_SCORE = 70;
+// Frames a cada lado del impacto en los que se busca el pico de velocidad de la pala
+const RACKET_SPEED_WINDOW = 1;
+// Elevación de los dos tobillos sobre su altura habitual que cuenta como split-step (longitudes de tronco)
+const SPLIT_STEP_LIFT = 0.08;
+// Separación mínima de los pies para medir hacia cuál va el peso (longitudes de tronco)
+const MIN_BASE_FOR_TRANSFER = 0.3;
+const MIN_FOOT_FRAMES = 3;
+const SCORE_DIMENSIONS: ScoreDimension[] = ['posture', 'timing', 'followThrough', 'power', 'footwork'];
+const CORE_JOINTS: PoseJoint[] = [
+  'rightShoulder',
+  'rightElbow',
+  'rightWrist',
+  'leftShoulder',
+  'rightHip',
+  'leftHip',
+];
+
+/**
+ * Evalúa la técnica de un golpe a partir de su secuencia de pose.
+ * Las reglas asumen un jugador diestro: la pose de los zurdos se refleja antes de evaluarla.
+ */
+export class TechniqueEvaluator {
+  evaluate(track: PoseTrack, shotType: string, context: EvaluationContext = {}): TechniqueEvaluation {
+    const handedness = context.handedness || 'right';
+    const cameraAngle = context.cameraAngle || DEFAULT_CAMERA_ANGLE;
+    const level = context.level || DEFAULT_PLAYER_LEVEL;
+    const oriented = poseService.orientForHandedness(track, handedness);
+    const frames = [...oriented.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const aspect = poseService.getAspectRatio(oriented);
+    const point = (frame: PoseFrame, joint: PoseJoint) => poseService.getPoint(frame, joint, aspect);
+
+    const torsoLength = poseService.getTorsoLength(frames, aspect);
+    if (torsoLength === 0) {
+      throw new Error('No se detectan hombros y caderas con suficiente claridad');
+    }
+
+    const speeds = poseService.getJointSpeeds(frames, 'rightWrist', aspect, torsoLength);
+    const { phases, contactFrameIndex, contactTimestamp } = shotPhaseService.segmentFromSpeeds(frames, speeds);
+
+    const metresPerUnit = poseService.getMetresPerUnit(torsoLength, context.playerHeight);
+    const racketSpeeds = poseService.getRacketHeadSpeeds(frames, aspect, metresPerUnit);
+
+    const measured = this.computeMetrics(frames, point, torsoLength, speeds, racketSpeeds, phases, contactFrameIndex);
+    const metrics = this.getMeasurableMetrics(measured.metrics, cameraAngle);
+    // La confianza se calcula sobre todas las reglas del golpe, también las que el ángulo no permite medir
+    const shotRules = this.getRules(shotType);
+    const levelRules = this.getRules(shotType, cameraAngle, level);
+    const rules = levelRules
+      .filter(rule => metrics[rule.metric] !== undefined)
+      .map(rule => {
+        const result = this.applyRule(rule, metrics[rule.metric] as number, handedness, cameraAngle);
+        const frameIndex = measured.metricFrames[rule.metric] ?? contactFrameIndex;
+        return { ...result, frameIndex, timestamp: frames[frameIndex].timestamp };
+      });
+
+    if (rules.length === 0) {
+      throw new Error('No hay suficientes keypoints visibles para evaluar el golpe');
+    }
+
+    return {
+      shotType,
+      handedness,
+      cameraAngle,
+      level,
+      scores: this.computeScores(rules),
+      metrics,
+      rules,
+      phases,
+      contactFrameIndex,
+      contactTimestamp,
+      racketSpeed: metrics.racketSpeed !== undefined
+        ? {
+            racketHead: Math.round(metrics.racketSpeed),
+            wrist: Math.round(speeds[contactFrameIndex] * torsoLength * metresPerUnit * 3.6),
+            calibrated: !!context.playerHeight,
+            reference: levelRules.find(rule => rule.metric === 'racketSpeed')?.ideal,
+          }
+        : undefined,
+      confidence: this.computeConfidence(frames, this.getMeasuredWeight(rules) / shotRules.length),
+      dimensionConfidence: this.computeDimensionConfidence(frames, rules, shotRules),
+    };
+  }
+
+  /**
+   * Reglas aplicables a un tipo de golpe. Con nivel se usa el rango ideal de ese nivel; con ángulo
+   * de cámara se quitan las métricas que no se pueden medir desde él y se amplía la tolerancia de
+   * las que se miden peor.
+   */
+  getRules(shotType: string, cameraAngle?: CameraAngle, level?: PlayerLevel): TechniqueRule[] {
+    const shotRules = getShotRules(shotType);
+    const rules = level
+      ? shotRules.map(rule => (rule.levelIdeals ? { ...rule, ideal: rule.levelIdeals[level] } : rule))
+      : shotRules;
+    if (!cameraAngle) return rules;
+
+    return rules
+      .filter(rule => this.getReliability(rule.metric, cameraAngle) > 0)
+      .map(rule => {
+        const profile = ANGLE_METRIC_PROFILES[cameraAngle][rule.metric];
+        if (!profile) return rule;
+
+        return {
+          ...rule,
+          ideal: profile.ideal || rule.ideal,
+          tolerance: rule.tolerance / profile.reliability,
+        };
+      });
+  }
+
+  /**
+   * Fiabilidad de una métrica medida desde un ángulo de cámara (0-1)
+   */
+  getReliability(metric: TechniqueMetric, cameraAngle: CameraAngle): number {
+    return ANGLE_METRIC_PROFILES[cameraAngle][metric]?.reliability ?? 1;
+  }
+
+  /**
+   * Puntúa una regla: 100 dentro del rango ideal y decae linealmente fuera de él
+   */
+  applyRule(
+    rule: TechniqueRule,
+    value: number,
+    handedness: Handedness = 'right',
+    cameraAngle: CameraAngle = DEFAULT_CAMERA_ANGLE
+  ): RuleResult {
+    const [min, max] = rule.ideal;
+    const distance = value < min ? min - value : value > max ? value - max : 0;
+    const score = Math.round(Math.max(0, 100 - (distance / rule.tolerance) * 50));
+    const deviation = value < min ? 'low' : value > max ? 'high' : null;
+    const passed = score >= PASS_SCORE;
+
+    return {
+      ruleId: rule.id,
+      metric: rule.metric,
+      dimension: rule.dimension,
+      value: Math.round(value * 100) / 100,
+      ideal: rule.ideal,
+      score,
+      weight: rule.weight || 1,
+      reliability: this.getReliability(rule.metric, cameraAngle),
+      difficulty: rule.difficulty,
+      passed,
+      deviation,
+      feedback: deviation && !passed ? this.formatFeedback(rule.feedback[deviation], handedness) : null,
+    };
+  }
+
+  /**
+   * Sustituye el lado de la raqueta y el contrario según la mano del jugador
+   */
+  formatFeedback(text: string, handedness: Handedness): string {
+    const words = SIDE_WORDS[handedness];
+    return text.replace(/\{racketSide\}/g, words.racketSide).replace(/\{otherSide\}/g, words.otherSide);
+  }
+
+  /**
+   * Métricas calculadas, sin las que el ángulo de cámara no permite medir
+   */
+  private getMeasurableMetrics(
+    metrics: Partial<Record<TechniqueMetric, number>>,
+    cameraAngle: CameraAngle
+  ): Partial<Record<TechniqueMetric, number>> {
+    const measurable: Partial<Record<TechniqueMetric, number>> = {};
+    (Object.keys(metrics) as TechniqueMetric[]).forEach(metric => {
+      if (this.getReliability(metric, cameraAngle) > 0) {
+        measurable[metric] = metrics[metric];
+      }
+    });
+    return measurable;
+  }
+
+  /**
+   * Reglas medidas, contando a medias las que el ángulo de cámara mide peor
+   */
+  private getMeasuredWeight(rules: RuleResult[]): number {
+    return rules.reduce((sum, rule) => sum + rule.reliability, 0);
+  }
+
+  private computeScores(rules: RuleResult[]): TechniqueScores {
+    const weightedAverage = (results: RuleResult[]) => {
+      const totalWeight = results.reduce((sum, r) => sum + r.weight, 0);
+      return results.reduce((sum, r) => sum + r.score * r.weight, 0) / totalWeight;
+    };
+
+    const overallRuleScore = weightedAverage(rules);
+    const dimensionScores = {} as Record<ScoreDimension, number>;
+
+    SCORE_DIMENSIONS.forEach(dimension => {
+      const dimensionRules = rules.filter(rule => rule.dimension === dimension);
+      // Una dimensión sin métricas medibles toma la media del resto de reglas
+      dimensionScores[dimension] = Math.round(
+        dimensionRules.length > 0 ? weightedAverage(dimensionRules) : overallRuleScore
+      );
+    });
+
+    const overallScore = SCORE_DIMENSIONS.reduce(
+      (sum, dimension) => sum + dimensionScores[dimension] * DIMENSION_WEIGHTS[dimension],
+      0
+    );
+
+    return {
+      overallScore: Math.round(overallScore),
+      ...dimensionScores,
+    };
+  }
+
+  private computeMetrics(
+    frames: PoseFrame[],
+    point: (frame: PoseFrame, joint: PoseJoint) => Point2D | null,
+    torsoLength: number,
+    speeds: number[],
+    racketSpeeds: number[],
+    phases: ShotPhase[],
+    contactIndex: number
+  ): MeasuredMetrics {
+    const metrics: Partial<Record<TechniqueMetric, number>> = {};
+    // Lo que no se anota aquí se mide en el frame del impacto
+    const metricFrames: MetricFrames = {};
+    const contact = frames[contactIndex];
+
+    const shoulder = point(contact, 'rightShoulder');
+    const elbow = point(contact, 'rightElbow');
+    const wrist = point(contact, 'rightWrist');
+
+    // La "y" de imagen crece hacia abajo: valores positivos = por encima del hombro
+    if (shoulder && elbow) {
+      metrics.elbowHeight = (shoulder.y - elbow.y) / torsoLength;
+    }
+    if (shoulder && wrist) {
+      metrics.contactHeight = (shoulder.y - wrist.y) / torsoLength;
+    }
+    if (shoulder && elbow && wrist) {
+      metrics.elbowAngle = PoseGeometry.angle(shoulder, elbow, wrist);
+    }
+
+    const shoulderRotation = this.getShoulderRotation(frames.slice(0, contactIndex + 1), point);
+    if (shoulderRotation !== null) {
+      metrics.shoulderRotation = shoulderRotation.value;
+      metricFrames.shoulderRotation = shoulderRotation.frameIndex;
+    }
+
+    const kneeFlexion = this.getKneeFlexion(frames.slice(0, contactIndex + 1), point);
+    if (kneeFlexion !== null) {
+      metrics.kneeFlexion = kneeFlexion.value;
+      metricFrames.kneeFlexion = kneeFlexion.frameIndex;
+    }
+
+    const leftShoulder = point(contact, 'leftShoulder');
+    const leftHip = point(contact, 'leftHip');
+    const rightHip = point(contact, 'rightHip');
+    const shoulderMid = shoulder && leftShoulder ? PoseGeometry.midpoint(shoulder, leftShoulder) : null;
+    const hipMid = leftHip && rightHip ? PoseGeometry.midpoint(leftHip, rightHip) : null;
+    if (shoulderMid && hipMid) {
+      metrics.trunkLean = PoseGeometry.angleFromVertical(shoulderMid, hipMid);
+    }
+
+    // Ritmo: duración del swing y proporción del armado y la terminación respecto a él
+    const durations = shotPhaseService.getDurations(phases);
+    const swingDuration = durations.contact || 0;
+    const backswingPhase = phases.find(phase => phase.name === 'backswing');
+    const followThroughPhase = phases.find(phase => phase.name === 'followThrough');
+    const followThroughEnd = followThroughPhase ? followThroughPhase.endFrame : contactIndex;
+    if (swingDuration > 0) {
+      metrics.swingDuration = swingDuration;
+      if (durations.backswing) {
+        metrics.backswingRatio = durations.backswing / swingDuration;
+        if (backswingPhase) metricFrames.backswingRatio = backswingPhase.endFrame;
+      }
+      if (durations.followThrough) {
+        metrics.followThroughRatio = durations.followThrough / swingDuration;
+        metricFrames.followThroughRatio = followThroughEnd;
+      }
+    }
+
+    // Lado del armado: la derecha se arma en el lado de la raqueta y el revés en el contrario
+    if (backswingPhase) {
+      const backswingFrame = frames[backswingPhase.endFrame];
+      const backswingWrist = point(backswingFrame, 'rightWrist');
+      const backswingLeftHip = point(backswingFrame, 'leftHip');
+      const backswingRightHip = point(backswingFrame, 'rightHip');
+      if (backswingWrist && backswingLeftHip && backswingRightHip &&
+          PoseGeometry.distance(backswingLeftHip, backswingRightHip) > torsoLength * 0.1) {
+        const backswingHipMid = PoseGeometry.midpoint(backswingLeftHip, backswingRightHip);
+        const offset = { x: backswingWrist.x - backswingHipMid.x, y: backswingWrist.y - backswingHipMid.y };
+        metrics.backswingSide = PoseGeometry.projectOnto(offset, backswingLeftHip, backswingRightHip) / torsoLength;
+        metricFrames.backswingSide = backswingPhase.endFrame;
+      }
+    }
+
+    const followThroughPoints = frames
+      .slice(contactIndex, followThroughEnd + 1)
+      .map(frame => point(frame, 'rightWrist'))
+      .filter((p): p is Point2D => p !== null);
+
+    if (followThroughPoints.length > 1) {
+      metrics.followThroughDistance = PoseGeometry.pathLength(followThroughPoints) / torsoLength;
+      metricFrames.followThroughDistance = followThroughEnd;
+
+      if (shoulder && leftShoulder && shoulderMid) {
+        const shoulderWidth = PoseGeometry.distance(shoulder, leftShoulder);
+        const end = followThroughPoints[followThroughPoints.length - 1];
+        const offset = { x: end.x - shoulderMid.x, y: end.y - shoulderMid.y };
+        if (shoulderWidth > 0) {
+          metrics.followThroughCross = PoseGeometry.projectOnto(offset, shoulder, leftShoulder) / shoulderWidth;
+          metricFrames.followThroughCross = followThroughEnd;
+        }
+      }
+    }
+
+    if (speeds[contactIndex] > 0) {
+      metrics.wristSpeed = speeds[contactIndex];
+    }
+
+    const windowStart = Math.max(0, contactIndex - RACKET_SPEED_WINDOW);
+    const windowSpeeds = racketSpeeds.slice(windowStart, contactIndex + RACKET_SPEED_WINDOW + 1);
+    const racketSpeed = Math.max(...windowSpeeds);
+    if (racketSpeed > 0) {
+      metrics.racketSpeed = racketSpeed;
+      metricFrames.racketSpeed = windowStart + windowSpeeds.indexOf(racketSpeed);
+    }
+
+    const footwork = this.computeFootworkMetrics(frames, point, torsoLength, phases, contactIndex);
+    return {
+      metrics: { ...metrics, ...footwork.metrics },
+      metricFrames: { ...metricFrames, ...footwork.metricFrames },
+    };
+  }
+
+  /**
+   * Juego de pies a partir de tobillos y caderas: split-step, base en el impacto y transferencia de peso
+   */
+  private computeFootworkMetrics(
+    frames: PoseFrame[],
+    point: (frame: PoseFrame, joint: PoseJoint) => Point2D | null,
+    torsoLength: number,
+    phases: ShotPhase[],
+    contactIndex: number
+  ): MeasuredMetrics {
+    const metrics: Partial<Record<TechniqueMetric, number>> = {};
+    const metricFrames: MetricFrames = {};
+    const contact = frames[contactIndex];
+
+    const splitStepLanding = this.findSplitStepLanding(frames.slice(0, contactIndex + 1), point, torsoLength);
+    if (splitStepLanding !== undefined) {
+      metrics.splitStepTiming = splitStepLanding === null ? 0 : contact.timestamp - frames[splitStepLanding].timestamp;
+      if (splitStepLanding !== null) metricFrames.splitStepTiming = splitStepLanding;
+    }
+
+    const leftAnkle = point(contact, 'leftAnkle');
+    const rightAnkle = point(contact, 'rightAnkle');
+    if (leftAnkle && rightAnkle) {
+      metrics.baseWidth = PoseGeometry.distance(leftAnkle, rightAnkle) / torsoLength;
+    }
+
+    // Posición de la cadera entre los pies: 0 sobre el tobillo izquierdo, 1 sobre el derecho
+    const hipBetweenFeet = (frame: PoseFrame): number | null => {
+      const left = point(frame, 'leftAnkle');
+      const right = point(frame, 'rightAnkle');
+      const leftHip = point(frame, 'leftHip');
+      const rightHip = point(frame, 'rightHip');
+      if (!left || !right || !leftHip || !rightHip) return null;
+
+      const base = PoseGeometry.distance(left, right);
+      if (base < torsoLength * MIN_BASE_FOR_TRANSFER) return null;
+      const hip = PoseGeometry.midpoint(leftHip, rightHip);
+      return PoseGeometry.projectOnto({ x: hip.x - left.x, y: hip.y - left.y }, left, right) / base;
+    };
+
+    const backswingPhase = phases.find(phase => phase.name === 'backswing');
+    if (backswingPhase) {
+      const before = hipBetweenFeet(frames[backswingPhase.endFrame]);
+      const after = hipBetweenFeet(contact);
+      if (before !== null && after !== null) {
+        // Hacia el tobillo izquierdo = hacia el pie contrario a la raqueta
+        metrics.weightTransfer = before - after;
+      }
+    }
+
+    return { metrics, metricFrames };
+  }
+
+  /**
+   * Frame en que aterriza el último split-step antes del impacto: los dos tobillos se elevan
+   * sobre su altura habitual y vuelven a ella. null si los pies se ven pero no hay split-step;
+   * undefined si los pies no se ven lo suficiente para saberlo.
+   */
+  private findSplitStepLanding(
+    frames: PoseFrame[],
+    point: (frame: PoseFrame, joint: PoseJoint) => Point2D | null,
+    torsoLength: number
+  ): number | null | undefined {
+    // Elevación del tobillo más bajo: solo cuenta si los dos pies están en el aire
+    const ankleHeights = frames.map(frame => {
+      const left = point(frame, 'leftAnkle');
+      const right = point(frame, 'rightAnkle');
+      return left && right ? Math.max(left.y, right.y) : null;
+    });
+    const visible = ankleHeights.filter((y): y is number => y !== null);
+    if (visible.length < MIN_FOOT_FRAMES) return undefined;
+
+    const ground = PoseGeometry.median(visible);
+    const lifts = PoseGeometry.smooth(
+      ankleHeights.map(y => (y === null ? 0 : (ground - y) / torsoLength)),
+      3
+    );
+
+    let landing: number | null = null;
+    let airborne = false;
+    lifts.forEach((lift, i) => {
+      if (lift >= SPLIT_STEP_LIFT) {
+        airborne = true;
+      } else if (airborne && lift < SPLIT_STEP_LIFT / 2) {
+        airborne = false;
+        landing = i;
+      }
+    });
+    return landing;
+  }
+
+  /**
+   * Rotación estimada a partir del ancho proyectado de los hombros, medida en el frame de máximo giro
+   */
+  private getShoulderRotation(
+    frames: PoseFrame[],
+    point: (frame: PoseFrame, joint: PoseJoint) => Point2D | null
+  ): { value: number; frameIndex: number } | null {
+    const widths = frames.map(frame => {
+      const left = point(frame, 'leftShoulder');
+      const right = point(frame, 'rightShoulder');
+      return left && right ? Math.abs(right.x - left.x) : null;
+    });
+    const measured = widths.filter((width): width is number => width !== null);
+
+    if (measured.length < 2) return null;
+
+    const maxWidth = Math.max(...measured);
+    if (maxWidth === 0) return null;
+
+    const minWidth = Math.min(...measured);
+    return {
+      value: (Math.acos(minWidth / maxWidth) * 180) / Math.PI,
+      frameIndex: widths.indexOf(minWidth),
+    };
+  }
+
+  /**
+   * Flexión máxima de rodillas (180 - ángulo cadera-rodilla-tobillo) y frame en el que se alcanza
+   */
+  private getKneeFlexion(
+    frames: PoseFrame[],
+    point: (frame: PoseFrame, joint: PoseJoint) => Point2D | null
+  ): { value: number; frameIndex: number } | null {
+    let deepest = null as { angle: number; frameIndex: number } | null;
+
+    frames.forEach((frame, frameIndex) => {
+      (['left', 'right'] as const).forEach(side => {
+        const hip = point(frame, `${side}Hip`);
+        const knee = point(frame, `${side}Knee`);
+        const ankle = point(frame, `${side}Ankle`);
+        if (!hip || !knee || !ankle) return;
+
+        const angle = PoseGeometry.angle(hip, knee, ankle);
+        if (deepest === null || angle < deepest.angle) {
+          deepest = { angle, frameIndex };
+        }
+      });
+    });
+
+    return deepest ? { value: 180 - deepest.angle, frameIndex: deepest.frameIndex } : null;
+  }
+
+  /**
+   * Confianza: visibilidad media de las articulaciones clave ponderada por las reglas medibles
+   */
+  private computeConfidence(frames: PoseFrame[], ruleCoverage: number): number {
+    return Math.round(this.getAverageVisibility(frames) * ruleCoverage * 100) / 100;
+  }
+
+  /**
+   * Confianza por dimensión según cuántas de sus reglas se han podido medir.
+   * Una dimensión sin reglas medibles toma prestada la puntuación del resto, así que su confianza se reduce a la mitad.
+   */
+  private computeDimensionConfidence(
+    frames: PoseFrame[],
+    rules: RuleResult[],
+    shotRules: TechniqueRule[]
+  ): Record<ScoreDimension, number> {
+    const averageVisibility = this.getAverageVisibility(frames);
+    const overallCoverage = this.getMeasuredWeight(rules) / shotRules.length;
+    const confidence = {} as Record<ScoreDimension, number>;
+
+    SCORE_DIMENSIONS.forEach(dimension => {
+      const total = shotRules.filter(rule => rule.dimension === dimension).length;
+      const measured = this.getMeasuredWeight(rules.filter(rule => rule.dimension === dimension));
+      const coverage = measured > 0 ? measured / total : overallCoverage * 0.5;
+      confidence[dimension] = Math.round(averageVisibility * coverage * 100) / 100;
+    });
+
+    return confidence;
+  }
+
+  private getAverageVisibility(frames: PoseFrame[]): number {
+    const visibilities = frames.flatMap(frame =>
+      CORE_JOINTS.map(joint => frame.keypoints[joint]?.visibility || 0)
+    );
+    return visibilities.reduce((sum, v) => sum + v, 0) / visibilities.length;
+  }
+}
+
+export const techniqueEvaluator = new TechniqueEvaluator();
+export default techniqueEvaluator;
@@ -0,0 +1,77 @@
+import * as FileSystem from 'expo-file-system';
+import { PoseGeometry, Point2D } from '../utils/poseGeometry';
+import { AppUtils } from '../utils/appUtils';
+
+export type DrawingTool = 'line' | 'arrow' | 'circle' | 'angle';
+
+/**
+ * Trazo sobre un frame; los puntos van normalizados al frame (0-1) para no depender del tamaño de pantalla
+ */
+export interface DrawingShape {
+  id: string;
+  tool: DrawingTool;
+  points: Point2D[]; // línea y flecha: [inicio, fin]; círculo: [centro, borde]; ángulo: [extremo, vértice, extremo]
+  color: string;
+}
+
+/**
+ * Dibujos de un frame del video
+ */
+export interface FrameDrawing {
+  id: string;
+  time: number; // ms desde el inicio del video
+  shapes: DrawingShape[];
+}
+
+// Trazo más corto que se guarda (fracción del frame); los toques sin arrastre se descartan
+const MIN_SHAPE_LENGTH = 0.01;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+
+/**
+ * Herramientas de dibujo sobre frames pausados: geometría de los trazos y exportación como imagen
+ */
+export class TelestratorService {
+  createShape(tool: DrawingTool, points: Point2D[], color: string): DrawingShape | null {
+    const [start, end] = points;
+    if (!start || !end || PoseGeometry.distance(start, end) < MIN_SHAPE_LENGTH) return null;
+    if (tool === 'angle' && (points.length < 3 || PoseGeometry.distance(points[1], points[2]) < MIN_SHAPE_LENGTH)) {
+      return null;
+    }
+
+    return { id: AppUtils.generateId(), tool, points, color };
+  }
+
+  /**
+   * Ángulo en el vértice (grados); los puntos se pasan a la proporción real del frame antes de medir
+   */
+  measureAngle(shape: Pick<DrawingShape, 'tool' | 'points'>, frameAspect: number): number | null {
+    if (shape.tool !== 'angle' || shape.points.length < 3) return null;
+
+    const [a, vertex, b] = shape.points.map(point => ({ x: point.x * frameAspect, y: point.y }));
+    return Math.round(PoseGeometry.angle(a, vertex, b));
+  }
+
+  /**
+   * Extremos de la punta de una flecha, en las mismas unidades que sus puntos
+   */
+  getArrowHead(from: Point2D, to: Point2D, length: number): [Point2D, Point2D] {
+    const direction = Math.atan2(to.y - from.y, to.x - from.x);
+    const side = (offset: number) => ({
+      x: to.x - length * Math.cos(direction + offset),
+      y: to.y - length * Math.sin(direction + offset),
+    });
+    return [side(ARROW_HEAD_ANGLE), side(-ARROW_HEAD_ANGLE)];
+  }
+
+  /**
+   * Guarda la captura del frame dibujado (PNG en base64) y abre el menú de compartir
+   */
+  async shareSnapshot(base64Png: string, videoId: string, time: number): Promise<boolean> {
+    const fileUri = `${FileSystem.cacheDirectory}telestrator_${videoId}_${Math.round(time)}.png`;
+    await FileSystem.writeAsStringAsync(fileUri, base64Png, { encoding: FileSystem.EncodingType.Base64 });
+    return AppUtils.shareFile(fileUri, 'image/png', 'Compartir dibujo');
+  }
+}
+
+export const telestratorService = new TelestratorService();
+export default telestratorService;
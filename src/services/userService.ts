@@ -1,6 +1,8 @@
 import { apiClient, ApiResponse } from './apiClient';
 import { API_CONFIG } from '../config/apiConfig';
-import { User } from './authService';
+import { getShotName } from '../config/shotRegistry';
+import { authService, User } from './authService';
+import type { Handedness } from './poseService';
 
 export interface UserProfile {
   _id: string;
@@ -9,6 +11,8 @@ export interface UserProfile {
   profile: {
     level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
     favoriteShot: string;
+    handedness: Handedness;
+    height?: number; // cm
     experience: number;
     totalAnalyses: number;
     averageScore: number;
@@ -50,6 +54,8 @@ export interface UpdateProfileRequest {
   profile?: {
     level?: 'beginner' | 'intermediate' | 'advanced' | 'expert';
     favoriteShot?: string;
+    handedness?: Handedness;
+    height?: number;
     goals?: {
       targetScore?: number;
       targetAnalyses?: number;
@@ -149,6 +155,26 @@ export class UserService {
     }
   }
 
+  /**
+   * Change the playing hand in the cached user and, for registered users, in the backend profile
+   */
+  async updateHandedness(handedness: Handedness): Promise<void> {
+    await authService.updateCurrentUserProfile({ handedness });
+
+    if (!(await authService.isAuthenticated()) || (await authService.isGuestUser())) return;
+    await this.updateProfile({ profile: { handedness } });
+  }
+
+  /**
+   * Change the player's height (cm), used to calibrate speeds, in the cached user and the backend profile
+   */
+  async updateHeight(height: number): Promise<void> {
+    await authService.updateCurrentUserProfile({ height });
+
+    if (!(await authService.isAuthenticated()) || (await authService.isGuestUser())) return;
+    await this.updateProfile({ profile: { height } });
+  }
+
   async getStats(): Promise<ApiResponse<UserStats>> {
     try {
       return await apiClient.get<UserStats>(
@@ -358,16 +384,7 @@ export class UserService {
   }
 
   private formatShotType(shotType: string): string {
-    const translations: Record<string, string> = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate'
-    };
-    return translations[shotType] || shotType;
+    return getShotName(shotType);
   }
 
   // Achievement system helpers
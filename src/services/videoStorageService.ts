@@ -1,6 +1,9 @@
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CameraAngle } from '../config/cameraAngles';
+import type { FrameDrawing } from './telestratorService';
+import type { AnalysisResult } from './aiService';
 
 export interface StoredVideo {
   id: string;
@@ -11,19 +14,94 @@ export interface StoredVideo {
   duration: number;
   size: number;
   analysisResult?: any;
+  hasPoseTrack?: boolean;
+  hasBallTrack?: boolean;
+  isDrill?: boolean; // recording with several strokes, analysed per stroke
+  cameraAngle?: CameraAngle; // picked when recording; detected from the pose when missing
+  strokes?: StoredStroke[];
+  analysisHistory?: AnalysisHistoryEntry[]; // earlier analyses, oldest first
+  markers?: VideoMarker[]; // placed by the player while reviewing the video, sorted by time
+  drawings?: FrameDrawing[]; // drawn over paused frames, sorted by time
 }
 
+/**
+ * Point of a video marked by the player; time in ms from the start of the video
+ */
+export interface VideoMarker {
+  id: string;
+  time: number;
+  label?: string;
+}
+
+/**
+ * Earlier analysis of a video, kept when the video is analysed again
+ */
+export interface AnalysisHistoryEntry {
+  timestamp: string;
+  engineVersion?: string; // missing in analyses stored before the version was recorded
+  overallScore: number;
+  isSimulated?: boolean;
+}
+
+/**
+ * Analysis result stored with a video or with one of its drill strokes
+ */
+export interface StoredAnalysis {
+  video: StoredVideo;
+  stroke?: StoredStroke;
+  result: AnalysisResult;
+}
+
+const MAX_ANALYSIS_HISTORY = 20;
+
 export interface VideoMetadata {
   shotType: string;
   timestamp: number;
   duration: number;
   size: number;
   analysisResult?: any;
+  isDrill?: boolean;
+  cameraAngle?: CameraAngle;
+}
+
+/**
+ * One stroke found in a drill recording; times are in ms from the start of the parent video
+ */
+export interface StoredStroke {
+  index: number;
+  startTime: number;
+  endTime: number;
+  contactTime: number;
+  shotType: string;
+  detectedConfidence: number;
+  analysisResult?: AnalysisResult;
+  error?: string;
 }
 
 export class VideoStorageService {
   private static readonly VIDEOS_DIRECTORY = `${FileSystem.documentDirectory}padeltech_videos/`;
   private static readonly VIDEOS_INDEX_KEY = 'padeltech_videos_index';
+
+  /**
+   * Directory where extracted frames for a video are cached
+   */
+  static getFramesDirectory(videoId: string): string {
+    return `${this.VIDEOS_DIRECTORY}frames/${videoId}/`;
+  }
+
+  /**
+   * File where the pose track of a video is stored
+   */
+  static getPoseTrackUri(videoId: string): string {
+    return `${this.VIDEOS_DIRECTORY}poses/${videoId}.json`;
+  }
+
+  /**
+   * File where the ball track of a video is stored
+   */
+  static getBallTrackUri(videoId: string): string {
+    return `${this.VIDEOS_DIRECTORY}balls/${videoId}.json`;
+  }
   
   /**
    * Initialize the video storage directory
@@ -179,6 +257,11 @@ export class VideoStorageService {
           await FileSystem.deleteAsync(videoToDelete.uri);
           console.log('Deleted video file:', videoToDelete.fileName);
         }
+
+        // Delete cached frames and pose track
+        await FileSystem.deleteAsync(this.getFramesDirectory(videoId), { idempotent: true });
+        await FileSystem.deleteAsync(this.getPoseTrackUri(videoId), { idempotent: true });
+        await FileSystem.deleteAsync(this.getBallTrackUri(videoId), { idempotent: true });
       }
 
       // Update index
@@ -205,7 +288,15 @@ export class VideoStorageService {
         throw new Error('Video not found');
       }
 
-      videos[videoIndex].analysisResult = analysisResult;
+      const video = videos[videoIndex];
+      if (video.analysisResult) {
+        video.analysisHistory = [
+          ...(video.analysisHistory || []),
+          this.toHistoryEntry(video.analysisResult),
+        ].slice(-MAX_ANALYSIS_HISTORY);
+      }
+
+      video.analysisResult = analysisResult;
       await this.updateVideosIndex(videos);
       console.log('Updated analysis result for video:', videoId);
     } catch (error) {
@@ -214,6 +305,113 @@ export class VideoStorageService {
     }
   }
 
+  /**
+   * Analysis results of all stored videos, including the strokes of drill videos
+   */
+  static async getAllAnalyses(): Promise<StoredAnalysis[]> {
+    const videos = await this.getAllVideos();
+    return videos.flatMap(video => [
+      ...(video.analysisResult ? [{ video, result: video.analysisResult }] : []),
+      ...(video.strokes || []).flatMap(stroke =>
+        stroke.analysisResult ? [{ video, stroke, result: stroke.analysisResult }] : []
+      ),
+    ]);
+  }
+
+  /**
+   * Update stored fields of a video
+   */
+  static async updateVideo(
+    videoId: string,
+    changes: Partial<Omit<StoredVideo, 'id'>>
+  ): Promise<StoredVideo> {
+    try {
+      const videos = await this.getAllVideos();
+      const videoIndex = videos.findIndex(v => v.id === videoId);
+
+      if (videoIndex === -1) {
+        throw new Error('Video not found');
+      }
+
+      videos[videoIndex] = { ...videos[videoIndex], ...changes };
+      await this.updateVideosIndex(videos);
+      return videos[videoIndex];
+    } catch (error) {
+      console.error('Error updating video:', error);
+      throw new Error('Failed to update video');
+    }
+  }
+
+  /**
+   * Add a marker to a video, keeping the markers sorted by time
+   */
+  static async addMarker(videoId: string, time: number, label?: string): Promise<VideoMarker[]> {
+    const video = await this.getVideo(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const marker: VideoMarker = {
+      id: Date.now().toString(),
+      time: Math.max(0, Math.round(time)),
+      label,
+    };
+    const markers = [...(video.markers || []), marker].sort((a, b) => a.time - b.time);
+    await this.updateVideo(videoId, { markers });
+    return markers;
+  }
+
+  /**
+   * Remove a marker placed by the player
+   */
+  static async deleteMarker(videoId: string, markerId: string): Promise<VideoMarker[]> {
+    const video = await this.getVideo(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const markers = (video.markers || []).filter(marker => marker.id !== markerId);
+    await this.updateVideo(videoId, { markers });
+    return markers;
+  }
+
+  /**
+   * Save the drawings of a frame, replacing the earlier version with the same id
+   */
+  static async saveDrawing(videoId: string, drawing: FrameDrawing): Promise<FrameDrawing[]> {
+    const video = await this.getVideo(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const drawings = [...(video.drawings || []).filter(existing => existing.id !== drawing.id), drawing]
+      .sort((a, b) => a.time - b.time);
+    await this.updateVideo(videoId, { drawings });
+    return drawings;
+  }
+
+  /**
+   * Remove the drawings of a frame
+   */
+  static async deleteDrawing(videoId: string, drawingId: string): Promise<FrameDrawing[]> {
+    const video = await this.getVideo(videoId);
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const drawings = (video.drawings || []).filter(drawing => drawing.id !== drawingId);
+    await this.updateVideo(videoId, { drawings });
+    return drawings;
+  }
+
+  /**
+   * Get a single stored video
+   */
+  static async getVideo(videoId: string): Promise<StoredVideo | null> {
+    const videos = await this.getAllVideos();
+    return videos.find(v => v.id === videoId) || null;
+  }
+
   /**
    * Get storage statistics
    */
@@ -275,6 +473,15 @@ export class VideoStorageService {
     await this.updateVideosIndex(videos);
   }
 
+  private static toHistoryEntry(analysisResult: AnalysisResult): AnalysisHistoryEntry {
+    return {
+      timestamp: analysisResult.timestamp,
+      engineVersion: analysisResult.engineVersion,
+      overallScore: analysisResult.overallScore,
+      isSimulated: analysisResult.isSimulated,
+    };
+  }
+
   /**
    * Private method to update videos index
    */
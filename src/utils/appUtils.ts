@@ -5,6 +5,7 @@ import { Platform, Dimensions, Alert } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
 import * as Sharing from 'expo-sharing';
+import { getShotName } from '../config/shotRegistry';
 
 const { width, height } = Dimensions.get('window');
 
@@ -256,16 +257,7 @@ export class AppUtils {
    * Obtener nombre del tipo de golpe
    */
   static getShotTypeName(type: string): string {
-    const shotNames: { [key: string]: string } = {
-      derecha: 'Derecha',
-      reves: 'Revés',
-      volea: 'Volea',
-      saque: 'Saque',
-      bandeja: 'Bandeja',
-      vibora: 'Víbora',
-      remate: 'Remate',
-    };
-    return shotNames[type] || type;
+    return getShotName(type);
   }
 
   /**
@@ -292,42 +284,6 @@ export class AppUtils {
     if (lastScore < firstScore - 5) return 'declining';
     return 'stable';
   }
-
-  /**
-   * Obtener recomendaciones según puntuación
-   */
-  static getRecommendations(score: number, shotType: string): string[] {
-    const baseRecommendations = [
-      'Practica la técnica básica regularmente',
-      'Mantén la consistencia en tus movimientos',
-      'Graba y revisa tus golpes frecuentemente',
-    ];
-
-    if (score < 60) {
-      return [
-        'Enfócate en la postura básica',
-        'Practica el movimiento sin pelota',
-        'Busca instrucción profesional',
-        ...baseRecommendations,
-      ];
-    }
-
-    if (score < 80) {
-      return [
-        'Mejora la precisión del timing',
-        'Trabaja en la transferencia de peso',
-        'Practica con diferentes velocidades',
-        ...baseRecommendations,
-      ];
-    }
-
-    return [
-      'Refina los detalles técnicos',
-      'Practica en situaciones de presión',
-      'Mantén tu nivel actual',
-      ...baseRecommendations,
-    ];
-  }
 }
 
 export default AppUtils;
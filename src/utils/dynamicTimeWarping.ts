@@ -0,0 +1,70 @@
+// PadelTech Dynamic Time Warping
+// Alineación temporal de dos secuencias que pueden ir a distinta velocidad
+
+export interface WarpingAlignment {
+  path: Array<[number, number]>; // pares (índice en a, índice en b) en orden
+  totalCost: number;
+  averageCost: number; // coste medio por paso del camino
+}
+
+/**
+ * Dynamic time warping clásico (pasos diagonal, horizontal y vertical)
+ */
+export class DynamicTimeWarping {
+  /**
+   * Alinea las secuencias a y b minimizando la suma de costes del camino
+   */
+  static align<A, B>(a: A[], b: B[], cost: (itemA: A, itemB: B) => number): WarpingAlignment {
+    if (a.length === 0 || b.length === 0) {
+      return { path: [], totalCost: 0, averageCost: 0 };
+    }
+
+    const rows = a.length;
+    const cols = b.length;
+    const accumulated: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(Infinity));
+
+    for (let i = 0; i < rows; i++) {
+      for (let j = 0; j < cols; j++) {
+        const stepCost = cost(a[i], b[j]);
+        if (i === 0 && j === 0) {
+          accumulated[i][j] = stepCost;
+          continue;
+        }
+
+        const diagonal = i > 0 && j > 0 ? accumulated[i - 1][j - 1] : Infinity;
+        const up = i > 0 ? accumulated[i - 1][j] : Infinity;
+        const left = j > 0 ? accumulated[i][j - 1] : Infinity;
+        accumulated[i][j] = stepCost + Math.min(diagonal, up, left);
+      }
+    }
+
+    // Recorre el camino óptimo hacia atrás desde la última celda
+    const path: Array<[number, number]> = [[rows - 1, cols - 1]];
+    let i = rows - 1;
+    let j = cols - 1;
+    while (i > 0 || j > 0) {
+      if (i === 0) {
+        j--;
+      } else if (j === 0) {
+        i--;
+      } else {
+        const diagonal = accumulated[i - 1][j - 1];
+        const up = accumulated[i - 1][j];
+        const left = accumulated[i][j - 1];
+        if (diagonal <= up && diagonal <= left) {
+          i--;
+          j--;
+        } else if (up <= left) {
+          i--;
+        } else {
+          j--;
+        }
+      }
+      path.push([i, j]);
+    }
+    path.reverse();
+
+    const totalCost = accumulated[rows - 1][cols - 1];
+    return { path, totalCost, averageCost: totalCost / path.length };
+  }
+}
@@ -0,0 +1,94 @@
+// PadelTech Pose Geometry
+// Funciones geométricas sobre keypoints 2D
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+/**
+ * Utilidades geométricas para keypoints de pose
+ */
+export class PoseGeometry {
+  /**
+   * Distancia euclídea entre dos puntos
+   */
+  static distance(a: Point2D, b: Point2D): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  /**
+   * Punto medio entre dos puntos
+   */
+  static midpoint(a: Point2D, b: Point2D): Point2D {
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  }
+
+  /**
+   * Ángulo en grados (0-180) formado en el vértice por los segmentos vertex-a y vertex-c
+   */
+  static angle(a: Point2D, vertex: Point2D, c: Point2D): number {
+    const v1 = { x: a.x - vertex.x, y: a.y - vertex.y };
+    const v2 = { x: c.x - vertex.x, y: c.y - vertex.y };
+    const norm = Math.hypot(v1.x, v1.y) * Math.hypot(v2.x, v2.y);
+
+    if (norm === 0) return 0;
+
+    const cos = (v1.x * v2.x + v1.y * v2.y) / norm;
+    return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+  }
+
+  /**
+   * Inclinación en grados (0-180) del segmento bottom→top respecto a la vertical
+   */
+  static angleFromVertical(top: Point2D, bottom: Point2D): number {
+    // En coordenadas de imagen la "y" crece hacia abajo
+    return this.angle(top, bottom, { x: bottom.x, y: bottom.y - 1 });
+  }
+
+  /**
+   * Longitud del recorrido que une una secuencia de puntos
+   */
+  static pathLength(points: Point2D[]): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += this.distance(points[i - 1], points[i]);
+    }
+    return length;
+  }
+
+  /**
+   * Proyección escalar de un vector sobre la dirección from→to (normalizada)
+   */
+  static projectOnto(vector: Point2D, from: Point2D, to: Point2D): number {
+    const axis = { x: to.x - from.x, y: to.y - from.y };
+    const axisLength = Math.hypot(axis.x, axis.y);
+    if (axisLength === 0) return 0;
+
+    return (vector.x * axis.x + vector.y * axis.y) / axisLength;
+  }
+
+  /**
+   * Mediana de una lista de números (0 si está vacía)
+   */
+  static median(values: number[]): number {
+    if (values.length === 0) return 0;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  /**
+   * Media móvil centrada de tamaño `window`
+   */
+  static smooth(values: number[], window: number = 3): number[] {
+    const half = Math.floor(window / 2);
+    return values.map((_, i) => {
+      const slice = values.slice(Math.max(0, i - half), i + half + 1);
+      return slice.reduce((sum, value) => sum + value, 0) / slice.length;
+    });
+  }
+}
+
+export default PoseGeometry;
@@ -0,0 +1,89 @@
+// PadelTech Trajectory Fit
+// Ajuste por mínimos cuadrados de trayectorias (posición en función del tiempo)
+
+/**
+ * Polinomio por coeficientes: coefficients[i] multiplica a t^i
+ */
+export interface PolynomialFit {
+  coefficients: number[];
+  residual: number; // error cuadrático medio del ajuste
+}
+
+/**
+ * Ajuste polinómico por mínimos cuadrados (ecuaciones normales)
+ */
+export class TrajectoryFit {
+  /**
+   * Ajusta un polinomio de grado `degree` a los pares (t, value)
+   */
+  static fit(times: number[], values: number[], degree: number): PolynomialFit | null {
+    const size = degree + 1;
+    if (times.length !== values.length || times.length < size) return null;
+
+    // Matriz aumentada de las ecuaciones normales: sum(t^(i+j)) · c = sum(t^i · v)
+    const matrix = Array.from({ length: size }, (_, i) =>
+      Array.from({ length: size + 1 }, (_, j) =>
+        j < size
+          ? times.reduce((sum, t) => sum + Math.pow(t, i + j), 0)
+          : times.reduce((sum, t, k) => sum + Math.pow(t, i) * values[k], 0)
+      )
+    );
+
+    const coefficients = this.solve(matrix);
+    if (!coefficients) return null;
+
+    const squaredError = times.reduce(
+      (sum, t, k) => sum + Math.pow(this.evaluate(coefficients, t) - values[k], 2),
+      0
+    );
+    return { coefficients, residual: squaredError / times.length };
+  }
+
+  /**
+   * Valor del polinomio en t
+   */
+  static evaluate(coefficients: number[], t: number): number {
+    return coefficients.reduceRight((value, coefficient) => value * t + coefficient, 0);
+  }
+
+  /**
+   * Derivada del polinomio en t
+   */
+  static derivative(coefficients: number[], t: number): number {
+    return this.evaluate(coefficients.slice(1).map((coefficient, i) => coefficient * (i + 1)), t);
+  }
+
+  /**
+   * Eliminación de Gauss con pivoteo parcial; null si el sistema es singular
+   */
+  private static solve(matrix: number[][]): number[] | null {
+    const size = matrix.length;
+
+    for (let column = 0; column < size; column++) {
+      let pivot = column;
+      for (let row = column + 1; row < size; row++) {
+        if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+      }
+      if (Math.abs(matrix[pivot][column]) < 1e-12) return null;
+      [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+
+      for (let row = column + 1; row < size; row++) {
+        const factor = matrix[row][column] / matrix[column][column];
+        for (let k = column; k <= size; k++) {
+          matrix[row][k] -= factor * matrix[column][k];
+        }
+      }
+    }
+
+    const solution = new Array(size).fill(0);
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = matrix[row][size];
+      for (let k = row + 1; k < size; k++) {
+        sum -= matrix[row][k] * solution[k];
+      }
+      solution[row] = sum / matrix[row][row];
+    }
+
+    return solution;
+  }
+}